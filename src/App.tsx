@@ -1,34 +1,82 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { onAuthStateChanged } from 'firebase/auth';
+import { AlertCircle, Eye, Clock, Send, CheckCircle } from 'lucide-react';
 import { auth } from './config/firebase';
 import Scene from './components/Scene';
 import Toolbar from './components/Toolbar';
 import ActionsToolbar from './components/ActionsToolbar';
 import LayersPanel from './components/LayersPanel';
 import ObjectProperties from './components/ObjectProperties';
+import ObjectInspector from './components/ObjectInspector';
 import EditControls from './components/EditControls';
 import CameraPerspectivePanel from './components/CameraPerspectivePanel';
 import LightingPanel from './components/LightingPanel';
 import SettingsPanel, { HideInterfaceButton } from './components/SettingsPanel';
 import SaveButton from './components/SaveButton';
+import SceneSwitcher from './components/SceneSwitcher';
+import PresenceAvatars from './components/PresenceAvatars';
+import ConflictIndicator from './components/ConflictIndicator';
+import OfflineBadge from './components/OfflineBadge';
+import RecoveryPrompt from './components/RecoveryPrompt';
 import AuthModal from './components/AuthModal';
 import UserProfile from './components/UserProfile';
 import ClassroomInterface from './components/ClassroomInterface';
-import { useSceneStore } from './store/sceneStore';
-import { useClassroomStore } from './store/classroomStore';
+import AnnotationPanel from './components/AnnotationPanel';
+import GradingPanel from './components/GradingPanel';
+import { useSceneStore, attachAutosaveListeners } from './store/sceneStore';
+import { useClassroomStore, getProjectRole } from './store/classroomStore';
+import { usePresenceStore } from './store/presenceStore';
+import { useAnnotationStore } from './store/annotationStore';
+import { STORAGE_BACKEND } from './services/repository';
+import { DEMO_USER } from './services/localRepository';
+import { JoinTarget, parseJoinLink, parseViewLink } from './utils/joinLinks';
+
+const NOTICE_DURATION = 4000;
 
 function App() {
-  const { sceneSettings, setCurrentProject, isLoading } = useSceneStore();
-  const { currentProject, setCurrentProject: setClassroomCurrentProject } = useClassroomStore();
-  const [user, setUser] = useState<any>(null);
-  const [loading, setLoading] = useState(true);
+  const {
+    sceneSettings,
+    setCurrentProject,
+    isLoading,
+    isReadOnly,
+    setProjectAccess,
+    saveProjectData,
+    studioNotice,
+    setStudioNotice
+  } = useSceneStore();
+  const {
+    currentProject,
+    setCurrentProject: setClassroomCurrentProject,
+    recordProjectVisit,
+    joinProject,
+    openSharedView,
+    submitAssignment,
+    error: classroomError
+  } = useClassroomStore();
+  const { startPresence, stopPresence } = usePresenceStore();
+  const { startAnnotations, stopAnnotations } = useAnnotationStore();
+  // The local backend runs a demo classroom that is always signed in as its teacher
+  const isLocalDemo = STORAGE_BACKEND === 'local';
+  const [user, setUser] = useState<any>(isLocalDemo ? DEMO_USER : null);
+  const [loading, setLoading] = useState(!isLocalDemo);
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [currentView, setCurrentView] = useState<'classroom' | 'studio'>('classroom');
+  // A join link that opened the app; it is used once someone is signed in
+  const [joinTarget, setJoinTarget] = useState<JoinTarget | null>(() => parseJoinLink(window.location));
+  const [joinNotice, setJoinNotice] = useState<string | null>(null);
+  // A view link opens the studio read-only for anyone holding it, signed in or not
+  const [viewTarget] = useState(() => parseViewLink(window.location));
+  const isViewer = !!viewTarget;
+  const [viewerFailed, setViewerFailed] = useState(false);
 
   useEffect(() => {
+    if (isLocalDemo) return;
+
     const unsubscribe = onAuthStateChanged(auth, (user) => {
       setUser(user);
       setLoading(false);
+      // The shared view doesn't depend on who is signed in
+      if (isViewer) return;
       
       // Show auth modal if no user is signed in
       if (!user) {
@@ -44,7 +92,76 @@ function App() {
     });
 
     return () => unsubscribe();
-  }, [setCurrentProject, setClassroomCurrentProject]);
+  }, [isLocalDemo, isViewer, setCurrentProject, setClassroomCurrentProject]);
+
+  useEffect(() => {
+    if (!viewTarget) return;
+
+    openSharedView(viewTarget).then((project) => {
+      if (project) {
+        // Loaded without a user, so nothing in the viewer can be saved
+        setCurrentProject(project.id, null);
+      } else {
+        setViewerFailed(true);
+      }
+    });
+  }, [viewTarget, openSharedView, setCurrentProject]);
+
+  // Apply the open project's settings to the studio. Students only get to
+  // change the scene when the teacher allows it, and not once they submitted it
+  useEffect(() => {
+    if (isViewer) {
+      setProjectAccess(currentProject?.settings ?? null, true);
+      return;
+    }
+    if (!currentProject || !user) {
+      setProjectAccess(null, false);
+      return;
+    }
+
+    const role = getProjectRole(currentProject, user);
+    const readOnly = role === null || (role === 'student' &&
+      (!currentProject.settings.allowStudentEdit || currentProject.submission?.status === 'submitted'));
+    setProjectAccess(currentProject.settings, readOnly);
+  }, [isViewer, currentProject, user, setProjectAccess]);
+
+  // Save when the connection comes back and before the tab closes
+  useEffect(() => attachAutosaveListeners(), []);
+
+  // Let collaborators see who else is in the studio while it is open. Nobody else can
+  // reach a project kept in this browser
+  const presenceProjectId = !isLocalDemo && currentProject?.settings.enableCollaboration !== false
+    ? currentProject?.id
+    : undefined;
+  useEffect(() => {
+    if (currentView !== 'studio' || !presenceProjectId || !user) return;
+
+    startPresence(presenceProjectId, user);
+    return () => stopPresence();
+  }, [currentView, presenceProjectId, user, startPresence, stopPresence]);
+
+  // Comments pinned into the scene follow the open project. Shared view links are for looking only
+  const annotationProjectId = isViewer ? undefined : currentProject?.id;
+  useEffect(() => {
+    if (currentView !== 'studio' || !annotationProjectId || !user) return;
+
+    startAnnotations(annotationProjectId, user);
+    return () => stopAnnotations();
+  }, [currentView, annotationProjectId, user, startAnnotations, stopAnnotations]);
+
+  useEffect(() => {
+    if (!studioNotice) return;
+
+    const timer = setTimeout(() => setStudioNotice(null), NOTICE_DURATION);
+    return () => clearTimeout(timer);
+  }, [studioNotice, setStudioNotice]);
+
+  useEffect(() => {
+    if (!joinNotice) return;
+
+    const timer = setTimeout(() => setJoinNotice(null), NOTICE_DURATION);
+    return () => clearTimeout(timer);
+  }, [joinNotice]);
 
   const handleAuthSuccess = () => {
     setShowAuthModal(false);
@@ -52,15 +169,33 @@ function App() {
   };
 
   const handleSignOut = () => {
-    setUser(null);
-    setShowAuthModal(true);
+    if (!isLocalDemo) {
+      setUser(null);
+      setShowAuthModal(true);
+    }
     setCurrentView('classroom');
     // Clear all project data when signing out
     setCurrentProject(null);
     setClassroomCurrentProject(null);
   };
 
-  const handleProjectSelect = (projectId: string) => {
+  const handleSubmitAssignment = async () => {
+    if (!currentProject || !confirm(`Submit "${currentProject.name}"? You won't be able to change it unless your teacher reopens it.`)) {
+      return;
+    }
+
+    // The last changes go in before the copy is frozen
+    try {
+      await saveProjectData();
+    } catch (error) {
+      console.error('Failed to save before submitting:', error);
+      setStudioNotice('Could not save your latest changes, so the project was not submitted');
+      return;
+    }
+    await submitAssignment(currentProject.id);
+  };
+
+  const handleProjectSelect = useCallback((projectId: string) => {
     // Set the current project in both stores
     const selectedProject = useClassroomStore.getState().projects.find(p => p.id === projectId);
     if (selectedProject && user) {
@@ -68,15 +203,40 @@ function App() {
       // Set the project context in scene store - this will clear all data and load project data
       setCurrentProject(projectId, user.uid);
       setCurrentView('studio');
+      // Let the teacher see when enrolled students were last here
+      recordProjectVisit(projectId, user);
       
       console.log(`Switched to project: ${selectedProject.name} (${projectId})`);
     }
-  };
+  }, [user, setClassroomCurrentProject, setCurrentProject, recordProjectVisit]);
+
+  // Students land in the project once they are on the roster. Failures show up in the classroom's error banner
+  const handleJoin = useCallback(async (target: JoinTarget) => {
+    if (!user) return;
+
+    const result = await joinProject(target, user);
+    if (result?.status === 'joined') {
+      handleProjectSelect(result.projectId);
+    } else if (result?.status === 'pending') {
+      setJoinNotice(`Asked to join "${result.projectName}". It will show up here once your teacher approves`);
+    }
+  }, [user, joinProject, handleProjectSelect]);
+
+  useEffect(() => {
+    if (!joinTarget || !user) return;
+
+    setJoinTarget(null);
+    window.history.replaceState(null, '', '/');
+    handleJoin(joinTarget);
+  }, [joinTarget, user, handleJoin]);
 
   const handleBackToClassroom = async () => {
     // Save current project data before going back to classroom
     const sceneStore = useSceneStore.getState();
-    if (sceneStore.currentProjectId && sceneStore.hasUnsavedChanges) {
+    const hasPendingChanges = sceneStore.currentProjectId && sceneStore.hasUnsavedChanges && !sceneStore.isReadOnly;
+    // With auto-save off the user decides whether leaving keeps their changes
+    if (hasPendingChanges && (sceneStore.projectSettings?.autoSave !== false ||
+        confirm('Save your changes before returning to the classroom?'))) {
       try {
         await sceneStore.saveProjectData();
         console.log('Project data saved before returning to classroom');
@@ -103,8 +263,26 @@ function App() {
     );
   }
 
+  if (isViewer && viewerFailed) {
+    return (
+      <div className="w-full h-screen bg-[#0f0f23] flex items-center justify-center">
+        <div className="text-center max-w-md px-6">
+          <AlertCircle className="w-12 h-12 text-orange-400 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-white/90 mb-2">This link doesn't open a project</h1>
+          <p className="text-white/60 mb-6">{classroomError}</p>
+          <a
+            href="/"
+            className="inline-block px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors"
+          >
+            Go to the Classroom
+          </a>
+        </div>
+      </div>
+    );
+  }
+
   // Show classroom interface as the main page
-  if (!user || currentView === 'classroom') {
+  if (!isViewer && (!user || currentView === 'classroom')) {
     return (
       <div className="w-full h-screen relative bg-[#0f0f23]">
         {/* Authentication Modal */}
@@ -119,11 +297,19 @@ function App() {
           <ClassroomInterface
             user={user}
             onProjectSelect={handleProjectSelect}
+            onJoinClass={(classCode) => handleJoin({ kind: 'classCode', classCode })}
             onClose={() => {}} // No close button needed since this is the main page
             onSignOut={handleSignOut}
           />
         )}
 
+        {joinNotice && (
+          <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 flex items-center gap-2 px-4 py-3 bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 border border-purple-500/30 z-50">
+            <Clock className="w-5 h-5 text-purple-400" />
+            <span className="text-sm text-white/90">{joinNotice}</span>
+          </div>
+        )}
+
         {/* If no user, show a welcome screen */}
         {!user && !showAuthModal && (
           <div className="w-full h-screen bg-[#0f0f23] flex items-center justify-center">
@@ -187,6 +373,10 @@ function App() {
     );
   }
 
+  // Teachers opening a student's copy get the rubric in place of the layers list
+  const isGrading = !isViewer && !!user && !!currentProject?.submission &&
+    getProjectRole(currentProject, user) === 'teacher';
+
   // Show 3D Studio when a project is selected
   return (
     <div className="w-full h-screen relative">
@@ -208,28 +398,33 @@ function App() {
         {/* Hide Interface Button */}
         <HideInterfaceButton />
         
-        {/* Back to Classroom Button */}
-        <button
-          onClick={handleBackToClassroom}
-          className="flex items-center gap-2 px-4 py-3 bg-[#1a1a1a] hover:bg-[#2a2a2a] rounded-xl shadow-2xl shadow-black/20 border border-white/5 transition-all duration-200 hover:scale-105 group"
-          title="Back to Classroom"
-        >
-          <div className="p-2 bg-blue-500/20 rounded-lg group-hover:bg-blue-500/30 transition-colors">
-            <svg className="w-5 h-5 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.746 0 3.332.477 4.5 1.253v13C19.832 18.477 18.246 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
-            </svg>
-          </div>
-          <div className="hidden sm:block">
-            <div className="text-sm font-medium text-white/90">Classroom</div>
-            <div className="text-xs text-white/60">Back to Projects</div>
-          </div>
-        </button>
+        {/* Back to Classroom Button - the shared view has no classroom */}
+        {!isViewer && (
+          <button
+            onClick={handleBackToClassroom}
+            className="flex items-center gap-2 px-4 py-3 bg-[#1a1a1a] hover:bg-[#2a2a2a] rounded-xl shadow-2xl shadow-black/20 border border-white/5 transition-all duration-200 hover:scale-105 group"
+            title="Back to Classroom"
+          >
+            <div className="p-2 bg-blue-500/20 rounded-lg group-hover:bg-blue-500/30 transition-colors">
+              <svg className="w-5 h-5 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.746 0 3.332.477 4.5 1.253v13C19.832 18.477 18.246 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+              </svg>
+            </div>
+            <div className="hidden sm:block">
+              <div className="text-sm font-medium text-white/90">Classroom</div>
+              <div className="text-xs text-white/60">Back to Projects</div>
+            </div>
+          </button>
+        )}
+
+        {/* Scenes of the open project */}
+        <SceneSwitcher />
         
         {/* Save Button - When user is authenticated */}
-        {user && <SaveButton user={user} projectId={currentProject?.id} />}
+        {user && !isReadOnly && <SaveButton user={user} projectId={currentProject?.id} />}
         
         {/* User Profile - When user is authenticated */}
-        {user && <UserProfile user={user} onSignOut={handleSignOut} />}
+        {user && !isViewer && <UserProfile user={user} onSignOut={handleSignOut} />}
       </div>
 
       {/* Current Project Indicator */}
@@ -241,6 +436,35 @@ function App() {
             <div className="text-xs text-white/60 ml-2">
               {currentProject.students?.length || 0} students
             </div>
+            {!isViewer && (
+              <>
+                <OfflineBadge />
+                <ConflictIndicator />
+                <PresenceAvatars />
+              </>
+            )}
+            {!isViewer && user && currentProject.submission && getProjectRole(currentProject, user) === 'student' && (
+              currentProject.submission.status === 'submitted' ? (
+                <div className="flex items-center gap-1 ml-2 px-2 py-0.5 rounded-full bg-green-500/20 border border-green-500/30 text-xs text-green-300">
+                  <CheckCircle className="w-3 h-3" />
+                  Submitted
+                </div>
+              ) : (
+                <button
+                  onClick={handleSubmitAssignment}
+                  className="flex items-center gap-1 ml-2 px-2 py-1 bg-purple-500 hover:bg-purple-600 text-white rounded text-xs font-medium transition-colors"
+                >
+                  <Send className="w-3 h-3" />
+                  Submit
+                </button>
+              )
+            )}
+            {isReadOnly && (
+              <div className="flex items-center gap-1 ml-2 px-2 py-0.5 rounded-full bg-orange-500/20 border border-orange-500/30 text-xs text-orange-300">
+                <Eye className="w-3 h-3" />
+                View only
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -248,15 +472,36 @@ function App() {
       {/* Conditionally render UI panels based on hideAllMenus setting */}
       {!sceneSettings.hideAllMenus && (
         <>
-          <ActionsToolbar />
-          <Toolbar />
-          <LayersPanel />
-          <ObjectProperties />
-          <EditControls />
+          {!isViewer && <ActionsToolbar />}
+          {!isReadOnly && <Toolbar />}
+          {!isViewer && <AnnotationPanel />}
+          {isGrading && currentProject ? (
+            <GradingPanel project={currentProject} onOpenSubmission={handleProjectSelect} />
+          ) : (
+            <LayersPanel />
+          )}
+          {!isReadOnly ? (
+            <>
+              <ObjectProperties />
+              <EditControls />
+              <LightingPanel />
+            </>
+          ) : (
+            <ObjectInspector />
+          )}
           <CameraPerspectivePanel />
-          <LightingPanel />
         </>
       )}
+
+      <RecoveryPrompt />
+
+      {/* Explains refused actions such as going past the object limit */}
+      {studioNotice && (
+        <div className="fixed bottom-4 left-1/2 transform -translate-x-1/2 flex items-center gap-2 px-4 py-3 bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 border border-orange-500/30 z-50">
+          <AlertCircle className="w-5 h-5 text-orange-400" />
+          <span className="text-sm text-white/90">{studioNotice}</span>
+        </div>
+      )}
       
       {/* Settings panel is always visible */}
       <SettingsPanel />
@@ -5,22 +5,31 @@ import {
   Copy,
   FlipHorizontal,
   ZoomIn,
-  ZoomOut
+  ZoomOut,
+  Trash2,
+  MessagesSquare
 } from 'lucide-react';
 import { useSceneStore } from '../store/sceneStore';
+import { useAnnotationStore } from '../store/annotationStore';
+import ExportMenu from './ExportMenu';
 
 const ActionsToolbar: React.FC = () => {
   const {
     selectedObject,
+    selectedObjects,
     undo,
     redo,
     canUndo,
     canRedo,
     duplicateObject,
     mirrorObject,
+    removeObjects,
     zoomIn,
-    zoomOut
+    zoomOut,
+    isReadOnly,
+    currentSceneId
   } = useSceneStore();
+  const { annotations, isPanelOpen, setPanelOpen } = useAnnotationStore();
 
   const actionTools = [
     {
@@ -28,49 +37,70 @@ const ActionsToolbar: React.FC = () => {
       action: undo,
       title: 'Undo',
       disabled: !canUndo,
-      shortcut: 'Ctrl+Z'
+      shortcut: 'Ctrl+Z',
+      editsScene: true
     },
     {
       icon: Redo,
       action: redo,
       title: 'Redo',
       disabled: !canRedo,
-      shortcut: 'Ctrl+Y'
+      shortcut: 'Ctrl+Y',
+      editsScene: true
     },
     {
       icon: Copy,
       action: duplicateObject,
       title: 'Duplicate',
       disabled: !selectedObject,
-      shortcut: 'Ctrl+D'
+      shortcut: 'Ctrl+D',
+      editsScene: true
     },
     {
       icon: FlipHorizontal,
       action: mirrorObject,
       title: 'Mirror',
       disabled: !selectedObject,
-      shortcut: 'Ctrl+M'
+      shortcut: 'Ctrl+M',
+      editsScene: true
+    },
+    {
+      icon: Trash2,
+      action: () => removeObjects(Array.from(selectedObjects)),
+      title: 'Delete',
+      disabled: selectedObjects.size === 0,
+      shortcut: 'Del',
+      editsScene: true
     },
     {
       icon: ZoomIn,
       action: zoomIn,
       title: 'Zoom In',
       disabled: false,
-      shortcut: '+'
+      shortcut: '+',
+      editsScene: false
     },
     {
       icon: ZoomOut,
       action: zoomOut,
       title: 'Zoom Out',
       disabled: false,
-      shortcut: '-'
+      shortcut: '-',
+      editsScene: false
     }
   ] as const;
 
+  const openComments = annotations.filter(annotation =>
+    !annotation.resolved && (!annotation.sceneId || annotation.sceneId === currentSceneId)
+  ).length;
+
+  // View-only users keep the camera and export tools
+  const visibleTools = actionTools.filter(tool => !isReadOnly || !tool.editsScene);
+
   return (
     <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 p-3 border border-white/5 z-10">
       <div className="flex items-center gap-2">
-        {actionTools.map(({ icon: Icon, action, title, disabled, shortcut }, index) => (
+        {visibleTools.map(({ icon: Icon, action, title, disabled, shortcut }, index) => (
           <React.Fragment key={title}>
             <button
               onClick={action}
@@ -94,11 +124,42 @@ const ActionsToolbar: React.FC = () => {
             </button>
             
             {/* Separator */}
-            {index < actionTools.length - 1 && (
+            {index < visibleTools.length - 1 && (
               <div className="w-px h-6 bg-white/10" />
             )}
           </React.Fragment>
         ))}
+
+        {/* Separator */}
+        <div className="w-px h-6 bg-white/10" />
+
+        <ExportMenu />
+
+        {/* Separator */}
+        <div className="w-px h-6 bg-white/10" />
+
+        {/* Comments stay open to view-only users, so they can still give feedback */}
+        <button
+          onClick={() => setPanelOpen(!isPanelOpen)}
+          className={`p-3 rounded-lg transition-all duration-200 flex items-center justify-center group relative ${
+            isPanelOpen
+              ? 'bg-blue-500/20 text-blue-400'
+              : 'text-white/90 hover:bg-white/10 hover:text-white hover:scale-105 active:scale-95'
+          }`}
+          title="Comments"
+        >
+          <MessagesSquare className="w-5 h-5" />
+          {openComments > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-amber-500 text-[10px] font-bold text-white flex items-center justify-center">
+              {openComments}
+            </span>
+          )}
+
+          {/* Tooltip */}
+          <div className="absolute bottom-full mb-2 left-1/2 transform -translate-x-1/2 bg-black/90 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
+            Comments
+          </div>
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import {
+  X,
+  MessagesSquare,
+  MessageSquarePlus,
+  ChevronLeft,
+  CheckCircle,
+  RotateCcw,
+  Trash2,
+  Send,
+  AlertCircle
+} from 'lucide-react';
+import { useAnnotationStore } from '../store/annotationStore';
+import { useSceneStore } from '../store/sceneStore';
+
+const formatDate = (date: number) => {
+  return new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+};
+
+// Comments pinned into the scene: the list for the current scene, one open discussion,
+// or the first message of a new pin
+const AnnotationPanel: React.FC = () => {
+  const {
+    annotations,
+    currentUserId,
+    isPanelOpen,
+    isPlacing,
+    draftAnchor,
+    activeAnnotationId,
+    showResolved,
+    error,
+    setPanelOpen,
+    setPlacing,
+    setDraftAnchor,
+    setActiveAnnotation,
+    setShowResolved,
+    addAnnotation,
+    replyToAnnotation,
+    setAnnotationResolved,
+    deleteAnnotation
+  } = useAnnotationStore();
+  const { currentSceneId } = useSceneStore();
+  const [text, setText] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  // A half-written message doesn't carry over to another thread
+  useEffect(() => {
+    setText('');
+  }, [activeAnnotationId, draftAnchor]);
+
+  if (!isPanelOpen) return null;
+
+  // Numbered across the project, the same as the pins
+  const numbered = annotations.map((annotation, index) => ({ annotation, number: index + 1 }));
+  const inScene = numbered.filter(({ annotation }) => !annotation.sceneId || annotation.sceneId === currentSceneId);
+  const listed = inScene.filter(({ annotation }) => showResolved || !annotation.resolved);
+  const resolvedCount = inScene.length - inScene.filter(({ annotation }) => !annotation.resolved).length;
+  const active = numbered.find(({ annotation }) => annotation.id === activeAnnotationId);
+
+  const handlePost = async () => {
+    setPosting(true);
+    // A message that failed to post stays in the box to try again. A new pin's text goes
+    // with its draft once it is saved
+    if (draftAnchor) {
+      await addAnnotation(text);
+    } else if (active && await replyToAnnotation(active.annotation.id as string, text)) {
+      setText('');
+    }
+    setPosting(false);
+  };
+
+  return (
+    <div className="absolute left-24 top-20 w-80 max-h-[70vh] bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 border border-white/5 flex flex-col z-20">
+      {/* Header */}
+      <div className="flex items-center justify-between p-3 border-b border-white/10">
+        <div className="flex items-center gap-2">
+          {active && (
+            <button
+              onClick={() => setActiveAnnotation(null)}
+              className="p-1 hover:bg-white/10 rounded transition-colors text-white/70"
+              title="All Comments"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+          )}
+          <MessagesSquare className="w-4 h-4 text-blue-400" />
+          <h3 className="text-sm font-medium text-white/90">
+            {active ? `Comment ${active.number}` : draftAnchor ? 'New Comment' : 'Comments'}
+          </h3>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setPlacing(!isPlacing)}
+            className={`p-1.5 rounded transition-colors ${
+              isPlacing ? 'bg-blue-500/20 text-blue-400' : 'hover:bg-white/10 text-white/70'
+            }`}
+            title="Pin a Comment"
+          >
+            <MessageSquarePlus className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setPanelOpen(false)}
+            className="p-1.5 hover:bg-white/10 rounded transition-colors text-white/70"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3">
+        {isPlacing ? (
+          <p className="text-sm text-white/60">
+            Click a surface in the scene to pin a comment there. Right-click or press Esc to cancel
+          </p>
+        ) : draftAnchor ? (
+          <p className="text-xs text-white/50 mb-2">
+            {draftAnchor.objectId ? 'Pinned to an object. The pin follows it when it moves' : 'Pinned to a spot in the scene'}
+          </p>
+        ) : active ? (
+          <div className="space-y-3">
+            {active.annotation.resolved && (
+              <div className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border text-green-400 bg-green-500/10 border-green-500/20">
+                <CheckCircle className="w-3 h-3" />
+                Resolved{active.annotation.resolvedBy ? ` by ${active.annotation.resolvedBy}` : ''}
+              </div>
+            )}
+            {active.annotation.comments.map((comment) => (
+              <div key={comment.id} className="p-2 bg-[#2a2a2a] rounded-lg border border-white/10">
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <span className="text-xs font-medium text-white/90 truncate">{comment.authorName}</span>
+                  <span className="text-xs text-white/40 flex-shrink-0">{formatDate(comment.createdAt)}</span>
+                </div>
+                <p className="text-sm text-white/80 whitespace-pre-wrap break-words">{comment.text}</p>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setAnnotationResolved(active.annotation.id as string, !active.annotation.resolved)}
+                className="flex items-center gap-1 px-3 py-1 bg-[#2a2a2a] hover:bg-white/10 text-white/90 rounded text-sm font-medium border border-white/10 transition-colors"
+              >
+                {active.annotation.resolved ? <RotateCcw className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
+                {active.annotation.resolved ? 'Reopen' : 'Resolve'}
+              </button>
+              {active.annotation.authorId === currentUserId && (
+                <button
+                  onClick={() => {
+                    if (confirm('Delete this comment and all its replies?')) {
+                      deleteAnnotation(active.annotation.id as string);
+                    }
+                  }}
+                  className="p-1.5 hover:bg-red-500/10 rounded transition-colors text-red-400"
+                  title="Delete Comment"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ) : listed.length === 0 ? (
+          <p className="text-sm text-white/50">
+            {inScene.length === 0
+              ? 'No comments in this scene yet. Pin one to a spot that needs feedback'
+              : 'All comments in this scene are resolved'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {listed.map(({ annotation, number }) => (
+              <button
+                key={annotation.id}
+                onClick={() => setActiveAnnotation(annotation.id as string)}
+                className="w-full flex items-start gap-2 p-2 text-left bg-[#2a2a2a] hover:bg-white/10 rounded-lg border border-white/10 transition-colors"
+              >
+                <span className={`flex-shrink-0 w-5 h-5 rounded-full flex items-center justify-center text-xs font-bold text-white ${
+                  annotation.resolved ? 'bg-green-500' : 'bg-amber-500'
+                }`}>
+                  {number}
+                </span>
+                <div className="min-w-0">
+                  <p className="text-sm text-white/90 line-clamp-2">{annotation.comments[0]?.text}</p>
+                  <p className="text-xs text-white/50 mt-0.5">
+                    {annotation.authorName}
+                    {annotation.comments.length > 1 &&
+                      ` · ${annotation.comments.length - 1} ${annotation.comments.length === 2 ? 'reply' : 'replies'}`}
+                  </p>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!isPlacing && !draftAnchor && !active && resolvedCount > 0 && (
+          <button
+            onClick={() => setShowResolved(!showResolved)}
+            className="mt-3 text-xs text-white/50 hover:text-white/80 transition-colors"
+          >
+            {showResolved ? 'Hide' : 'Show'} {resolvedCount} resolved
+          </button>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 mt-3 text-red-400">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span className="text-xs">{error}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Compose */}
+      {(draftAnchor || active) && (
+        <div className="p-3 border-t border-white/10">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && text.trim()) {
+                handlePost();
+              }
+            }}
+            rows={3}
+            autoFocus={!!draftAnchor}
+            className="w-full py-2 px-3 bg-[#2a2a2a] border border-white/10 rounded-lg text-sm text-white/90 placeholder-white/50 focus:outline-none focus:border-blue-500/50 resize-none"
+            placeholder={draftAnchor ? 'What should change here?' : 'Reply'}
+          />
+          <div className="flex items-center justify-end gap-2 mt-2">
+            {draftAnchor && (
+              <button
+                onClick={() => setDraftAnchor(null)}
+                className="px-3 py-1 hover:bg-white/10 text-white/70 rounded text-sm font-medium transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={handlePost}
+              disabled={posting || !text.trim()}
+              className="flex items-center gap-1 px-3 py-1 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded text-sm font-medium transition-colors"
+            >
+              <Send className="w-4 h-4" />
+              {posting ? 'Posting...' : draftAnchor ? 'Pin Comment' : 'Reply'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnnotationPanel;
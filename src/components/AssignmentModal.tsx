@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from 'react';
+import {
+  X,
+  ClipboardList,
+  Send,
+  FolderOpen,
+  RotateCcw,
+  CheckCircle,
+  Clock,
+  AlertCircle,
+  Award,
+  FileSpreadsheet
+} from 'lucide-react';
+import { useClassroomStore, isSubmissionLate, getStudentsWithoutCopy, Project } from '../store/classroomStore';
+import RubricEditor from './RubricEditor';
+import { buildGradebookCsv } from '../utils/gradebook';
+import { downloadFile } from '../utils/download';
+
+interface AssignmentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project: Project;
+  // The students' copies of this project
+  submissions: Project[];
+  // Opens a copy in the studio, next to the grading panel
+  onOpenSubmission: (projectId: string) => void;
+}
+
+const formatDate = (date: Date | string) => {
+  return new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+};
+
+// Helper function to show a date in a datetime-local input, which works in local time
+const toInputValue = (date: Date | string | null | undefined) => {
+  if (!date) return '';
+  const value = new Date(date);
+  return new Date(value.getTime() - value.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const AssignmentModal: React.FC<AssignmentModalProps> = ({
+  isOpen,
+  onClose,
+  project,
+  submissions,
+  onOpenSubmission
+}) => {
+  const { publishAssignment, reopenSubmission, updateRubric } = useClassroomStore();
+  const [dueAt, setDueAt] = useState('');
+  const [publishing, setPublishing] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDueAt(toInputValue(project.assignment?.dueAt));
+    }
+  }, [isOpen, project.assignment?.dueAt]);
+
+  const waitingStudents = getStudentsWithoutCopy(project, submissions);
+  const submittedCount = submissions.filter(copy => copy.submission?.status === 'submitted').length;
+  const gradedCount = submissions.filter(copy => copy.grade).length;
+
+  const sortedSubmissions = [...submissions].sort((a, b) =>
+    (a.submission?.studentName || a.submission?.studentEmail || '')
+      .localeCompare(b.submission?.studentName || b.submission?.studentEmail || '')
+  );
+
+  const handlePublish = async () => {
+    setPublishing(true);
+    const created = await publishAssignment(project.id, dueAt ? new Date(dueAt) : null);
+    setPublishing(false);
+
+    setMessage(created === null
+      ? { type: 'error', text: 'Failed to publish assignment' }
+      : { type: 'success', text: created > 0
+          ? `Handed out ${created} ${created === 1 ? 'copy' : 'copies'}`
+          : 'Due date updated' });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const exportGradebook = () => {
+    const csv = buildGradebookCsv(project.rubric ?? [], submissions, waitingStudents);
+    const fileName = project.name.replace(/[^a-z0-9-_ ]/gi, '').trim().replace(/\s+/g, '-') || 'assignment';
+    downloadFile(csv, `${fileName}-gradebook.csv`, 'text/csv');
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-[#1a1a1a] rounded-xl shadow-2xl border border-white/10 w-full max-w-3xl max-h-[90vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-purple-500/20 rounded-lg">
+              <ClipboardList className="w-6 h-6 text-purple-400" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white/90">Assignment</h2>
+              <p className="text-sm text-white/60">{project.name}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors text-white/70"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto" style={{ maxHeight: 'calc(90vh - 140px)' }}>
+          {/* Message */}
+          {message && (
+            <div className={`flex items-center gap-2 p-3 rounded-lg mb-6 ${
+              message.type === 'success'
+                ? 'bg-green-500/10 border border-green-500/20 text-green-400'
+                : 'bg-red-500/10 border border-red-500/20 text-red-400'
+            }`}>
+              {message.type === 'success' ? (
+                <CheckCircle className="w-4 h-4 flex-shrink-0" />
+              ) : (
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              )}
+              <span className="text-sm">{message.text}</span>
+            </div>
+          )}
+
+          {/* Publish */}
+          <div className="bg-[#2a2a2a] rounded-xl border border-white/10 p-6 mb-6">
+            <h3 className="text-lg font-medium text-white/90 mb-1">
+              {project.assignment ? 'Published' : 'Hand Out'}
+            </h3>
+            <p className="text-sm text-white/60 mb-4">
+              {project.assignment
+                ? `Published ${formatDate(project.assignment.publishedAt)}. Publishing again hands out copies to students added since`
+                : 'Every student on the roster gets their own copy of this project to work in and submit'}
+            </p>
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-white/70 mb-2">
+                  Due Date
+                </label>
+                <input
+                  type="datetime-local"
+                  value={dueAt}
+                  onChange={(e) => setDueAt(e.target.value)}
+                  className="w-full py-2 px-3 bg-[#1a1a1a] border border-white/10 rounded-lg text-white/90 focus:outline-none focus:border-blue-500/50"
+                />
+              </div>
+              <button
+                onClick={handlePublish}
+                disabled={publishing || (!project.assignment && waitingStudents.length === 0)}
+                className="flex items-center gap-2 px-4 py-2 bg-purple-500 hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+              >
+                <Send className="w-4 h-4" />
+                {publishing
+                  ? 'Publishing...'
+                  : waitingStudents.length > 0
+                    ? `Publish to ${waitingStudents.length} ${waitingStudents.length === 1 ? 'Student' : 'Students'}`
+                    : 'Update Due Date'}
+              </button>
+            </div>
+            {!project.assignment && waitingStudents.length === 0 && (
+              <p className="text-xs text-white/50 mt-2">Add students to the roster before publishing</p>
+            )}
+          </div>
+
+          <RubricEditor
+            rubric={project.rubric ?? []}
+            onSave={(rubric) => updateRubric(project.id, rubric)}
+          />
+
+          {/* Submissions */}
+          <div className="bg-[#2a2a2a] rounded-xl border border-white/10 overflow-hidden">
+            <div className="p-4 border-b border-white/10 flex items-center justify-between">
+              <h3 className="text-lg font-medium text-white/90">
+                Submissions ({submittedCount}/{submissions.length})
+                {gradedCount > 0 && (
+                  <span className="ml-2 text-sm font-normal text-white/50">{gradedCount} graded</span>
+                )}
+              </h3>
+              <button
+                onClick={exportGradebook}
+                disabled={submissions.length === 0}
+                className="flex items-center gap-2 px-3 py-1 bg-[#1a1a1a] hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed text-white/90 rounded text-sm font-medium border border-white/10 transition-colors"
+                title="Download every student's scores as a CSV gradebook"
+              >
+                <FileSpreadsheet className="w-4 h-4" />
+                Export CSV
+              </button>
+            </div>
+
+            {sortedSubmissions.length === 0 ? (
+              <div className="p-8 text-center">
+                <ClipboardList className="w-12 h-12 text-white/30 mx-auto mb-3" />
+                <p className="text-white/50">No copies handed out yet</p>
+              </div>
+            ) : (
+              <div className="divide-y divide-white/5">
+                {sortedSubmissions.map((copy) => {
+                  const submission = copy.submission;
+                  if (!submission) return null;
+                  const submitted = submission.status === 'submitted';
+                  const late = isSubmissionLate(submission);
+
+                  return (
+                    <div key={copy.id} className="p-4 flex items-center justify-between hover:bg-white/5 transition-colors">
+                      <div className="min-w-0">
+                        <div className="font-medium text-white/90 truncate">
+                          {submission.studentName || submission.studentEmail.split('@')[0]}
+                        </div>
+                        <div className="text-sm text-white/60 truncate">{submission.studentEmail}</div>
+                        <div className="flex items-center gap-2 mt-1">
+                          <div className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border ${
+                            submitted
+                              ? 'text-green-400 bg-green-500/10 border-green-500/20'
+                              : 'text-gray-400 bg-gray-500/10 border-gray-500/20'
+                          }`}>
+                            {submitted ? <CheckCircle className="w-3 h-3" /> : <Clock className="w-3 h-3" />}
+                            {submitted ? `Submitted ${formatDate(submission.submittedAt as Date)}` : 'Not submitted'}
+                          </div>
+                          {late && (
+                            <div className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border text-red-400 bg-red-500/10 border-red-500/20">
+                              <AlertCircle className="w-3 h-3" />
+                              {submitted ? 'Late' : 'Overdue'}
+                            </div>
+                          )}
+                          {copy.grade && (
+                            <div className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border text-blue-400 bg-blue-500/10 border-blue-500/20">
+                              <Award className="w-3 h-3" />
+                              {copy.grade.total}/{copy.grade.maxTotal}
+                            </div>
+                          )}
+                          {submission.dueAt && (
+                            <div className="text-xs text-white/50">Due {formatDate(submission.dueAt)}</div>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-2">
+                        {submitted && (
+                          <button
+                            onClick={() => reopenSubmission(copy.id)}
+                            className="p-2 hover:bg-white/10 rounded-lg transition-colors text-white/70"
+                            title="Reopen for Changes"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => onOpenSubmission(copy.id)}
+                          className="flex items-center gap-1 px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded text-sm font-medium transition-colors"
+                        >
+                          {submitted ? <Award className="w-4 h-4" /> : <FolderOpen className="w-4 h-4" />}
+                          {submitted ? 'Grade' : 'Open'}
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AssignmentModal;
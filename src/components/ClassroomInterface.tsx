@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   GraduationCap,
   Plus,
@@ -34,19 +34,26 @@ import {
   Archive,
   Star,
   StarOff,
-  LogOut
+  LogOut,
+  KeyRound,
+  ClipboardList,
+  Send,
+  Award
 } from 'lucide-react';
-import { useClassroomStore } from '../store/classroomStore';
+import { useClassroomStore, canShareProject, getProjectRole, isSubmissionLate } from '../store/classroomStore';
 import { auth } from '../config/firebase';
 import CreateProjectModal from './CreateProjectModal';
 import ProjectSettingsModal from './ProjectSettingsModal';
 import StudentManagementModal from './StudentManagementModal';
 import ShareProjectModal from './ShareProjectModal';
+import JoinClassModal from './JoinClassModal';
+import AssignmentModal from './AssignmentModal';
 import UserProfile from './UserProfile';
 
 interface ClassroomInterfaceProps {
   user: any;
   onProjectSelect: (projectId: string) => void;
+  onJoinClass: (classCode: string) => Promise<void>;
   onClose: () => void;
   onSignOut: () => void;
 }
@@ -54,6 +61,7 @@ interface ClassroomInterfaceProps {
 const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({ 
   user, 
   onProjectSelect, 
+  onJoinClass,
   onClose,
   onSignOut
 }) => {
@@ -83,19 +91,23 @@ const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({
     removeStudentFromProject,
     updateStudentRole,
     exportProject,
-    importProject
+    importProject,
+    submitAssignment
   } = useClassroomStore();
 
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
   const [showStudentModal, setShowStudentModal] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
-  const [selectedProject, setSelectedProject] = useState<any>(null);
+  const [showJoinModal, setShowJoinModal] = useState(false);
+  const [showAssignmentModal, setShowAssignmentModal] = useState(false);
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
   const [showProjectMenu, setShowProjectMenu] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (user) {
-      loadProjects(user.uid);
+      loadProjects(user);
     }
   }, [user, loadProjects]);
 
@@ -114,8 +126,33 @@ const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({
     }
   };
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let bundleData: unknown;
+    try {
+      bundleData = JSON.parse(await file.text());
+    } catch {
+      useClassroomStore.setState({ error: `"${file.name}" is not a valid project file` });
+      return;
+    }
+
+    await importProject(bundleData, user.uid, user.displayName || user.email);
+  };
+
+  // Projects the user is enrolled in can be opened and, when allowed, shared; the rest is up to their teacher
+  const isOwnProject = (project: { teacherId: string }) => project.teacherId === user.uid;
+
+  // Looked up on every render so the modals show changes as they are saved
+  const selectedProject = projects.find(project => project.id === selectedProjectId) ?? null;
+
+  // The students' copies of an assignment
+  const getSubmissions = (projectId: string) => projects.filter(project => project.submission?.assignmentId === projectId);
+
   const handleProjectAction = (action: string, project: any) => {
-    setSelectedProject(project);
+    setSelectedProjectId(project.id);
     setShowProjectMenu(null);
 
     switch (action) {
@@ -128,12 +165,25 @@ const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({
       case 'students':
         setShowStudentModal(true);
         break;
+      case 'assignment':
+        setShowAssignmentModal(true);
+        break;
+      case 'submit':
+        if (confirm(`Submit "${project.name}"? You won't be able to change it unless your teacher reopens it.`)) {
+          submitAssignment(project.id);
+        }
+        break;
       case 'share':
-        setShowShareModal(true);
+        if (canShareProject(project, user)) {
+          setShowShareModal(true);
+        }
         break;
       case 'duplicate':
         duplicateProject(project.id);
         break;
+      case 'export':
+        exportProject(project.id);
+        break;
       case 'archive':
         archiveProject(project.id);
         break;
@@ -149,6 +199,9 @@ const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({
   };
 
   const filteredProjects = projects.filter(project => {
+    // A teacher finds the students' copies under the assignment they were made from
+    if (project.submission && isOwnProject(project)) return false;
+
     const matchesSearch = project.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          project.description?.toLowerCase().includes(searchTerm.toLowerCase());
     
@@ -221,6 +274,29 @@ const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({
           </div>
         </div>
         <div className="flex items-center gap-3">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+          <button
+            onClick={() => setShowJoinModal(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-[#2a2a2a] hover:bg-[#3a3a3a] text-white/90 rounded-lg font-medium transition-colors border border-white/10"
+            title="Join a class with a class code"
+          >
+            <KeyRound className="w-4 h-4" />
+            Join a Class
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex items-center gap-2 px-4 py-2 bg-[#2a2a2a] hover:bg-[#3a3a3a] text-white/90 rounded-lg font-medium transition-colors border border-white/10"
+            title="Import a project bundle (.json)"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </button>
           <button
             onClick={() => setShowCreateModal(true)}
             className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors"
@@ -373,16 +449,18 @@ const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({
                       </p>
                     </div>
                     <div className="flex items-center gap-1 ml-2">
-                      <button
-                        onClick={() => handleProjectAction('favorite', project)}
-                        className="p-1 hover:bg-white/10 rounded transition-colors"
-                      >
-                        {project.isFavorite ? (
-                          <Star className="w-4 h-4 text-yellow-400 fill-current" />
-                        ) : (
-                          <StarOff className="w-4 h-4 text-white/50" />
-                        )}
-                      </button>
+                      {isOwnProject(project) && (
+                        <button
+                          onClick={() => handleProjectAction('favorite', project)}
+                          className="p-1 hover:bg-white/10 rounded transition-colors"
+                        >
+                          {project.isFavorite ? (
+                            <Star className="w-4 h-4 text-yellow-400 fill-current" />
+                          ) : (
+                            <StarOff className="w-4 h-4 text-white/50" />
+                          )}
+                        </button>
+                      )}
                       <div className="relative">
                         <button
                           onClick={() => setShowProjectMenu(showProjectMenu === project.id ? null : project.id)}
@@ -399,49 +477,73 @@ const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({
                               <FolderOpen className="w-4 h-4" />
                               Open Project
                             </button>
-                            <button
-                              onClick={() => handleProjectAction('edit', project)}
-                              className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
-                            >
-                              <Edit3 className="w-4 h-4" />
-                              Edit Settings
-                            </button>
-                            <button
-                              onClick={() => handleProjectAction('students', project)}
-                              className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
-                            >
-                              <Users className="w-4 h-4" />
-                              Manage Students
-                            </button>
-                            <button
-                              onClick={() => handleProjectAction('share', project)}
-                              className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
-                            >
-                              <Share2 className="w-4 h-4" />
-                              Share Project
-                            </button>
-                            <div className="border-t border-white/10 my-1"></div>
-                            <button
-                              onClick={() => handleProjectAction('duplicate', project)}
-                              className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
-                            >
-                              <Copy className="w-4 h-4" />
-                              Duplicate
-                            </button>
-                            <button
-                              onClick={() => handleProjectAction('archive', project)}
-                              className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
-                            >
-                              <Archive className="w-4 h-4" />
-                              {project.status === 'archived' ? 'Unarchive' : 'Archive'}
-                            </button>
-                            <button
-                              onClick={() => handleProjectAction('delete', project)}
-                              className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-red-500/10 flex items-center gap-2"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                              Delete
-                            </button>
+                            {isOwnProject(project) && (
+                              <>
+                                <button
+                                  onClick={() => handleProjectAction('edit', project)}
+                                  className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                                >
+                                  <Edit3 className="w-4 h-4" />
+                                  Edit Settings
+                                </button>
+                                <button
+                                  onClick={() => handleProjectAction('students', project)}
+                                  className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                                >
+                                  <Users className="w-4 h-4" />
+                                  Manage Students
+                                </button>
+                                <button
+                                  onClick={() => handleProjectAction('assignment', project)}
+                                  className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                                >
+                                  <ClipboardList className="w-4 h-4" />
+                                  {project.assignment ? 'Submissions' : 'Publish as Assignment'}
+                                </button>
+                              </>
+                            )}
+                            {canShareProject(project, user) && (
+                              <button
+                                onClick={() => handleProjectAction('share', project)}
+                                className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                              >
+                                <Share2 className="w-4 h-4" />
+                                Share Project
+                              </button>
+                            )}
+                            {isOwnProject(project) && (
+                              <>
+                                <div className="border-t border-white/10 my-1"></div>
+                                <button
+                                  onClick={() => handleProjectAction('duplicate', project)}
+                                  className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                                >
+                                  <Copy className="w-4 h-4" />
+                                  Duplicate
+                                </button>
+                                <button
+                                  onClick={() => handleProjectAction('export', project)}
+                                  className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                                >
+                                  <Download className="w-4 h-4" />
+                                  Export Bundle
+                                </button>
+                                <button
+                                  onClick={() => handleProjectAction('archive', project)}
+                                  className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                                >
+                                  <Archive className="w-4 h-4" />
+                                  {project.status === 'archived' ? 'Unarchive' : 'Archive'}
+                                </button>
+                                <button
+                                  onClick={() => handleProjectAction('delete', project)}
+                                  className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-red-500/10 flex items-center gap-2"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                  Delete
+                                </button>
+                              </>
+                            )}
                           </div>
                         )}
                       </div>
@@ -455,6 +557,65 @@ const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({
                     {project.status === 'draft' && <Clock className="w-3 h-3" />}
                     {project.status.charAt(0).toUpperCase() + project.status.slice(1)}
                   </div>
+                  {isOwnProject(project) && !!project.joinRequests?.length && (
+                    <button
+                      onClick={() => handleProjectAction('students', project)}
+                      className="inline-flex items-center gap-1 ml-2 px-2 py-1 rounded-full text-xs font-medium border text-amber-400 bg-amber-500/10 border-amber-500/20 hover:bg-amber-500/20 transition-colors"
+                    >
+                      <UserPlus className="w-3 h-3" />
+                      {project.joinRequests.length} waiting
+                    </button>
+                  )}
+                  {!isOwnProject(project) && (
+                    <div className="inline-flex items-center gap-1 ml-2 px-2 py-1 rounded-full text-xs font-medium border text-purple-400 bg-purple-500/10 border-purple-500/20">
+                      <GraduationCap className="w-3 h-3" />
+                      {getProjectRole(project, user) === 'assistant' ? 'Assistant' : 'Student'} · {project.teacherName}
+                    </div>
+                  )}
+                  {isOwnProject(project) && project.assignment && (
+                    <button
+                      onClick={() => handleProjectAction('assignment', project)}
+                      className="inline-flex items-center gap-1 ml-2 px-2 py-1 rounded-full text-xs font-medium border text-purple-400 bg-purple-500/10 border-purple-500/20 hover:bg-purple-500/20 transition-colors"
+                    >
+                      <ClipboardList className="w-3 h-3" />
+                      {getSubmissions(project.id).filter(copy => copy.submission?.status === 'submitted').length}/{getSubmissions(project.id).length} submitted
+                    </button>
+                  )}
+                  {project.submission && (
+                    <div className="flex flex-wrap items-center gap-2 mt-2">
+                      <div className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium border ${
+                        project.submission.status === 'submitted'
+                          ? 'text-green-400 bg-green-500/10 border-green-500/20'
+                          : 'text-gray-400 bg-gray-500/10 border-gray-500/20'
+                      }`}>
+                        {project.submission.status === 'submitted' ? <CheckCircle className="w-3 h-3" /> : <Clock className="w-3 h-3" />}
+                        {project.submission.status === 'submitted' ? 'Submitted' : 'Not submitted'}
+                      </div>
+                      {isSubmissionLate(project.submission) && (
+                        <div className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium border text-red-400 bg-red-500/10 border-red-500/20">
+                          <AlertCircle className="w-3 h-3" />
+                          {project.submission.status === 'submitted' ? 'Late' : 'Overdue'}
+                        </div>
+                      )}
+                      {project.grade && (
+                        <div className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium border text-blue-400 bg-blue-500/10 border-blue-500/20">
+                          <Award className="w-3 h-3" />
+                          {project.grade.total}/{project.grade.maxTotal}
+                        </div>
+                      )}
+                      {project.submission.dueAt && (
+                        <div className="text-xs text-white/50 flex items-center gap-1">
+                          <Calendar className="w-3 h-3" />
+                          Due {formatDate(project.submission.dueAt)}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {project.grade?.feedback && (
+                    <p className="text-xs text-white/60 mt-2 line-clamp-2" title={project.grade.feedback}>
+                      {project.grade.feedback}
+                    </p>
+                  )}
                 </div>
 
                 {/* Project Stats */}
@@ -478,12 +639,23 @@ const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({
                     Updated {formatDate(project.updatedAt)}
                   </div>
 
-                  <button
-                    onClick={() => handleProjectAction('open', project)}
-                    className="w-full py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors"
-                  >
-                    Open Project
-                  </button>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleProjectAction('open', project)}
+                      className="flex-1 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors"
+                    >
+                      Open Project
+                    </button>
+                    {!isOwnProject(project) && project.submission?.status === 'assigned' && (
+                      <button
+                        onClick={() => handleProjectAction('submit', project)}
+                        className="flex items-center gap-2 px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg font-medium transition-colors"
+                      >
+                        <Send className="w-4 h-4" />
+                        Submit
+                      </button>
+                    )}
+                  </div>
                 </div>
               </div>
             ))}
@@ -503,16 +675,22 @@ const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({
                 className="grid grid-cols-12 gap-4 p-4 border-b border-white/5 hover:bg-white/5 transition-colors"
               >
                 <div className="col-span-4 flex items-center gap-3">
-                  <button
-                    onClick={() => handleProjectAction('favorite', project)}
-                    className="p-1 hover:bg-white/10 rounded transition-colors"
-                  >
-                    {project.isFavorite ? (
-                      <Star className="w-4 h-4 text-yellow-400 fill-current" />
-                    ) : (
-                      <StarOff className="w-4 h-4 text-white/50" />
-                    )}
-                  </button>
+                  {isOwnProject(project) ? (
+                    <button
+                      onClick={() => handleProjectAction('favorite', project)}
+                      className="p-1 hover:bg-white/10 rounded transition-colors"
+                    >
+                      {project.isFavorite ? (
+                        <Star className="w-4 h-4 text-yellow-400 fill-current" />
+                      ) : (
+                        <StarOff className="w-4 h-4 text-white/50" />
+                      )}
+                    </button>
+                  ) : (
+                    <div className="p-1">
+                      <GraduationCap className="w-4 h-4 text-purple-400" />
+                    </div>
+                  )}
                   <div className="min-w-0 flex-1">
                     <div className="font-medium text-white/90 truncate">
                       {project.name}
@@ -543,61 +721,95 @@ const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({
                   >
                     Open
                   </button>
-                  <div className="relative">
+                  {!isOwnProject(project) && project.submission?.status === 'assigned' && (
                     <button
-                      onClick={() => setShowProjectMenu(showProjectMenu === project.id ? null : project.id)}
-                      className="p-1 hover:bg-white/10 rounded transition-colors"
+                      onClick={() => handleProjectAction('submit', project)}
+                      className="px-3 py-1 bg-purple-500 hover:bg-purple-600 text-white rounded text-sm font-medium transition-colors"
                     >
-                      <MoreVertical className="w-4 h-4 text-white/70" />
+                      Submit
                     </button>
-                    {showProjectMenu === project.id && (
-                      <div className="absolute right-0 top-8 bg-[#1a1a1a] border border-white/10 rounded-lg shadow-lg z-10 min-w-48">
-                        <button
-                          onClick={() => handleProjectAction('edit', project)}
-                          className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
-                        >
-                          <Edit3 className="w-4 h-4" />
-                          Edit Settings
-                        </button>
-                        <button
-                          onClick={() => handleProjectAction('students', project)}
-                          className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
-                        >
-                          <Users className="w-4 h-4" />
-                          Manage Students
-                        </button>
-                        <button
-                          onClick={() => handleProjectAction('share', project)}
-                          className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
-                        >
-                          <Share2 className="w-4 h-4" />
-                          Share Project
-                        </button>
-                        <div className="border-t border-white/10 my-1"></div>
-                        <button
-                          onClick={() => handleProjectAction('duplicate', project)}
-                          className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
-                        >
-                          <Copy className="w-4 h-4" />
-                          Duplicate
-                        </button>
-                        <button
-                          onClick={() => handleProjectAction('archive', project)}
-                          className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
-                        >
-                          <Archive className="w-4 h-4" />
-                          {project.status === 'archived' ? 'Unarchive' : 'Archive'}
-                        </button>
-                        <button
-                          onClick={() => handleProjectAction('delete', project)}
-                          className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-red-500/10 flex items-center gap-2"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                          Delete
-                        </button>
-                      </div>
-                    )}
-                  </div>
+                  )}
+                  {(isOwnProject(project) || canShareProject(project, user)) && (
+                    <div className="relative">
+                      <button
+                        onClick={() => setShowProjectMenu(showProjectMenu === project.id ? null : project.id)}
+                        className="p-1 hover:bg-white/10 rounded transition-colors"
+                      >
+                        <MoreVertical className="w-4 h-4 text-white/70" />
+                      </button>
+                      {showProjectMenu === project.id && (
+                        <div className="absolute right-0 top-8 bg-[#1a1a1a] border border-white/10 rounded-lg shadow-lg z-10 min-w-48">
+                          {isOwnProject(project) && (
+                            <>
+                              <button
+                                onClick={() => handleProjectAction('edit', project)}
+                                className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                              >
+                                <Edit3 className="w-4 h-4" />
+                                Edit Settings
+                              </button>
+                              <button
+                                onClick={() => handleProjectAction('students', project)}
+                                className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                              >
+                                <Users className="w-4 h-4" />
+                                Manage Students
+                              </button>
+                              <button
+                                onClick={() => handleProjectAction('assignment', project)}
+                                className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                              >
+                                <ClipboardList className="w-4 h-4" />
+                                {project.assignment ? 'Submissions' : 'Publish as Assignment'}
+                              </button>
+                            </>
+                          )}
+                          {canShareProject(project, user) && (
+                            <button
+                              onClick={() => handleProjectAction('share', project)}
+                              className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                            >
+                              <Share2 className="w-4 h-4" />
+                              Share Project
+                            </button>
+                          )}
+                          {isOwnProject(project) && (
+                            <>
+                              <div className="border-t border-white/10 my-1"></div>
+                              <button
+                                onClick={() => handleProjectAction('duplicate', project)}
+                                className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                              >
+                                <Copy className="w-4 h-4" />
+                                Duplicate
+                              </button>
+                              <button
+                                onClick={() => handleProjectAction('export', project)}
+                                className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                              >
+                                <Download className="w-4 h-4" />
+                                Export Bundle
+                              </button>
+                              <button
+                                onClick={() => handleProjectAction('archive', project)}
+                                className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                              >
+                                <Archive className="w-4 h-4" />
+                                {project.status === 'archived' ? 'Unarchive' : 'Archive'}
+                              </button>
+                              <button
+                                onClick={() => handleProjectAction('delete', project)}
+                                className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-red-500/10 flex items-center gap-2"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                                Delete
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -612,13 +824,19 @@ const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({
         onSubmit={handleCreateProject}
       />
 
+      <JoinClassModal
+        isOpen={showJoinModal}
+        onClose={() => setShowJoinModal(false)}
+        onJoin={onJoinClass}
+      />
+
       {selectedProject && (
         <>
           <ProjectSettingsModal
             isOpen={showSettingsModal}
             onClose={() => {
               setShowSettingsModal(false);
-              setSelectedProject(null);
+              setSelectedProjectId(null);
             }}
             project={selectedProject}
             onUpdate={(data) => updateProject(selectedProject.id, data)}
@@ -628,7 +846,7 @@ const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({
             isOpen={showStudentModal}
             onClose={() => {
               setShowStudentModal(false);
-              setSelectedProject(null);
+              setSelectedProjectId(null);
             }}
             project={selectedProject}
             onAddStudent={(email, role) => addStudentToProject(selectedProject.id, email, role)}
@@ -640,9 +858,24 @@ const ClassroomInterface: React.FC<ClassroomInterfaceProps> = ({
             isOpen={showShareModal}
             onClose={() => {
               setShowShareModal(false);
-              setSelectedProject(null);
+              setSelectedProjectId(null);
+            }}
+            project={selectedProject}
+          />
+
+          <AssignmentModal
+            isOpen={showAssignmentModal}
+            onClose={() => {
+              setShowAssignmentModal(false);
+              setSelectedProjectId(null);
             }}
             project={selectedProject}
+            submissions={getSubmissions(selectedProject.id)}
+            onOpenSubmission={(projectId) => {
+              setShowAssignmentModal(false);
+              setSelectedProjectId(null);
+              onProjectSelect(projectId);
+            }}
           />
         </>
       )}
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { useSceneStore } from '../store/sceneStore';
+
+// Readable names for the document fields a conflict can involve
+const FIELD_LABELS: Record<string, string> = {
+  position: 'position',
+  rotation: 'rotation',
+  scale: 'scale',
+  type: 'shape',
+  geometryParams: 'shape',
+  customGeometry: 'shape',
+  children: 'parts',
+  color: 'color',
+  opacity: 'opacity',
+  materialParams: 'material',
+  name: 'name',
+  visible: 'visibility',
+  locked: 'lock',
+  groupId: 'group',
+  objectIds: 'members',
+  expanded: 'expanded state',
+  intensity: 'intensity',
+  target: 'target'
+};
+
+// Helper function to describe the conflicting fields without repeating labels
+const describeFields = (fields: string[]) =>
+  Array.from(new Set(fields.map(field => FIELD_LABELS[field] ?? field))).join(', ');
+
+const ConflictIndicator: React.FC = () => {
+  const { editConflicts, dismissConflict, dismissAllConflicts } = useSceneStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (editConflicts.length === 0) return null;
+
+  return (
+    <div className="relative ml-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-amber-500/20 border border-amber-500/30 text-xs text-amber-300 hover:bg-amber-500/30 transition-colors"
+        title="Edits that overlapped with a collaborator's"
+      >
+        <AlertTriangle className="w-3 h-3" />
+        {editConflicts.length} {editConflicts.length === 1 ? 'conflict' : 'conflicts'}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 bg-[#2a2a2a] border border-white/10 rounded-lg shadow-lg z-50 w-72 py-1">
+          <div className="px-3 py-1 text-xs text-white/50">
+            Someone else changed these while you were editing them. Your version was kept.
+          </div>
+          {editConflicts.map(conflict => (
+            <div key={conflict.id} className="flex items-start gap-2 px-3 py-2 hover:bg-white/5">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-white/90 truncate">{conflict.name}</div>
+                <div className="text-xs text-white/50">
+                  {describeFields(conflict.fields)} · {conflict.detectedAt.toLocaleTimeString()}
+                </div>
+              </div>
+              <button
+                onClick={() => dismissConflict(conflict.id)}
+                className="p-1 rounded text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+                title="Dismiss"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <div className="border-t border-white/10 my-1"></div>
+          <button
+            onClick={() => {
+              dismissAllConflicts();
+              setIsOpen(false);
+            }}
+            className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5"
+          >
+            Dismiss all
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConflictIndicator;
@@ -1,81 +1,175 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useSceneStore } from '../store/sceneStore';
 
 const EditControls: React.FC = () => {
-  const { editMode, selectedObject } = useSceneStore();
+  const {
+    editMode,
+    selectedObject,
+    selectedElements,
+    controlPoints,
+    extrudeFace,
+    bevelEdge,
+    createNURBSSurface,
+    createNURBSCurve,
+    clearControlPoints
+  } = useSceneStore();
+  const [extrudeDistance, setExtrudeDistance] = useState(0.5);
+  const [bevelSegments, setBevelSegments] = useState(3);
+  const [bevelWidth, setBevelWidth] = useState(0.1);
+  const [pointsPerRow, setPointsPerRow] = useState(3);
 
-  if (!selectedObject || !editMode) return null;
+  if (!editMode) return null;
+
+  // NURBS tools build new objects, the other tools edit the selected mesh
+  const needsSelection = editMode === 'extrude' || editMode === 'bevel';
+  if (needsSelection && !selectedObject) return null;
+
+  const primaryButton = (enabled: boolean) =>
+    `w-full p-2 rounded-lg font-medium text-sm transition-all duration-200 ${
+      enabled
+        ? 'bg-blue-500 hover:bg-blue-600 text-white'
+        : 'bg-white/10 text-white/30 cursor-not-allowed'
+    }`;
+
+  const renderControlPointActions = (label: string, canCreate: boolean, onCreate: () => void) => (
+    <div className="flex gap-2">
+      <button
+        onClick={onCreate}
+        disabled={!canCreate}
+        className={primaryButton(canCreate)}
+      >
+        {label}
+      </button>
+      <button
+        onClick={clearControlPoints}
+        disabled={controlPoints.length === 0}
+        className="px-3 py-2 rounded-lg text-sm text-white/70 hover:bg-white/10 hover:text-white transition-colors disabled:text-white/30 disabled:hover:bg-transparent"
+      >
+        Clear
+      </button>
+    </div>
+  );
 
   const renderControls = () => {
     switch (editMode) {
       case 'extrude':
         return (
-          <div className="space-y-2">
-            <h3 className="font-medium">Extrude Settings</h3>
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-white/90">Extrude Faces</h3>
+            <p className="text-xs text-white/60">
+              Click a face to select it, Shift+click to add more.
+            </p>
             <div>
-              <label className="block text-sm">Distance</label>
+              <div className="flex justify-between text-xs text-white/70 mb-1">
+                <label>Distance</label>
+                <span>{extrudeDistance.toFixed(2)}</span>
+              </div>
               <input
                 type="range"
-                min="0"
+                min="-1"
                 max="2"
-                step="0.1"
+                step="0.05"
+                value={extrudeDistance}
+                onChange={(e) => setExtrudeDistance(parseFloat(e.target.value))}
                 className="w-full"
-                onChange={(e) => useSceneStore.getState().extrudeFace(parseFloat(e.target.value))}
               />
             </div>
+            <button
+              onClick={() => extrudeFace(extrudeDistance)}
+              disabled={selectedElements.faces.length === 0 || extrudeDistance === 0}
+              className={primaryButton(selectedElements.faces.length > 0 && extrudeDistance !== 0)}
+            >
+              Extrude {selectedElements.faces.length > 0 ? `(${selectedElements.faces.length} triangles)` : ''}
+            </button>
           </div>
         );
       case 'bevel':
         return (
-          <div className="space-y-2">
-            <h3 className="font-medium">Bevel Settings</h3>
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-white/90">Bevel Edge</h3>
+            <p className="text-xs text-white/60">
+              Click near an edge between two faces to select it.
+            </p>
             <div>
-              <label className="block text-sm">Segments</label>
+              <div className="flex justify-between text-xs text-white/70 mb-1">
+                <label>Segments</label>
+                <span>{bevelSegments}</span>
+              </div>
               <input
                 type="range"
                 min="1"
-                max="5"
+                max="8"
                 step="1"
+                value={bevelSegments}
+                onChange={(e) => setBevelSegments(parseInt(e.target.value))}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <div className="flex justify-between text-xs text-white/70 mb-1">
+                <label>Width</label>
+                <span>{bevelWidth.toFixed(2)}</span>
+              </div>
+              <input
+                type="range"
+                min="0.02"
+                max="0.5"
+                step="0.01"
+                value={bevelWidth}
+                onChange={(e) => setBevelWidth(parseFloat(e.target.value))}
                 className="w-full"
-                onChange={(e) => useSceneStore.getState().bevelEdge(parseInt(e.target.value), 0.1)}
               />
             </div>
-          </div>
-        );
-      case 'nurbs':
-        return (
-          <div className="space-y-2">
-            <h3 className="font-medium">NURBS Surface</h3>
-            <button
-              onClick={() => useSceneStore.getState().createNURBSSurface()}
-              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
-            >
-              Create Surface
-            </button>
             <button
-              onClick={() => useSceneStore.getState().clearControlPoints()}
-              className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 ml-2"
+              onClick={() => bevelEdge(bevelSegments, bevelWidth)}
+              disabled={selectedElements.edges.length !== 2}
+              className={primaryButton(selectedElements.edges.length === 2)}
             >
-              Clear Points
+              Bevel
             </button>
           </div>
         );
+      case 'nurbs': {
+        const rows = Math.floor(controlPoints.length / pointsPerRow);
+        return (
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-white/90">NURBS Surface</h3>
+            <p className="text-xs text-white/60">
+              Click in the scene to place control points row by row.
+            </p>
+            <div>
+              <div className="flex justify-between text-xs text-white/70 mb-1">
+                <label>Points per row</label>
+                <span>{pointsPerRow}</span>
+              </div>
+              <input
+                type="range"
+                min="2"
+                max="6"
+                step="1"
+                value={pointsPerRow}
+                onChange={(e) => setPointsPerRow(parseInt(e.target.value))}
+                className="w-full"
+              />
+            </div>
+            <div className="text-xs text-white/50">
+              {controlPoints.length} points · {rows} complete {rows === 1 ? 'row' : 'rows'} (need 2)
+            </div>
+            {renderControlPointActions('Create Surface', rows >= 2, () => createNURBSSurface(pointsPerRow))}
+          </div>
+        );
+      }
       case 'curve':
         return (
-          <div className="space-y-2">
-            <h3 className="font-medium">NURBS Curve</h3>
-            <button
-              onClick={() => useSceneStore.getState().createNURBSCurve()}
-              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600"
-            >
-              Create Curve
-            </button>
-            <button
-              onClick={() => useSceneStore.getState().clearControlPoints()}
-              className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 ml-2"
-            >
-              Clear Points
-            </button>
+          <div className="space-y-3">
+            <h3 className="text-sm font-medium text-white/90">NURBS Curve</h3>
+            <p className="text-xs text-white/60">
+              Click in the scene to place control points along the curve.
+            </p>
+            <div className="text-xs text-white/50">
+              {controlPoints.length} points (need 2)
+            </div>
+            {renderControlPointActions('Create Curve', controlPoints.length >= 2, createNURBSCurve)}
           </div>
         );
       default:
@@ -83,11 +177,14 @@ const EditControls: React.FC = () => {
     }
   };
 
+  const controls = renderControls();
+  if (!controls) return null;
+
   return (
-    <div className="absolute bottom-4 right-4 bg-white rounded-lg shadow-lg p-4">
-      {renderControls()}
+    <div className="absolute bottom-4 right-4 w-64 bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 p-4 border border-white/5 z-10">
+      {controls}
     </div>
   );
 };
 
-export default EditControls;
\ No newline at end of file
+export default EditControls;
@@ -0,0 +1,328 @@
+import React, { useEffect, useState } from 'react';
+import {
+  KeyRound,
+  Link,
+  Copy,
+  RefreshCw,
+  Ban,
+  Plus,
+  UserCheck,
+  UserX,
+  Clock
+} from 'lucide-react';
+import {
+  useClassroomStore,
+  isInviteActive,
+  getTokensOfKind,
+  getClassCode,
+  JoinInvite,
+  Project
+} from '../store/classroomStore';
+import { buildInviteLink, buildViewLink, buildClassCodeLink } from '../utils/joinLinks';
+
+interface EnrollmentPanelProps {
+  project: Project;
+  onMessage: (message: { type: 'success' | 'error'; text: string }) => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'Never', days: null }
+];
+
+const formatDate = (date: Date | string) => {
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+const getTokenStatus = (token: JoinInvite) => {
+  if (token.revoked) {
+    return { label: 'Revoked', className: 'text-red-400 bg-red-500/10 border-red-500/20' };
+  }
+  if (!isInviteActive(token)) {
+    return { label: 'Expired', className: 'text-gray-400 bg-gray-500/10 border-gray-500/20' };
+  }
+  return {
+    label: token.expiresAt ? `Until ${formatDate(token.expiresAt)}` : 'No expiry',
+    className: 'text-green-400 bg-green-500/10 border-green-500/20'
+  };
+};
+
+interface TokenLinkListProps {
+  title: string;
+  hint: string;
+  tokens: JoinInvite[];
+  buildLink: (token: string) => string;
+  onCreate: (expiresInDays: number | null) => Promise<JoinInvite | null>;
+  onRevoke: (token: string) => void;
+  onCopy: (text: string, label: string) => void;
+}
+
+// Invite and view links: create one with an expiry, copy it, or revoke it
+const TokenLinkList: React.FC<TokenLinkListProps> = ({ title, hint, tokens, buildLink, onCreate, onRevoke, onCopy }) => {
+  const [expiryIndex, setExpiryIndex] = useState(1);
+
+  const handleCreate = async () => {
+    const created = await onCreate(EXPIRY_OPTIONS[expiryIndex].days);
+    if (created) {
+      onCopy(buildLink(created.token), `New ${title.toLowerCase().replace(/s$/, '')}`);
+    }
+  };
+
+  // Working links first, newest first within each group
+  const sortedTokens = [...tokens].sort((a, b) =>
+    Number(isInviteActive(b)) - Number(isInviteActive(a)) ||
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+
+  return (
+    <div className="pt-6 border-t border-white/10">
+      <div className="flex items-center justify-between mb-1">
+        <h4 className="text-sm font-medium text-white/90">{title}</h4>
+        <div className="flex items-center gap-2">
+          <select
+            value={expiryIndex}
+            onChange={(e) => setExpiryIndex(Number(e.target.value))}
+            className="py-1 px-2 bg-[#1a1a1a] border border-white/10 rounded text-sm text-white/90 focus:outline-none focus:border-blue-500/50"
+            title="Link expiry"
+          >
+            {EXPIRY_OPTIONS.map((option, index) => (
+              <option key={option.label} value={index}>
+                {option.days ? `Expires in ${option.label}` : 'Never expires'}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleCreate}
+            className="flex items-center gap-1 px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded text-sm font-medium transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New Link
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-white/50 mb-3">{hint}</p>
+
+      {sortedTokens.length === 0 ? (
+        <p className="text-sm text-white/50">No links yet</p>
+      ) : (
+        <div className="space-y-2">
+          {sortedTokens.map((entry) => {
+            const status = getTokenStatus(entry);
+            const active = isInviteActive(entry);
+            return (
+              <div key={entry.token} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={buildLink(entry.token)}
+                  readOnly
+                  className={`flex-1 py-1.5 px-3 bg-[#1a1a1a] border border-white/10 rounded-lg text-sm ${
+                    active ? 'text-white/90' : 'text-white/40 line-through'
+                  }`}
+                />
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium border whitespace-nowrap ${status.className}`}>
+                  {status.label}
+                </span>
+                {active && (
+                  <>
+                    <button
+                      onClick={() => onCopy(buildLink(entry.token), 'Link')}
+                      className="p-1.5 hover:bg-white/10 rounded transition-colors text-white/70"
+                      title="Copy Link"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => onRevoke(entry.token)}
+                      className="p-1.5 hover:bg-red-500/10 rounded transition-colors text-red-400"
+                      title="Revoke Link"
+                    >
+                      <Ban className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const EnrollmentPanel: React.FC<EnrollmentPanelProps> = ({ project, onMessage }) => {
+  const {
+    accessTokens,
+    loadAccessTokens,
+    setClassCode,
+    createJoinInvite,
+    revokeJoinInvite,
+    approveJoinRequest,
+    declineJoinRequest,
+    createViewToken,
+    revokeViewToken,
+    updateProject
+  } = useClassroomStore();
+
+  useEffect(() => {
+    loadAccessTokens(project.id);
+  }, [project.id, loadAccessTokens]);
+
+  const tokens = accessTokens[project.id];
+  const classCode = getClassCode(tokens);
+  const requests = project.joinRequests ?? [];
+  const requireApproval = !!project.settings?.requireJoinApproval;
+
+  const copy = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      onMessage({ type: 'success', text: `${label} copied to clipboard!` });
+    } catch {
+      onMessage({ type: 'error', text: 'Failed to copy to clipboard' });
+    }
+  };
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-xl border border-white/10 p-6 mb-6 space-y-6">
+      <h3 className="text-lg font-medium text-white/90 flex items-center gap-2">
+        <KeyRound className="w-5 h-5 text-purple-400" />
+        Enrollment &amp; Sharing
+      </h3>
+
+      {/* Class Code */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-sm font-medium text-white/90">Class Code</h4>
+          {classCode && (
+            <button
+              onClick={() => setClassCode(project.id, false)}
+              className="text-sm text-red-400 hover:text-red-300 transition-colors"
+            >
+              Turn Off
+            </button>
+          )}
+        </div>
+        {classCode ? (
+          <div className="flex items-center gap-2">
+            <div className="flex-1 py-2 px-3 bg-[#1a1a1a] border border-white/10 rounded-lg text-white/90 font-mono text-2xl tracking-[0.3em] text-center">
+              {classCode}
+            </div>
+            <button
+              onClick={() => copy(classCode, 'Class code')}
+              className="p-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors"
+              title="Copy Code"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => copy(buildClassCodeLink(classCode), 'Class code link')}
+              className="p-2 bg-[#1a1a1a] hover:bg-white/10 text-white/90 rounded-lg border border-white/10 transition-colors"
+              title="Copy Link"
+            >
+              <Link className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setClassCode(project.id, true)}
+              className="p-2 bg-[#1a1a1a] hover:bg-white/10 text-white/90 rounded-lg border border-white/10 transition-colors"
+              title="New Code"
+            >
+              <RefreshCw className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setClassCode(project.id, true)}
+            className="flex items-center gap-2 px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg font-medium transition-colors"
+          >
+            <KeyRound className="w-4 h-4" />
+            Create Class Code
+          </button>
+        )}
+        <p className="text-xs text-white/50 mt-2">
+          Students enter the code under "Join a Class". A new code stops the old one from working
+        </p>
+      </div>
+
+      <TokenLinkList
+        title="Invite Links"
+        hint="Anyone signed in can use a working link to join this project"
+        tokens={getTokensOfKind(tokens, 'join')}
+        buildLink={(token) => buildInviteLink(project.id, token)}
+        onCreate={(days) => createJoinInvite(project.id, days)}
+        onRevoke={(token) => revokeJoinInvite(project.id, token)}
+        onCopy={copy}
+      />
+
+      <TokenLinkList
+        title="View Links"
+        hint="Opens the project read-only, without signing in - for parents or other classes"
+        tokens={getTokensOfKind(tokens, 'view')}
+        buildLink={(token) => buildViewLink(project.id, token)}
+        onCreate={(days) => createViewToken(project.id, days)}
+        onRevoke={(token) => revokeViewToken(project.id, token)}
+        onCopy={copy}
+      />
+
+      {/* Approval Queue */}
+      <div className="pt-6 border-t border-white/10">
+        <label className="flex items-center justify-between cursor-pointer">
+          <div>
+            <div className="text-sm font-medium text-white/90">Approve New Students</div>
+            <div className="text-xs text-white/50">
+              Students who join with a link or code wait until you let them in
+            </div>
+          </div>
+          <input
+            type="checkbox"
+            checked={requireApproval}
+            onChange={(e) => updateProject(project.id, {
+              settings: { ...project.settings, requireJoinApproval: e.target.checked }
+            })}
+            className="w-4 h-4 accent-blue-500"
+          />
+        </label>
+
+        {requests.length > 0 && (
+          <div className="mt-4 divide-y divide-white/5 bg-[#1a1a1a] rounded-lg border border-white/10">
+            {requests.map((request) => (
+              <div key={request.id} className="flex items-center justify-between p-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-white/90 truncate">
+                    {request.name || request.email.split('@')[0]}
+                  </div>
+                  <div className="text-xs text-white/50 flex items-center gap-1">
+                    {request.email}
+                    <Clock className="w-3 h-3 ml-1" />
+                    {formatDate(request.requestedAt)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => approveJoinRequest(project.id, request.id)}
+                    className="flex items-center gap-1 px-2 py-1 bg-green-500 hover:bg-green-600 text-white rounded text-sm transition-colors"
+                  >
+                    <UserCheck className="w-4 h-4" />
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => declineJoinRequest(project.id, request.id)}
+                    className="flex items-center gap-1 px-2 py-1 hover:bg-red-500/10 text-red-400 rounded text-sm transition-colors"
+                  >
+                    <UserX className="w-4 h-4" />
+                    Decline
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EnrollmentPanel;
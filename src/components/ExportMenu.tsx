@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import { Download, Box, Loader2, AlertCircle, Printer, CheckCircle, AlertTriangle } from 'lucide-react';
+import { useSceneStore } from '../store/sceneStore';
+import { useClassroomStore } from '../store/classroomStore';
+import { exportSceneToGlb } from '../utils/gltfExport';
+import { downloadFile } from '../utils/download';
+import {
+  StlFormat,
+  MeshReport,
+  STL_UNIT_SCALES,
+  collectTriangles,
+  analyzeTriangles,
+  writeBinaryStl,
+  writeAsciiStl
+} from '../utils/stlExport';
+
+type StlScope = 'selected' | 'scene';
+
+// Helper function to list the problems a slicer would complain about
+const describeReport = (report: MeshReport) => {
+  const issues: string[] = [];
+  if (report.openBoundaryEdges > 0) issues.push(`${report.openBoundaryEdges} open boundary edges (holes)`);
+  if (report.nonManifoldEdges > 0) issues.push(`${report.nonManifoldEdges} non-manifold edges`);
+  if (report.inconsistentEdges > 0) issues.push(`${report.inconsistentEdges} edges between flipped normals`);
+  if (report.insideOut) issues.push('Normals point inwards (inside out)');
+  if (report.degenerateTriangles > 0) issues.push(`${report.degenerateTriangles} zero-area triangles`);
+  return issues;
+};
+
+const ExportMenu: React.FC = () => {
+  const { objects, groups, lights, selectedObject, selectedObjects } = useSceneStore();
+  const { currentProject } = useClassroomStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [stlScope, setStlScope] = useState<StlScope>('scene');
+  const [stlFormat, setStlFormat] = useState<StlFormat>('binary');
+  const [unitScale, setUnitScale] = useState(10);
+  const [report, setReport] = useState<MeshReport | null>(null);
+
+  // A report only describes the geometry it was run against
+  useEffect(() => {
+    setReport(null);
+  }, [selectedObject, selectedObjects, objects, isOpen]);
+
+  const baseFileName = (currentProject?.name || 'scene')
+    .replace(/[^a-z0-9-_ ]/gi, '')
+    .trim()
+    .replace(/\s+/g, '-') || 'scene';
+
+  const handleGlbExport = async () => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const glb = await exportSceneToGlb(objects, groups, lights);
+      downloadFile(glb, `${baseFileName}.glb`, 'model/gltf-binary');
+      setIsOpen(false);
+    } catch (err) {
+      console.error('Failed to export glTF:', err);
+      setError('Failed to export glTF file');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const getStlObjects = () => {
+    if (stlScope === 'selected') {
+      return objects.filter(obj => selectedObjects.has(obj.id)).map(obj => obj.object);
+    }
+    return objects.filter(obj => obj.visible).map(obj => obj.object);
+  };
+
+  const updateStlOption = (update: () => void) => {
+    update();
+    setReport(null);
+  };
+
+  const handleStlCheck = () => {
+    setError(null);
+    const triangles = collectTriangles(getStlObjects(), unitScale);
+    if (triangles.length === 0) {
+      setError('Nothing to export - the selection has no mesh geometry');
+      return;
+    }
+    setReport(analyzeTriangles(triangles));
+  };
+
+  const handleStlExport = () => {
+    setError(null);
+
+    try {
+      const triangles = collectTriangles(getStlObjects(), unitScale);
+      const selected = objects.find(obj => obj.object === selectedObject);
+      const fileName = stlScope === 'selected' && selected && selectedObjects.size === 1 ? selected.name : baseFileName;
+
+      if (stlFormat === 'binary') {
+        downloadFile(writeBinaryStl(triangles), `${fileName}.stl`, 'model/stl');
+      } else {
+        downloadFile(writeAsciiStl(triangles, fileName), `${fileName}.stl`, 'model/stl');
+      }
+    } catch (err) {
+      console.error('Failed to export STL:', err);
+      setError('Failed to export STL file');
+    }
+  };
+
+  const hasContent = objects.length > 0;
+  const reportIssues = report ? describeReport(report) : [];
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!hasContent}
+        className={`p-3 rounded-lg transition-all duration-200 flex items-center justify-center group relative ${
+          !hasContent
+            ? 'text-white/30 cursor-not-allowed bg-white/5'
+            : isOpen
+              ? 'bg-blue-500/30 text-blue-300'
+              : 'text-white/90 hover:bg-white/10 hover:text-white hover:scale-105 active:scale-95'
+        }`}
+        title={hasContent ? 'Export' : 'Export (Nothing to export)'}
+      >
+        <Download className="w-5 h-5" />
+
+        {/* Tooltip */}
+        <div className="absolute bottom-full mb-2 left-1/2 transform -translate-x-1/2 bg-black/90 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none whitespace-nowrap">
+          Export
+        </div>
+      </button>
+
+      {isOpen && hasContent && (
+        <div className="absolute right-0 top-full mt-2 bg-[#2a2a2a] border border-white/10 rounded-lg shadow-lg z-20 min-w-64">
+          <div className="p-3 border-b border-white/10">
+            <h3 className="text-sm font-medium text-white/90">Export Scene</h3>
+          </div>
+
+          <div className="p-2 space-y-1">
+            <button
+              onClick={handleGlbExport}
+              disabled={isExporting}
+              className="w-full p-2 rounded-lg hover:bg-white/5 flex items-center gap-3 transition-colors group"
+            >
+              {isExporting ? (
+                <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />
+              ) : (
+                <Box className="w-4 h-4 text-blue-400" />
+              )}
+              <div className="text-left">
+                <div className="text-sm text-white/90 group-hover:text-white">glTF Binary (.glb)</div>
+                <div className="text-xs text-white/60">Groups, materials and lights for other 3D tools</div>
+              </div>
+            </button>
+          </div>
+
+          {/* 3D Printing */}
+          <div className="border-t border-white/10 p-3 space-y-3">
+            <h4 className="text-xs font-medium text-white/70 uppercase tracking-wider flex items-center gap-2">
+              <Printer className="w-4 h-4 text-green-400" />
+              3D Printing (STL)
+            </h4>
+
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                { id: 'selected', label: selectedObjects.size > 1 ? 'Selected Objects' : 'Selected Object' },
+                { id: 'scene', label: 'Whole Scene' }
+              ] as const).map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => updateStlOption(() => setStlScope(option.id))}
+                  disabled={option.id === 'selected' && !selectedObject}
+                  className={`p-2 rounded-lg text-xs transition-colors ${
+                    stlScope === option.id
+                      ? 'bg-green-500/20 text-green-300 border border-green-500/30'
+                      : option.id === 'selected' && !selectedObject
+                        ? 'text-white/30 cursor-not-allowed border border-white/5'
+                        : 'text-white/70 hover:bg-white/5 border border-white/10'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={stlFormat}
+                onChange={(e) => updateStlOption(() => setStlFormat(e.target.value as StlFormat))}
+                className="bg-[#1a1a1a] border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white/90 focus:outline-none focus:border-blue-500/50"
+              >
+                <option value="binary">Binary STL</option>
+                <option value="ascii">ASCII STL</option>
+              </select>
+              <select
+                value={unitScale}
+                onChange={(e) => updateStlOption(() => setUnitScale(Number(e.target.value)))}
+                className="bg-[#1a1a1a] border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white/90 focus:outline-none focus:border-blue-500/50"
+              >
+                {STL_UNIT_SCALES.map(scale => (
+                  <option key={scale.value} value={scale.value}>{scale.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {report && (
+              reportIssues.length === 0 ? (
+                <div className="p-2 bg-green-500/10 border border-green-500/20 rounded-lg flex items-center gap-2 text-xs text-green-400">
+                  <CheckCircle className="w-4 h-4 flex-shrink-0" />
+                  Watertight - {report.triangleCount.toLocaleString()} triangles ready to print
+                </div>
+              ) : (
+                <div className="p-2 bg-yellow-500/10 border border-yellow-500/20 rounded-lg text-xs text-yellow-400">
+                  <div className="flex items-center gap-2 font-medium mb-1">
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                    Slicers may reject this model
+                  </div>
+                  <ul className="space-y-0.5 pl-6">
+                    {reportIssues.map(issue => (
+                      <li key={issue}>• {issue}</li>
+                    ))}
+                  </ul>
+                </div>
+              )
+            )}
+
+            {report ? (
+              <button
+                onClick={handleStlExport}
+                className={`w-full p-2 rounded-lg font-medium text-sm transition-colors ${
+                  reportIssues.length === 0
+                    ? 'bg-green-500 hover:bg-green-600 text-white'
+                    : 'bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-300'
+                }`}
+              >
+                {reportIssues.length === 0 ? 'Download STL' : 'Download Anyway'}
+              </button>
+            ) : (
+              <button
+                onClick={handleStlCheck}
+                disabled={stlScope === 'selected' && !selectedObject}
+                className="w-full p-2 rounded-lg font-medium text-sm bg-white/10 hover:bg-white/15 text-white/90 transition-colors"
+              >
+                Check Model
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <div className="mx-2 mb-2 p-2 bg-red-500/10 border border-red-500/20 rounded-lg flex items-center gap-2 text-xs text-red-400">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Award,
+  ChevronLeft,
+  ChevronRight,
+  Save,
+  CheckCircle,
+  Clock,
+  AlertCircle
+} from 'lucide-react';
+import { useClassroomStore, isSubmissionLate, Project } from '../store/classroomStore';
+
+interface GradingPanelProps {
+  // The student's copy open in the studio
+  project: Project;
+  onOpenSubmission: (projectId: string) => void;
+}
+
+const formatDate = (date: Date | string) => {
+  return new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+};
+
+// Sits next to the student's scene while the teacher scores it against the assignment's rubric
+const GradingPanel: React.FC<GradingPanelProps> = ({ project, onOpenSubmission }) => {
+  const { projects, saveGrade } = useClassroomStore();
+  const [scores, setScores] = useState<Record<string, string>>({});
+  const [feedback, setFeedback] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const submission = project.submission;
+  const assignment = projects.find(p => p.id === submission?.assignmentId);
+  const rubric = assignment?.rubric ?? [];
+
+  // Step through the class in the same order as the submissions list
+  const classmates = projects
+    .filter(p => p.submission && p.submission.assignmentId === submission?.assignmentId)
+    .sort((a, b) => (a.submission?.studentName || a.submission?.studentEmail || '')
+      .localeCompare(b.submission?.studentName || b.submission?.studentEmail || ''));
+  const index = classmates.findIndex(p => p.id === project.id);
+  const previous = index > 0 ? classmates[index - 1] : null;
+  const next = index >= 0 && index < classmates.length - 1 ? classmates[index + 1] : null;
+
+  // Start from the saved grade whenever another student's copy opens
+  useEffect(() => {
+    setScores(Object.fromEntries(
+      Object.entries(project.grade?.scores ?? {}).map(([id, points]) => [id, String(points)])
+    ));
+    setFeedback(project.grade?.feedback ?? '');
+    setSaved(false);
+    setSaveError(null);
+  }, [project.id, project.grade]);
+
+  if (!submission) return null;
+
+  const total = rubric.reduce((sum, criterion) => sum + (Number(scores[criterion.id]) || 0), 0);
+  const maxTotal = rubric.reduce((sum, criterion) => sum + criterion.maxPoints, 0);
+  const late = isSubmissionLate(submission);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+    const success = await saveGrade(project.id, Object.fromEntries(
+      Object.entries(scores)
+        .filter(([, points]) => points !== '')
+        .map(([id, points]) => [id, Number(points)])
+    ), feedback.trim());
+    setSaving(false);
+    setSaved(success);
+    if (!success) {
+      setSaveError('Failed to save the grade. Try again');
+    }
+  };
+
+  return (
+    <div className="absolute right-4 top-20 bottom-4 w-80 bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 border border-white/5 flex flex-col z-40">
+      {/* Student */}
+      <div className="p-4 border-b border-white/10">
+        <div className="flex items-center justify-between mb-2">
+          <button
+            onClick={() => previous && onOpenSubmission(previous.id)}
+            disabled={!previous}
+            className="p-1.5 hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent rounded-lg transition-colors text-white/70"
+            title="Previous Student"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <div className="text-center min-w-0">
+            <div className="font-semibold text-white/90 truncate">
+              {submission.studentName || submission.studentEmail.split('@')[0]}
+            </div>
+            <div className="text-xs text-white/50">
+              {index >= 0 ? `${index + 1} of ${classmates.length}` : submission.studentEmail}
+            </div>
+          </div>
+          <button
+            onClick={() => next && onOpenSubmission(next.id)}
+            disabled={!next}
+            className="p-1.5 hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent rounded-lg transition-colors text-white/70"
+            title="Next Student"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <div className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border ${
+            submission.status === 'submitted'
+              ? 'text-green-400 bg-green-500/10 border-green-500/20'
+              : 'text-gray-400 bg-gray-500/10 border-gray-500/20'
+          }`}>
+            {submission.status === 'submitted' ? <CheckCircle className="w-3 h-3" /> : <Clock className="w-3 h-3" />}
+            {submission.status === 'submitted' && submission.submittedAt
+              ? `Submitted ${formatDate(submission.submittedAt)}`
+              : 'Not submitted'}
+          </div>
+          {late && (
+            <div className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border text-red-400 bg-red-500/10 border-red-500/20">
+              <AlertCircle className="w-3 h-3" />
+              {submission.status === 'submitted' ? 'Late' : 'Overdue'}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Rubric */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {rubric.length === 0 ? (
+          <p className="text-sm text-white/50">
+            This assignment has no rubric yet. Add criteria under Submissions to score them here
+          </p>
+        ) : (
+          rubric.map((criterion) => (
+            <div key={criterion.id} className="p-3 bg-[#2a2a2a] rounded-lg border border-white/10">
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm font-medium text-white/90">{criterion.title}</div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <input
+                    type="number"
+                    min={0}
+                    max={criterion.maxPoints}
+                    value={scores[criterion.id] ?? ''}
+                    onChange={(e) => {
+                      setScores(current => ({ ...current, [criterion.id]: e.target.value }));
+                      setSaved(false);
+                    }}
+                    className="w-16 py-1 px-2 bg-[#1a1a1a] border border-white/10 rounded text-sm text-white/90 text-right focus:outline-none focus:border-blue-500/50"
+                  />
+                  <span className="text-sm text-white/50">/ {criterion.maxPoints}</span>
+                </div>
+              </div>
+              {criterion.description && (
+                <p className="text-xs text-white/50 mt-1">{criterion.description}</p>
+              )}
+            </div>
+          ))
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-white/70 mb-2">
+            Feedback
+          </label>
+          <textarea
+            value={feedback}
+            onChange={(e) => {
+              setFeedback(e.target.value);
+              setSaved(false);
+            }}
+            rows={5}
+            className="w-full py-2 px-3 bg-[#2a2a2a] border border-white/10 rounded-lg text-sm text-white/90 placeholder-white/50 focus:outline-none focus:border-blue-500/50 resize-none"
+            placeholder="What went well and what to work on"
+          />
+        </div>
+      </div>
+
+      {saveError && (
+        <div className="px-4 pt-3 flex items-center gap-2 text-red-400 border-t border-white/10">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span className="text-xs">{saveError}</span>
+        </div>
+      )}
+
+      {/* Total */}
+      <div className="p-4 border-t border-white/10 flex items-center justify-between">
+        <div className="flex items-center gap-2 text-white/90">
+          <Award className="w-5 h-5 text-blue-400" />
+          <span className="text-lg font-semibold">{total}</span>
+          <span className="text-sm text-white/50">/ {maxTotal}</span>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+        >
+          {saved ? <CheckCircle className="w-4 h-4" /> : <Save className="w-4 h-4" />}
+          {saving ? 'Saving...' : saved ? 'Saved' : 'Save Grade'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GradingPanel;
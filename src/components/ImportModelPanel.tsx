@@ -0,0 +1,110 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Loader2, AlertCircle } from 'lucide-react';
+import { useSceneStore } from '../store/sceneStore';
+import { importMeshFile, MAX_IMPORT_VERTICES, SUPPORTED_MESH_EXTENSIONS } from '../utils/meshImport';
+
+interface ImportModelPanelProps {
+  onImported: () => void;
+}
+
+const ImportModelPanel: React.FC<ImportModelPanelProps> = ({ onImported }) => {
+  const { startObjectPlacement } = useSceneStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      const mesh = await importMeshFile(file);
+      if (mesh.rescaled) {
+        console.log(`Imported model "${mesh.name}" was rescaled to fit the scene`);
+      }
+
+      // Hand off to the regular placement flow, which saves through addObject
+      startObjectPlacement({
+        geometry: () => mesh.geometry.clone(),
+        name: mesh.name,
+        color: mesh.color
+      });
+      onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import model');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) handleFile(file);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) handleFile(file);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        onClick={() => !isImporting && fileInputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+          isDragging
+            ? 'border-blue-500 bg-blue-500/10'
+            : 'border-white/10 hover:border-white/20 hover:bg-white/5'
+        }`}
+      >
+        {isImporting ? (
+          <Loader2 className="w-8 h-8 mx-auto mb-3 text-blue-400 animate-spin" />
+        ) : (
+          <Upload className="w-8 h-8 mx-auto mb-3 text-blue-400" />
+        )}
+        <h4 className="text-sm font-medium text-white/90 mb-1">
+          {isImporting ? 'Reading model...' : 'Drop a model or click to browse'}
+        </h4>
+        <p className="text-xs text-white/60">
+          {SUPPORTED_MESH_EXTENSIONS.map(ext => `.${ext}`).join(', ')}
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={SUPPORTED_MESH_EXTENSIONS.map(ext => `.${ext}`).join(',')}
+          onChange={handleInputChange}
+          className="hidden"
+        />
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-start gap-2 text-xs text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <div className="text-xs text-white/50 bg-blue-500/10 border border-blue-500/20 rounded-lg p-3">
+        <div className="font-medium text-blue-400 mb-1">Import Tips:</div>
+        <ul className="space-y-1">
+          <li>• Models are merged into a single object</li>
+          <li>• Up to <strong>{MAX_IMPORT_VERTICES.toLocaleString()} vertices</strong> so they can be saved</li>
+          <li>• glTF files must have embedded buffers (use .glb)</li>
+          <li>• Very large or tiny models are resized to fit</li>
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ImportModelPanel;
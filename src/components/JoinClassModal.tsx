@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { X, KeyRound, LogIn } from 'lucide-react';
+import { CLASS_CODE_LENGTH, normalizeClassCode } from '../utils/joinLinks';
+
+interface JoinClassModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onJoin: (classCode: string) => Promise<void>;
+}
+
+const JoinClassModal: React.FC<JoinClassModalProps> = ({ isOpen, onClose, onJoin }) => {
+  const [classCode, setClassCode] = useState('');
+  const [joining, setJoining] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (classCode.length !== CLASS_CODE_LENGTH) return;
+
+    setJoining(true);
+    try {
+      await onJoin(classCode);
+    } finally {
+      setJoining(false);
+      setClassCode('');
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-[#1a1a1a] rounded-xl shadow-2xl border border-white/10 w-full max-w-sm">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-purple-500/20 rounded-lg">
+              <KeyRound className="w-6 h-6 text-purple-400" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white/90">Join a Class</h2>
+              <p className="text-sm text-white/60">Enter the code your teacher gave you</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors text-white/70"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <input
+            type="text"
+            value={classCode}
+            onChange={(e) => setClassCode(normalizeClassCode(e.target.value).slice(0, CLASS_CODE_LENGTH))}
+            className="w-full py-3 px-3 bg-[#2a2a2a] border border-white/10 rounded-lg text-white/90 placeholder-white/30 font-mono text-2xl tracking-[0.3em] text-center uppercase focus:outline-none focus:border-purple-500/50"
+            placeholder="ABC123"
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={joining || classCode.length !== CLASS_CODE_LENGTH}
+            className="w-full flex items-center justify-center gap-2 py-2 bg-purple-500 hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+          >
+            <LogIn className="w-4 h-4" />
+            {joining ? 'Joining...' : 'Join'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default JoinClassModal;
@@ -20,7 +20,11 @@ const LayersPanel: React.FC = () => {
   const { 
     objects, 
     groups,
+    selectedObjects,
+    setSelectedObject,
+    toggleObjectSelection,
     removeObject, 
+    removeObjects,
     toggleVisibility,
     toggleLock,
     updateObjectName,
@@ -32,13 +36,13 @@ const LayersPanel: React.FC = () => {
     updateGroupName,
     moveObjectsToGroup,
     removeObjectFromGroup,
-    isObjectLocked
+    isObjectLocked,
+    isReadOnly
   } = useSceneStore();
   
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
   const [editingType, setEditingType] = useState<'object' | 'group'>('object');
-  const [selectedObjects, setSelectedObjects] = useState<string[]>([]);
   const [showGroupOptions, setShowGroupOptions] = useState(false);
 
   const startEditing = (id: string, name: string, type: 'object' | 'group') => {
@@ -65,36 +69,36 @@ const LayersPanel: React.FC = () => {
     setEditingId(null);
   };
 
+  // The panel shares the scene's selection
+  const selectedIds = Array.from(selectedObjects);
+
   const handleObjectSelect = (objectId: string, event: React.MouseEvent) => {
-    if (event.ctrlKey || event.metaKey) {
-      // Multi-select with Ctrl/Cmd
-      setSelectedObjects(prev => 
-        prev.includes(objectId) 
-          ? prev.filter(id => id !== objectId)
-          : [...prev, objectId]
-      );
+    const entry = objects.find(obj => obj.id === objectId);
+    if (!entry || !entry.visible) return;
+
+    if (event.ctrlKey || event.metaKey || event.shiftKey) {
+      // Multi-select with Ctrl/Cmd or Shift
+      toggleObjectSelection(entry.object);
     } else {
       // Single select
-      setSelectedObjects([objectId]);
+      setSelectedObject(entry.object);
     }
   };
 
   const createGroupFromSelected = () => {
-    if (selectedObjects.length > 0) {
+    if (selectedIds.length > 0) {
       // Check if any selected objects are locked
-      const hasLockedObjects = selectedObjects.some(id => isObjectLocked(id));
+      const hasLockedObjects = selectedIds.some(id => isObjectLocked(id));
       if (hasLockedObjects) return;
 
-      createGroup(`Group ${groups.length + 1}`, selectedObjects);
-      setSelectedObjects([]);
+      createGroup(`Group ${groups.length + 1}`, selectedIds);
       setShowGroupOptions(false);
     }
   };
 
   const moveSelectedToGroup = (groupId: string | null) => {
-    if (selectedObjects.length > 0) {
-      moveObjectsToGroup(selectedObjects, groupId);
-      setSelectedObjects([]);
+    if (selectedIds.length > 0) {
+      moveObjectsToGroup(selectedIds, groupId);
       setShowGroupOptions(false);
     }
   };
@@ -106,66 +110,68 @@ const LayersPanel: React.FC = () => {
     <div className="absolute right-4 top-4 bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 p-4 w-80 border border-white/5 max-h-[70vh] overflow-y-auto">
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-lg font-semibold text-white/90">Layers</h2>
-        <div className="flex gap-2">
-          {selectedObjects.length > 0 && (
-            <div className="relative">
-              <button
-                onClick={() => setShowGroupOptions(!showGroupOptions)}
-                className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-white/70"
-                title="Group Options"
-              >
-                <Users className="w-4 h-4" />
-              </button>
-              {showGroupOptions && (
-                <div className="absolute right-0 top-8 bg-[#2a2a2a] border border-white/10 rounded-lg shadow-lg z-10 min-w-48">
-                  <button
-                    onClick={createGroupFromSelected}
-                    className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
-                  >
-                    <FolderPlus className="w-4 h-4" />
-                    Create New Group
-                  </button>
-                  {groups.length > 0 && (
-                    <>
-                      <div className="border-t border-white/10 my-1"></div>
-                      <div className="px-3 py-1 text-xs text-white/50 uppercase tracking-wider">
-                        Move to Group
-                      </div>
-                      {groups.map(group => (
+        {!isReadOnly && (
+          <div className="flex gap-2">
+            {selectedIds.length > 0 && (
+              <div className="relative">
+                <button
+                  onClick={() => setShowGroupOptions(!showGroupOptions)}
+                  className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-white/70"
+                  title="Group Options"
+                >
+                  <Users className="w-4 h-4" />
+                </button>
+                {showGroupOptions && (
+                  <div className="absolute right-0 top-8 bg-[#2a2a2a] border border-white/10 rounded-lg shadow-lg z-10 min-w-48">
+                    <button
+                      onClick={createGroupFromSelected}
+                      className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+                    >
+                      <FolderPlus className="w-4 h-4" />
+                      Create New Group
+                    </button>
+                    {groups.length > 0 && (
+                      <>
+                        <div className="border-t border-white/10 my-1"></div>
+                        <div className="px-3 py-1 text-xs text-white/50 uppercase tracking-wider">
+                          Move to Group
+                        </div>
+                        {groups.map(group => (
+                          <button
+                            key={group.id}
+                            onClick={() => moveSelectedToGroup(group.id)}
+                            disabled={group.locked}
+                            className={`w-full px-3 py-2 text-left text-sm hover:bg-white/5 flex items-center gap-2 ${
+                              group.locked ? 'text-white/30 cursor-not-allowed' : 'text-white/90'
+                            }`}
+                          >
+                            <Folder className="w-4 h-4" />
+                            {group.name}
+                            {group.locked && <Lock className="w-3 h-3 ml-auto" />}
+                          </button>
+                        ))}
                         <button
-                          key={group.id}
-                          onClick={() => moveSelectedToGroup(group.id)}
-                          disabled={group.locked}
-                          className={`w-full px-3 py-2 text-left text-sm hover:bg-white/5 flex items-center gap-2 ${
-                            group.locked ? 'text-white/30 cursor-not-allowed' : 'text-white/90'
-                          }`}
+                          onClick={() => moveSelectedToGroup(null)}
+                          className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
                         >
-                          <Folder className="w-4 h-4" />
-                          {group.name}
-                          {group.locked && <Lock className="w-3 h-3 ml-auto" />}
+                          <div className="w-4 h-4" />
+                          Ungroup
                         </button>
-                      ))}
-                      <button
-                        onClick={() => moveSelectedToGroup(null)}
-                        className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
-                      >
-                        <div className="w-4 h-4" />
-                        Ungroup
-                      </button>
-                    </>
-                  )}
-                </div>
-              )}
-            </div>
-          )}
-          <button
-            onClick={() => createGroup(`Group ${groups.length + 1}`)}
-            className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-white/70"
-            title="Create Empty Group"
-          >
-            <Plus className="w-4 h-4" />
-          </button>
-        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+            <button
+              onClick={() => createGroup(`Group ${groups.length + 1}`)}
+              className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-white/70"
+              title="Create Empty Group"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        )}
       </div>
 
       <div className="space-y-1">
@@ -210,59 +216,61 @@ const LayersPanel: React.FC = () => {
                 {group.locked && <Lock className="w-3 h-3 text-orange-400" />}
               </div>
 
-              <div className="flex gap-1">
-                <button
-                  onClick={() => editingId !== group.id && startEditing(group.id, group.name, 'group')}
-                  disabled={group.locked}
-                  className={`p-1.5 rounded-lg transition-colors ${
-                    group.locked 
-                      ? 'text-white/30 cursor-not-allowed' 
-                      : 'hover:bg-white/10'
-                  }`}
-                  title={group.locked ? 'Group is locked' : 'Rename Group'}
-                >
-                  <Edit2 className="w-4 h-4" />
-                </button>
-                <button
-                  onClick={() => toggleGroupVisibility(group.id)}
-                  disabled={group.locked}
-                  className={`p-1.5 rounded-lg transition-colors ${
-                    group.locked 
-                      ? 'text-white/30 cursor-not-allowed' 
-                      : 'hover:bg-white/10'
-                  }`}
-                  title={group.locked ? 'Group is locked' : (group.visible ? 'Hide Group' : 'Show Group')}
-                >
-                  {group.visible ? (
-                    <Eye className="w-4 h-4" />
-                  ) : (
-                    <EyeOff className="w-4 h-4" />
-                  )}
-                </button>
-                <button
-                  onClick={() => toggleGroupLock(group.id)}
-                  className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-orange-400 hover:text-orange-300"
-                  title={group.locked ? 'Unlock Group' : 'Lock Group'}
-                >
-                  {group.locked ? (
-                    <Lock className="w-4 h-4" />
-                  ) : (
-                    <Unlock className="w-4 h-4" />
-                  )}
-                </button>
-                <button
-                  onClick={() => removeGroup(group.id)}
-                  disabled={group.locked}
-                  className={`p-1.5 rounded-lg transition-colors ${
-                    group.locked 
-                      ? 'text-white/30 cursor-not-allowed' 
-                      : 'text-red-400 hover:text-red-300 hover:bg-white/10'
-                  }`}
-                  title={group.locked ? 'Group is locked' : 'Delete Group'}
-                >
-                  <Trash2 className="w-4 h-4" />
-                </button>
-              </div>
+              {!isReadOnly && (
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => editingId !== group.id && startEditing(group.id, group.name, 'group')}
+                    disabled={group.locked}
+                    className={`p-1.5 rounded-lg transition-colors ${
+                      group.locked 
+                        ? 'text-white/30 cursor-not-allowed' 
+                        : 'hover:bg-white/10'
+                    }`}
+                    title={group.locked ? 'Group is locked' : 'Rename Group'}
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => toggleGroupVisibility(group.id)}
+                    disabled={group.locked}
+                    className={`p-1.5 rounded-lg transition-colors ${
+                      group.locked 
+                        ? 'text-white/30 cursor-not-allowed' 
+                        : 'hover:bg-white/10'
+                    }`}
+                    title={group.locked ? 'Group is locked' : (group.visible ? 'Hide Group' : 'Show Group')}
+                  >
+                    {group.visible ? (
+                      <Eye className="w-4 h-4" />
+                    ) : (
+                      <EyeOff className="w-4 h-4" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => toggleGroupLock(group.id)}
+                    className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-orange-400 hover:text-orange-300"
+                    title={group.locked ? 'Unlock Group' : 'Lock Group'}
+                  >
+                    {group.locked ? (
+                      <Lock className="w-4 h-4" />
+                    ) : (
+                      <Unlock className="w-4 h-4" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => removeGroup(group.id)}
+                    disabled={group.locked}
+                    className={`p-1.5 rounded-lg transition-colors ${
+                      group.locked 
+                        ? 'text-white/30 cursor-not-allowed' 
+                        : 'text-red-400 hover:text-red-300 hover:bg-white/10'
+                    }`}
+                    title={group.locked ? 'Group is locked' : 'Delete Group'}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
             </div>
 
             {/* Group Objects */}
@@ -276,7 +284,7 @@ const LayersPanel: React.FC = () => {
                       <div 
                         key={id} 
                         className={`flex items-center justify-between p-2 hover:bg-white/5 rounded-lg transition-colors cursor-pointer ${
-                          selectedObjects.includes(id) ? 'bg-blue-500/20 border border-blue-500/30' : ''
+                          selectedObjects.has(id) ? 'bg-blue-500/20 border border-blue-500/30' : ''
                         } ${isLocked ? 'text-white/50' : 'text-white/90'}`}
                         onClick={(e) => handleObjectSelect(id, e)}
                       >
@@ -296,91 +304,93 @@ const LayersPanel: React.FC = () => {
                           )}
                           {isLocked && <Lock className="w-3 h-3 text-orange-400" />}
                         </div>
-                        <div className="flex gap-1">
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              editingId !== id && startEditing(id, name, 'object');
-                            }}
-                            disabled={isLocked}
-                            className={`p-1.5 rounded-lg transition-colors ${
-                              isLocked 
-                                ? 'text-white/30 cursor-not-allowed' 
-                                : 'hover:bg-white/10'
-                            }`}
-                            title={isLocked ? 'Object is locked' : 'Rename'}
-                          >
-                            <Edit2 className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              toggleVisibility(id);
-                            }}
-                            disabled={isLocked}
-                            className={`p-1.5 rounded-lg transition-colors ${
-                              isLocked 
-                                ? 'text-white/30 cursor-not-allowed' 
-                                : 'hover:bg-white/10'
-                            }`}
-                            title={isLocked ? 'Object is locked' : (visible ? 'Hide' : 'Show')}
-                          >
-                            {visible ? (
-                              <Eye className="w-4 h-4" />
-                            ) : (
-                              <EyeOff className="w-4 h-4" />
-                            )}
-                          </button>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              toggleLock(id);
-                            }}
-                            disabled={group.locked}
-                            className={`p-1.5 rounded-lg transition-colors text-orange-400 hover:text-orange-300 ${
-                              group.locked 
-                                ? 'text-white/30 cursor-not-allowed' 
-                                : 'hover:bg-white/10'
-                            }`}
-                            title={group.locked ? 'Group is locked' : (locked ? 'Unlock Object' : 'Lock Object')}
-                          >
-                            {locked ? (
-                              <Lock className="w-4 h-4" />
-                            ) : (
-                              <Unlock className="w-4 h-4" />
-                            )}
-                          </button>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              removeObjectFromGroup(id);
-                            }}
-                            disabled={isLocked}
-                            className={`p-1.5 rounded-lg transition-colors ${
-                              isLocked 
-                                ? 'text-white/30 cursor-not-allowed' 
-                                : 'text-orange-400 hover:text-orange-300 hover:bg-white/10'
-                            }`}
-                            title={isLocked ? 'Object is locked' : 'Remove from Group'}
-                          >
-                            <Edit2 className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              removeObject(id);
-                            }}
-                            disabled={isLocked}
-                            className={`p-1.5 rounded-lg transition-colors ${
-                              isLocked 
-                                ? 'text-white/30 cursor-not-allowed' 
-                                : 'text-red-400 hover:text-red-300 hover:bg-white/10'
-                            }`}
-                            title={isLocked ? 'Object is locked' : 'Delete'}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
-                        </div>
+                        {!isReadOnly && (
+                          <div className="flex gap-1">
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                editingId !== id && startEditing(id, name, 'object');
+                              }}
+                              disabled={isLocked}
+                              className={`p-1.5 rounded-lg transition-colors ${
+                                isLocked 
+                                  ? 'text-white/30 cursor-not-allowed' 
+                                  : 'hover:bg-white/10'
+                              }`}
+                              title={isLocked ? 'Object is locked' : 'Rename'}
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                toggleVisibility(id);
+                              }}
+                              disabled={isLocked}
+                              className={`p-1.5 rounded-lg transition-colors ${
+                                isLocked 
+                                  ? 'text-white/30 cursor-not-allowed' 
+                                  : 'hover:bg-white/10'
+                              }`}
+                              title={isLocked ? 'Object is locked' : (visible ? 'Hide' : 'Show')}
+                            >
+                              {visible ? (
+                                <Eye className="w-4 h-4" />
+                              ) : (
+                                <EyeOff className="w-4 h-4" />
+                              )}
+                            </button>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                toggleLock(id);
+                              }}
+                              disabled={group.locked}
+                              className={`p-1.5 rounded-lg transition-colors text-orange-400 hover:text-orange-300 ${
+                                group.locked 
+                                  ? 'text-white/30 cursor-not-allowed' 
+                                  : 'hover:bg-white/10'
+                              }`}
+                              title={group.locked ? 'Group is locked' : (locked ? 'Unlock Object' : 'Lock Object')}
+                            >
+                              {locked ? (
+                                <Lock className="w-4 h-4" />
+                              ) : (
+                                <Unlock className="w-4 h-4" />
+                              )}
+                            </button>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                removeObjectFromGroup(id);
+                              }}
+                              disabled={isLocked}
+                              className={`p-1.5 rounded-lg transition-colors ${
+                                isLocked 
+                                  ? 'text-white/30 cursor-not-allowed' 
+                                  : 'text-orange-400 hover:text-orange-300 hover:bg-white/10'
+                              }`}
+                              title={isLocked ? 'Object is locked' : 'Remove from Group'}
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                removeObject(id);
+                              }}
+                              disabled={isLocked}
+                              className={`p-1.5 rounded-lg transition-colors ${
+                                isLocked 
+                                  ? 'text-white/30 cursor-not-allowed' 
+                                  : 'text-red-400 hover:text-red-300 hover:bg-white/10'
+                              }`}
+                              title={isLocked ? 'Object is locked' : 'Delete'}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
                       </div>
                     );
                   })}
@@ -394,7 +404,7 @@ const LayersPanel: React.FC = () => {
           <div 
             key={id} 
             className={`flex items-center justify-between p-2 hover:bg-white/5 rounded-lg transition-colors cursor-pointer ${
-              selectedObjects.includes(id) ? 'bg-blue-500/20 border border-blue-500/30' : ''
+              selectedObjects.has(id) ? 'bg-blue-500/20 border border-blue-500/30' : ''
             } ${locked ? 'text-white/50' : 'text-white/90'}`}
             onClick={(e) => handleObjectSelect(id, e)}
           >
@@ -414,89 +424,102 @@ const LayersPanel: React.FC = () => {
               )}
               {locked && <Lock className="w-3 h-3 text-orange-400" />}
             </div>
-            <div className="flex gap-1">
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  editingId !== id && startEditing(id, name, 'object');
-                }}
-                disabled={locked}
-                className={`p-1.5 rounded-lg transition-colors ${
-                  locked 
-                    ? 'text-white/30 cursor-not-allowed' 
-                    : 'hover:bg-white/10'
-                }`}
-                title={locked ? 'Object is locked' : 'Rename'}
-              >
-                <Edit2 className="w-4 h-4" />
-              </button>
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  toggleVisibility(id);
-                }}
-                disabled={locked}
-                className={`p-1.5 rounded-lg transition-colors ${
-                  locked 
-                    ? 'text-white/30 cursor-not-allowed' 
-                    : 'hover:bg-white/10'
-                }`}
-                title={locked ? 'Object is locked' : (visible ? 'Hide' : 'Show')}
-              >
-                {visible ? (
-                  <Eye className="w-4 h-4" />
-                ) : (
-                  <EyeOff className="w-4 h-4" />
-                )}
-              </button>
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  toggleLock(id);
-                }}
-                className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-orange-400 hover:text-orange-300"
-                title={locked ? 'Unlock Object' : 'Lock Object'}
-              >
-                {locked ? (
-                  <Lock className="w-4 h-4" />
-                ) : (
-                  <Unlock className="w-4 h-4" />
-                )}
-              </button>
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  removeObject(id);
-                }}
-                disabled={locked}
-                className={`p-1.5 rounded-lg transition-colors ${
-                  locked 
-                    ? 'text-white/30 cursor-not-allowed' 
-                    : 'text-red-400 hover:text-red-300 hover:bg-white/10'
-                }`}
-                title={locked ? 'Object is locked' : 'Delete'}
-              >
-                <Trash2 className="w-4 h-4" />
-              </button>
-            </div>
+            {!isReadOnly && (
+              <div className="flex gap-1">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    editingId !== id && startEditing(id, name, 'object');
+                  }}
+                  disabled={locked}
+                  className={`p-1.5 rounded-lg transition-colors ${
+                    locked 
+                      ? 'text-white/30 cursor-not-allowed' 
+                      : 'hover:bg-white/10'
+                  }`}
+                  title={locked ? 'Object is locked' : 'Rename'}
+                >
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    toggleVisibility(id);
+                  }}
+                  disabled={locked}
+                  className={`p-1.5 rounded-lg transition-colors ${
+                    locked 
+                      ? 'text-white/30 cursor-not-allowed' 
+                      : 'hover:bg-white/10'
+                  }`}
+                  title={locked ? 'Object is locked' : (visible ? 'Hide' : 'Show')}
+                >
+                  {visible ? (
+                    <Eye className="w-4 h-4" />
+                  ) : (
+                    <EyeOff className="w-4 h-4" />
+                  )}
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    toggleLock(id);
+                  }}
+                  className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-orange-400 hover:text-orange-300"
+                  title={locked ? 'Unlock Object' : 'Lock Object'}
+                >
+                  {locked ? (
+                    <Lock className="w-4 h-4" />
+                  ) : (
+                    <Unlock className="w-4 h-4" />
+                  )}
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeObject(id);
+                  }}
+                  disabled={locked}
+                  className={`p-1.5 rounded-lg transition-colors ${
+                    locked 
+                      ? 'text-white/30 cursor-not-allowed' 
+                      : 'text-red-400 hover:text-red-300 hover:bg-white/10'
+                  }`}
+                  title={locked ? 'Object is locked' : 'Delete'}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            )}
           </div>
         ))}
 
         {objects.length === 0 && (
           <div className="text-center py-8 text-white/50">
             <p className="text-sm">No objects in scene</p>
-            <p className="text-xs mt-1">Add objects using the toolbar</p>
+            {!isReadOnly && <p className="text-xs mt-1">Add objects using the toolbar</p>}
           </div>
         )}
       </div>
 
-      {selectedObjects.length > 0 && (
+      {selectedIds.length > 0 && (
         <div className="mt-4 p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg">
-          <p className="text-sm text-blue-400">
-            {selectedObjects.length} object{selectedObjects.length > 1 ? 's' : ''} selected
-          </p>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-blue-400">
+              {selectedIds.length} object{selectedIds.length > 1 ? 's' : ''} selected
+            </p>
+            {!isReadOnly && (
+              <button
+                onClick={() => removeObjects(selectedIds)}
+                className="p-1.5 rounded-lg transition-colors text-red-400 hover:text-red-300 hover:bg-white/10"
+                title="Delete Selected"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+          </div>
           <p className="text-xs text-white/50 mt-1">
-            Use Ctrl/Cmd + click to select multiple objects
+            Shift-click or Shift-drag in the scene, or Ctrl/Cmd + click here, to select multiple objects
           </p>
         </div>
       )}
@@ -0,0 +1,92 @@
+import React from 'react';
+import { X, Eye } from 'lucide-react';
+import * as THREE from 'three';
+import { useSceneStore } from '../store/sceneStore';
+
+// Helper function to show a number the way the properties panel rounds it
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+const VectorRow: React.FC<{ label: string; values: number[] }> = ({ label, values }) => (
+  <div>
+    <div className="text-xs text-white/60 mb-1">{label}</div>
+    <div className="grid grid-cols-3 gap-2">
+      {['X', 'Y', 'Z'].map((axis, index) => (
+        <div key={axis} className="px-2 py-1 bg-[#2a2a2a] rounded text-sm text-white/90">
+          <span className="text-white/40 mr-1">{axis}</span>
+          {formatNumber(values[index])}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+// The properties panel for people who can only look: what the selected object is and where,
+// with nothing to change
+const ObjectInspector: React.FC = () => {
+  const { selectedObject, objects, groups, setSelectedObject } = useSceneStore();
+
+  if (!selectedObject) return null;
+
+  const entry = objects.find(obj => obj.object === selectedObject);
+  const group = entry?.groupId ? groups.find(g => g.id === entry.groupId) : undefined;
+  const material = selectedObject instanceof THREE.Mesh
+    ? selectedObject.material as THREE.MeshStandardMaterial
+    : null;
+  const geometryType = selectedObject instanceof THREE.Mesh
+    ? selectedObject.geometry.type.replace(/Geometry$/, '')
+    : selectedObject.type;
+
+  return (
+    <div className="absolute right-72 top-4 bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 p-4 w-64 border border-white/5 max-h-[85vh] overflow-y-auto">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center gap-2 min-w-0">
+          <h2 className="text-lg font-semibold text-white/90 truncate">{entry?.name ?? 'Object'}</h2>
+          <Eye className="w-4 h-4 text-orange-400 flex-shrink-0" />
+        </div>
+        <button
+          onClick={() => setSelectedObject(null)}
+          className="p-1.5 hover:bg-white/10 rounded-lg transition-colors text-white/70"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex justify-between text-sm">
+          <span className="text-white/60">Shape</span>
+          <span className="text-white/90">{geometryType}</span>
+        </div>
+        {group && (
+          <div className="flex justify-between text-sm">
+            <span className="text-white/60">Group</span>
+            <span className="text-white/90 truncate ml-2">{group.name}</span>
+          </div>
+        )}
+        {material && (
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-white/60">Color</span>
+            <span className="flex items-center gap-2 text-white/90">
+              <span
+                className="w-4 h-4 rounded border border-white/20"
+                style={{ backgroundColor: `#${material.color.getHexString()}` }}
+              />
+              #{material.color.getHexString()}
+              {material.opacity < 1 && (
+                <span className="text-white/50">{Math.round(material.opacity * 100)}%</span>
+              )}
+            </span>
+          </div>
+        )}
+
+        <VectorRow label="Position" values={selectedObject.position.toArray()} />
+        <VectorRow
+          label="Rotation (°)"
+          values={[selectedObject.rotation.x, selectedObject.rotation.y, selectedObject.rotation.z].map(THREE.MathUtils.radToDeg)}
+        />
+        <VectorRow label="Scale" values={selectedObject.scale.toArray()} />
+      </div>
+    </div>
+  );
+};
+
+export default ObjectInspector;
@@ -4,7 +4,7 @@ import { X, Lock, Eye, EyeOff } from 'lucide-react';
 import * as THREE from 'three';
 
 const ObjectProperties: React.FC = () => {
-  const { selectedObject, updateObjectProperties, updateObjectColor, updateObjectOpacity, isObjectLocked } = useSceneStore();
+  const { selectedObject, selectedObjects, updateObjectProperties, startTransform, endTransform, updateObjectColor, updateObjectOpacity, isObjectLocked } = useSceneStore();
   const [localOpacity, setLocalOpacity] = useState(1);
   const [showWireframe, setShowWireframe] = useState(false);
   const [wireframeColor, setWireframeColor] = useState('#ffffff');
@@ -65,20 +65,23 @@ const ObjectProperties: React.FC = () => {
 
   const handlePositionChange = (axis: 'x' | 'y' | 'z', value: number) => {
     if (objectLocked) return;
+    startTransform();
     selectedObject.position[axis] = value;
-    updateObjectProperties();
+    endTransform();
   };
 
   const handleRotationChange = (axis: 'x' | 'y' | 'z', value: number) => {
     if (objectLocked) return;
+    startTransform();
     selectedObject.rotation[axis] = (value * Math.PI) / 180;
-    updateObjectProperties();
+    endTransform();
   };
 
   const handleScaleChange = (axis: 'x' | 'y' | 'z', value: number) => {
     if (objectLocked) return;
+    startTransform();
     selectedObject.scale[axis] = value;
-    updateObjectProperties();
+    endTransform();
   };
 
   const handleOpacityChange = (value: number) => {
@@ -388,7 +391,12 @@ const ObjectProperties: React.FC = () => {
         {material && (
           <>
             <div>
-              <h3 className="font-medium mb-2 text-white/70 text-sm">Surface Color</h3>
+              <h3 className="font-medium mb-2 text-white/70 text-sm">
+                Surface Color
+                {selectedObjects.size > 1 && (
+                  <span className="text-white/40 font-normal"> · all {selectedObjects.size} selected</span>
+                )}
+              </h3>
               <div className="flex gap-2">
                 <input
                   type="color"
@@ -0,0 +1,37 @@
+import React, { useEffect, useState } from 'react';
+import { WifiOff } from 'lucide-react';
+import { useSceneStore } from '../store/sceneStore';
+
+const OfflineBadge: React.FC = () => {
+  const { saveStatus, pendingChanges } = useSceneStore();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  if (isOnline && saveStatus !== 'offline') return null;
+
+  const unsynced = pendingChanges.objects.size + pendingChanges.groups.size +
+    pendingChanges.lights.size + pendingChanges.scenes.size;
+
+  return (
+    <div
+      className="flex items-center gap-1 ml-2 px-2 py-0.5 rounded-full bg-red-500/20 border border-red-500/30 text-xs text-red-300"
+      title="Changes are kept on this device and saved when the connection is back"
+    >
+      <WifiOff className="w-3 h-3" />
+      Offline{unsynced > 0 && ` · ${unsynced} unsynced`}
+    </div>
+  );
+};
+
+export default OfflineBadge;
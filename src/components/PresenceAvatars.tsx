@@ -0,0 +1,50 @@
+import React from 'react';
+import { usePresenceStore } from '../store/presenceStore';
+import { useSceneStore } from '../store/sceneStore';
+
+// How many avatars fit before the rest collapse into a "+N" bubble
+const MAX_AVATARS = 4;
+
+// Helper function to turn a display name into one or two initials
+const getInitials = (name: string) =>
+  name
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('') || '?';
+
+const PresenceAvatars: React.FC = () => {
+  const { peers } = usePresenceStore();
+  const { scenes } = useSceneStore();
+
+  if (peers.length === 0) return null;
+
+  const sceneName = (sceneId: string | null) =>
+    scenes.find(scene => scene.id === sceneId)?.name ?? 'another scene';
+
+  return (
+    <div className="flex items-center ml-2 -space-x-2">
+      {peers.slice(0, MAX_AVATARS).map(peer => (
+        <div
+          key={peer.userId}
+          className="w-6 h-6 rounded-full border-2 border-[#1a1a1a] flex items-center justify-center text-[10px] font-semibold text-white"
+          style={{ backgroundColor: peer.color }}
+          title={`${peer.displayName} · ${sceneName(peer.sceneId)}`}
+        >
+          {getInitials(peer.displayName)}
+        </div>
+      ))}
+      {peers.length > MAX_AVATARS && (
+        <div
+          className="w-6 h-6 rounded-full border-2 border-[#1a1a1a] bg-[#2a2a2a] flex items-center justify-center text-[10px] text-white/70"
+          title={peers.slice(MAX_AVATARS).map(peer => peer.displayName).join(', ')}
+        >
+          +{peers.length - MAX_AVATARS}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresenceAvatars;
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { History } from 'lucide-react';
+import { useSceneStore } from '../store/sceneStore';
+
+// Offers to restore changes an earlier session left on this device without saving them
+const RecoveryPrompt: React.FC = () => {
+  const { recoverableWrites, isReadOnly, restoreRecoverableWrites, discardRecoverableWrites } = useSceneStore();
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  if (recoverableWrites.length === 0 || isReadOnly) return null;
+
+  const lastChange = new Date(Math.max(...recoverableWrites.map(entry => entry.queuedAt)));
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    await restoreRecoverableWrites();
+    setIsRestoring(false);
+  };
+
+  return (
+    <div className="fixed top-20 left-1/2 transform -translate-x-1/2 flex items-center gap-3 px-4 py-3 bg-[#1a1a1a] rounded-xl shadow-2xl shadow-black/20 border border-blue-500/30 z-50">
+      <History className="w-5 h-5 text-blue-400" />
+      <div className="text-sm text-white/90">
+        {recoverableWrites.length} unsaved {recoverableWrites.length === 1 ? 'change' : 'changes'} from {lastChange.toLocaleString()} found on this device.
+      </div>
+      <button
+        onClick={handleRestore}
+        disabled={isRestoring}
+        className="px-3 py-1.5 rounded-lg bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-sm text-white transition-colors"
+      >
+        {isRestoring ? 'Restoring...' : 'Restore'}
+      </button>
+      <button
+        onClick={discardRecoverableWrites}
+        disabled={isRestoring}
+        className="px-3 py-1.5 rounded-lg hover:bg-white/10 text-sm text-white/70 transition-colors"
+      >
+        Discard
+      </button>
+    </div>
+  );
+};
+
+export default RecoveryPrompt;
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Save, ListChecks } from 'lucide-react';
+import { RubricCriterion } from '../store/classroomStore';
+
+interface RubricEditorProps {
+  rubric: RubricCriterion[];
+  onSave: (rubric: RubricCriterion[]) => Promise<void>;
+}
+
+const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onSave }) => {
+  const [draft, setDraft] = useState<RubricCriterion[]>(rubric);
+  const [saving, setSaving] = useState(false);
+
+  // Start over from the saved rubric whenever it changes
+  useEffect(() => {
+    setDraft(rubric);
+  }, [rubric]);
+
+  const updateCriterion = (id: string, data: Partial<RubricCriterion>) => {
+    setDraft(criteria => criteria.map(criterion => criterion.id === id ? { ...criterion, ...data } : criterion));
+  };
+
+  const addCriterion = () => {
+    setDraft(criteria => [...criteria, { id: crypto.randomUUID(), title: '', maxPoints: 10 }]);
+  };
+
+  const removeCriterion = (id: string) => {
+    setDraft(criteria => criteria.filter(criterion => criterion.id !== id));
+  };
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rubric);
+  const isValid = draft.every(criterion => criterion.title.trim() && criterion.maxPoints > 0);
+  const totalPoints = draft.reduce((sum, criterion) => sum + (criterion.maxPoints || 0), 0);
+
+  const handleSave = async () => {
+    setSaving(true);
+    // Empty descriptions are left out rather than stored
+    await onSave(draft.map(({ description, ...criterion }) => ({
+      ...criterion,
+      title: criterion.title.trim(),
+      ...(description?.trim() ? { description: description.trim() } : {})
+    })));
+    setSaving(false);
+  };
+
+  return (
+    <div className="bg-[#2a2a2a] rounded-xl border border-white/10 p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-white/90 flex items-center gap-2">
+          <ListChecks className="w-5 h-5 text-blue-400" />
+          Rubric
+          {draft.length > 0 && (
+            <span className="text-sm font-normal text-white/50">{totalPoints} points</span>
+          )}
+        </h3>
+        <button
+          onClick={addCriterion}
+          className="flex items-center gap-1 px-3 py-1 bg-[#1a1a1a] hover:bg-white/10 text-white/90 rounded text-sm font-medium border border-white/10 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Criterion
+        </button>
+      </div>
+
+      {draft.length === 0 ? (
+        <p className="text-sm text-white/50">
+          No criteria yet. Add what the work is graded on, such as accuracy or creativity
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {draft.map((criterion) => (
+            <div key={criterion.id} className="p-3 bg-[#1a1a1a] rounded-lg border border-white/10 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={criterion.title}
+                  onChange={(e) => updateCriterion(criterion.id, { title: e.target.value })}
+                  className="flex-1 py-1.5 px-3 bg-[#2a2a2a] border border-white/10 rounded-lg text-sm text-white/90 placeholder-white/30 focus:outline-none focus:border-blue-500/50"
+                  placeholder="Criterion"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={criterion.maxPoints}
+                  onChange={(e) => updateCriterion(criterion.id, { maxPoints: Number(e.target.value) })}
+                  className="w-20 py-1.5 px-2 bg-[#2a2a2a] border border-white/10 rounded-lg text-sm text-white/90 focus:outline-none focus:border-blue-500/50"
+                  title="Points"
+                />
+                <span className="text-xs text-white/50">pts</span>
+                <button
+                  onClick={() => removeCriterion(criterion.id)}
+                  className="p-1.5 hover:bg-red-500/10 rounded transition-colors text-red-400"
+                  title="Remove Criterion"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              <input
+                type="text"
+                value={criterion.description ?? ''}
+                onChange={(e) => updateCriterion(criterion.id, { description: e.target.value })}
+                className="w-full py-1.5 px-3 bg-[#2a2a2a] border border-white/10 rounded-lg text-xs text-white/70 placeholder-white/30 focus:outline-none focus:border-blue-500/50"
+                placeholder="What earns full points (optional)"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isDirty && (
+        <button
+          onClick={handleSave}
+          disabled={saving || !isValid}
+          className="flex items-center gap-2 mt-4 px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          {saving ? 'Saving...' : 'Save Rubric'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RubricEditor;
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Save, Cloud, Check, AlertCircle, Loader2 } from 'lucide-react';
+import { Save, Cloud, Check, AlertCircle, Loader2, WifiOff } from 'lucide-react';
 import { useSceneStore } from '../store/sceneStore';
 
 interface SaveButtonProps {
@@ -14,6 +14,7 @@ const SaveButton: React.FC<SaveButtonProps> = ({ user, projectId }) => {
     lights, 
     hasUnsavedChanges,
     lastSaved,
+    saveStatus: autosaveStatus,
     saveProjectData,
     markSaved
   } = useSceneStore();
@@ -47,6 +48,13 @@ const SaveButton: React.FC<SaveButtonProps> = ({ user, projectId }) => {
 
     try {
       await saveProjectData();
+
+      // Nothing could be written while offline; the autosave status explains why
+      if (useSceneStore.getState().saveStatus === 'offline') {
+        setSaveStatus('idle');
+        setSaveMessage('');
+        return;
+      }
       
       setSaveStatus('success');
       setSaveMessage(`Saved ${objects.length} objects, ${groups.length} groups, ${lights.length} lights`);
@@ -70,8 +78,22 @@ const SaveButton: React.FC<SaveButtonProps> = ({ user, projectId }) => {
     }
   };
 
+  // A save started by this button takes precedence; otherwise show what autosave is doing
+  const displayStatus = saveStatus !== 'idle'
+    ? saveStatus
+    : autosaveStatus === 'saving'
+      ? 'saving'
+      : autosaveStatus === 'offline'
+        ? 'offline'
+        : autosaveStatus === 'failed'
+          ? 'error'
+          // Until the next edit is waiting to go out
+          : autosaveStatus === 'saved' && !hasUnsavedChanges
+            ? 'success'
+            : 'idle';
+
   const getButtonContent = () => {
-    switch (saveStatus) {
+    switch (displayStatus) {
       case 'saving':
         return (
           <>
@@ -93,6 +115,13 @@ const SaveButton: React.FC<SaveButtonProps> = ({ user, projectId }) => {
             <span className="text-sm font-medium text-red-400">Error</span>
           </>
         );
+      case 'offline':
+        return (
+          <>
+            <WifiOff className="w-5 h-5 text-yellow-400" />
+            <span className="text-sm font-medium text-yellow-400">Offline</span>
+          </>
+        );
       default:
         return (
           <>
@@ -109,13 +138,15 @@ const SaveButton: React.FC<SaveButtonProps> = ({ user, projectId }) => {
   const getButtonStyles = () => {
     const baseStyles = "flex items-center gap-2 px-4 py-3 rounded-xl shadow-2xl shadow-black/20 border transition-all duration-200 font-medium";
     
-    switch (saveStatus) {
+    switch (displayStatus) {
       case 'saving':
         return `${baseStyles} bg-blue-500/20 border-blue-500/30 text-blue-400 cursor-wait`;
       case 'success':
         return `${baseStyles} bg-green-500/20 border-green-500/30 text-green-400 hover:bg-green-500/30 hover:scale-105 active:scale-95`;
       case 'error':
         return `${baseStyles} bg-red-500/20 border-red-500/30 text-red-400 hover:bg-red-500/30 hover:scale-105 active:scale-95`;
+      case 'offline':
+        return `${baseStyles} bg-yellow-500/20 border-yellow-500/30 text-yellow-400 hover:bg-yellow-500/30`;
       default:
         if (hasUnsavedChanges) {
           return `${baseStyles} bg-orange-500/20 border-orange-500/30 text-orange-400 hover:bg-orange-500/30 hover:scale-105 active:scale-95`;
@@ -124,7 +155,7 @@ const SaveButton: React.FC<SaveButtonProps> = ({ user, projectId }) => {
     }
   };
 
-  const isDisabled = saveStatus === 'saving' || !user || !projectId;
+  const isDisabled = displayStatus === 'saving' || !user || !projectId;
   const hasContent = objects.length > 0 || groups.length > 0 || lights.length > 0;
 
   return (
@@ -132,18 +163,22 @@ const SaveButton: React.FC<SaveButtonProps> = ({ user, projectId }) => {
       <div className="flex flex-col items-start gap-2">
         <button
           onClick={handleSave}
-          disabled={isDisabled || !hasContent}
+          disabled={isDisabled || (!hasContent && !hasUnsavedChanges)}
           className={getButtonStyles()}
           title={
             !user
               ? 'Sign in to save'
               : !projectId
                 ? 'Select a project to save'
-                : !hasContent 
+                : !hasContent && !hasUnsavedChanges
                   ? 'No content to save' 
-                  : saveStatus === 'saving' 
+                  : displayStatus === 'saving' 
                     ? 'Saving to Firebase...' 
-                    : hasUnsavedChanges
+                    : displayStatus === 'offline'
+                      ? 'Changes will be saved when you are back online'
+                      : displayStatus === 'error'
+                        ? 'Saving failed, retrying automatically. Click to try now'
+                        : hasUnsavedChanges
                       ? 'Save unsaved changes to Firebase'
                       : 'Save current scene to Firebase'
           }
@@ -165,7 +200,7 @@ const SaveButton: React.FC<SaveButtonProps> = ({ user, projectId }) => {
         )}
         
         {/* Scene Info */}
-        {hasContent && saveStatus === 'idle' && user && projectId && (
+        {hasContent && displayStatus === 'idle' && user && projectId && (
           <div className="bg-[#1a1a1a]/90 border border-white/10 rounded-lg px-3 py-2 text-xs text-white/60">
             <div className="flex items-center gap-4">
               {objects.length > 0 && (
@@ -1,9 +1,12 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Canvas, useThree, useFrame } from '@react-three/fiber';
-import { OrbitControls, TransformControls, Grid } from '@react-three/drei';
+import { OrbitControls, TransformControls, Grid, Billboard } from '@react-three/drei';
 import { useSceneStore } from '../store/sceneStore';
+import { usePresenceStore } from '../store/presenceStore';
+import { useAnnotationStore, AnnotationAnchor } from '../store/annotationStore';
 import LightHelpers from './LightHelpers';
 import * as THREE from 'three';
+import { getPlanarFace, getNearestEdge, getFacePolygon } from '../utils/meshEditing';
 
 const VertexCoordinates = ({ position, onPositionChange }) => {
   const [localPosition, setLocalPosition] = useState({ x: 0, y: 0, z: 0 });
@@ -582,6 +585,329 @@ const EditModeOverlay = () => {
   );
 };
 
+// Highlights the faces picked for extrusion and the edge picked for bevelling
+const MeshSelectionHighlight = () => {
+  const { selectedObject, editMode, selectedElements } = useSceneStore();
+
+  if (!(selectedObject instanceof THREE.Mesh)) return null;
+
+  const geometry = selectedObject.geometry;
+  const positions = geometry.attributes.position;
+  const index = geometry.index;
+  const worldMatrix = selectedObject.matrixWorld;
+  const vertexAt = (i: number) => new THREE.Vector3().fromBufferAttribute(positions, i).applyMatrix4(worldMatrix);
+
+  if ((editMode === 'extrude' || editMode === 'face') && selectedElements.faces.length > 0) {
+    const points: THREE.Vector3[] = [];
+    selectedElements.faces.forEach((face) => {
+      for (let k = 0; k < 3; k++) {
+        points.push(vertexAt(index ? index.getX(face * 3 + k) : face * 3 + k));
+      }
+    });
+    const highlightGeometry = new THREE.BufferGeometry().setFromPoints(points);
+
+    return (
+      <mesh geometry={highlightGeometry} renderOrder={1}>
+        <meshBasicMaterial
+          color="#ff8800"
+          transparent
+          opacity={0.5}
+          side={THREE.DoubleSide}
+          polygonOffset
+          polygonOffsetFactor={-1}
+          depthWrite={false}
+        />
+      </mesh>
+    );
+  }
+
+  if (editMode === 'bevel' && selectedElements.edges.length === 2) {
+    const edgeLine = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints(selectedElements.edges.map(vertexAt)),
+      new THREE.LineBasicMaterial({ color: '#ff8800', depthTest: false })
+    );
+
+    return (
+      <group>
+        <primitive object={edgeLine} />
+        {selectedElements.edges.map((vertex) => (
+          <mesh key={vertex} position={vertexAt(vertex)}>
+            <sphereGeometry args={[0.04]} />
+            <meshBasicMaterial color="#ff8800" depthTest={false} />
+          </mesh>
+        ))}
+      </group>
+    );
+  }
+
+  return null;
+};
+
+// Face mode: hover to highlight a triangle or quad, click to select (Shift+click to add
+// or remove), and drag a selected face to slide the selection along its averaged normal
+const FaceEditController = () => {
+  const { selectedObject, editMode, isObjectLocked } = useSceneStore();
+  const { camera, raycaster, gl, controls } = useThree();
+  const [hoveredFaces, setHoveredFaces] = useState<number[]>([]);
+
+  useEffect(() => {
+    if (editMode !== 'face' || !(selectedObject instanceof THREE.Mesh)) {
+      setHoveredFaces([]);
+      return;
+    }
+
+    const mesh = selectedObject;
+    const element = gl.domElement;
+    const selectedObj = useSceneStore.getState().objects.find(obj => obj.object === mesh);
+    const objectLocked = selectedObj ? isObjectLocked(selectedObj.id) : false;
+    const orbitControls = controls as unknown as { enabled: boolean } | null;
+
+    let press: { x: number; y: number; faces: number[] | null; onSelection: boolean } | null = null;
+    let isDragging = false;
+    let dragAxis: { origin: THREE.Vector3; direction: THREE.Vector3; startParameter: number } | null = null;
+    let lastPickedTriangle = -1;
+    let lastPickedFaces: number[] = [];
+
+    const setRayFromEvent = (event: PointerEvent) => {
+      const rect = element.getBoundingClientRect();
+      raycaster.setFromCamera(new THREE.Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      ), camera);
+    };
+
+    const pickFaces = (event: PointerEvent): number[] | null => {
+      setRayFromEvent(event);
+      const hit = raycaster.intersectObject(mesh, false)[0];
+      if (!hit || hit.faceIndex === undefined || hit.faceIndex === null) return null;
+
+      // Rebuilding the polygon is only needed when the pointer moves onto another triangle
+      if (hit.faceIndex !== lastPickedTriangle) {
+        lastPickedTriangle = hit.faceIndex;
+        lastPickedFaces = getFacePolygon(mesh.geometry, hit.faceIndex);
+      }
+      return lastPickedFaces;
+    };
+
+    // Helper function to find how far along the drag axis the pointer ray passes closest
+    const axisParameter = (axis: { origin: THREE.Vector3; direction: THREE.Vector3 }) => {
+      const ray = raycaster.ray;
+      const w0 = axis.origin.clone().sub(ray.origin);
+      const a = axis.direction.dot(axis.direction);
+      const b = axis.direction.dot(ray.direction);
+      const c = ray.direction.dot(ray.direction);
+      const d = axis.direction.dot(w0);
+      const e = ray.direction.dot(w0);
+      const denominator = a * c - b * b;
+      if (Math.abs(denominator) < 1e-8) return null; // Looking straight down the axis
+      return (b * e - c * d) / denominator;
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 0) return;
+
+      const faces = pickFaces(event);
+      const { selectedElements } = useSceneStore.getState();
+      const onSelection = !!faces && !event.shiftKey && !objectLocked &&
+        faces.some(face => selectedElements.faces.includes(face));
+
+      press = { x: event.clientX, y: event.clientY, faces, onSelection };
+
+      // Keep the camera still while dragging faces
+      if (onSelection && orbitControls) {
+        orbitControls.enabled = false;
+      }
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (press?.onSelection) {
+        const moved = Math.hypot(event.clientX - press.x, event.clientY - press.y) > 4;
+
+        if (!isDragging && moved) {
+          useSceneStore.getState().startFaceDrag();
+          const { draggedFaces } = useSceneStore.getState();
+          if (!draggedFaces) return;
+
+          // The axis lives in world space, but is parameterised in local units so the
+          // parameter can be applied to the local vertex positions directly
+          mesh.updateMatrixWorld();
+          const origin = draggedFaces.center.clone().applyMatrix4(mesh.matrixWorld);
+          const direction = draggedFaces.normal.clone().applyMatrix3(new THREE.Matrix3().setFromMatrix4(mesh.matrixWorld));
+          setRayFromEvent(event);
+          const startParameter = axisParameter({ origin, direction });
+          if (startParameter === null) return;
+
+          dragAxis = { origin, direction, startParameter };
+          isDragging = true;
+          setHoveredFaces([]);
+          element.style.cursor = 'grabbing';
+        }
+
+        if (isDragging && dragAxis) {
+          setRayFromEvent(event);
+          const parameter = axisParameter(dragAxis);
+          if (parameter !== null) {
+            useSceneStore.getState().updateFaceDrag(parameter - dragAxis.startParameter);
+          }
+        }
+        return;
+      }
+
+      if (!press) {
+        setHoveredFaces(pickFaces(event) ?? []);
+      }
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (event.button !== 0 || !press) return;
+
+      if (isDragging) {
+        useSceneStore.getState().endFaceDrag();
+        lastPickedTriangle = -1;
+      } else if (Math.hypot(event.clientX - press.x, event.clientY - press.y) <= 4) {
+        // A click rather than an orbit drag: update the selection
+        const { selectedElements, setSelectedElements } = useSceneStore.getState();
+        if (press.faces) {
+          const faces = press.faces;
+          const isSelected = faces.every(face => selectedElements.faces.includes(face));
+          if (event.shiftKey) {
+            setSelectedElements('faces', isSelected
+              ? selectedElements.faces.filter(face => !faces.includes(face))
+              : Array.from(new Set([...selectedElements.faces, ...faces])));
+          } else {
+            setSelectedElements('faces', faces);
+          }
+        } else if (!event.shiftKey) {
+          setSelectedElements('faces', []);
+        }
+      }
+
+      if (orbitControls) {
+        orbitControls.enabled = true;
+      }
+      element.style.cursor = '';
+      press = null;
+      isDragging = false;
+      dragAxis = null;
+    };
+
+    element.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+
+    return () => {
+      element.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      if (orbitControls) {
+        orbitControls.enabled = true;
+      }
+      element.style.cursor = '';
+    };
+  }, [editMode, selectedObject, camera, raycaster, gl, controls, isObjectLocked]);
+
+  if (editMode !== 'face' || !(selectedObject instanceof THREE.Mesh) || hoveredFaces.length === 0) return null;
+
+  const geometry = selectedObject.geometry;
+  const positions = geometry.attributes.position;
+  const index = geometry.index;
+  const points: THREE.Vector3[] = [];
+  hoveredFaces.forEach((face) => {
+    for (let k = 0; k < 3; k++) {
+      const vertex = index ? index.getX(face * 3 + k) : face * 3 + k;
+      points.push(new THREE.Vector3().fromBufferAttribute(positions, vertex).applyMatrix4(selectedObject.matrixWorld));
+    }
+  });
+
+  return (
+    <mesh geometry={new THREE.BufferGeometry().setFromPoints(points)} renderOrder={1}>
+      <meshBasicMaterial
+        color="#ffff00"
+        transparent
+        opacity={0.25}
+        side={THREE.DoubleSide}
+        polygonOffset
+        polygonOffsetFactor={-1}
+        depthWrite={false}
+      />
+    </mesh>
+  );
+};
+
+// Places NURBS control points on objects or the ground and previews the control polygon
+const ControlPointEditor = () => {
+  const { editMode, controlPoints, addControlPoint, objects } = useSceneStore();
+  const { camera, raycaster, gl } = useThree();
+  const isActive = editMode === 'nurbs' || editMode === 'curve';
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const element = gl.domElement;
+    const downPosition = { x: 0, y: 0 };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      downPosition.x = event.clientX;
+      downPosition.y = event.clientY;
+    };
+
+    const handleClick = (event: MouseEvent) => {
+      // Ignore the end of an orbit drag
+      if (Math.hypot(event.clientX - downPosition.x, event.clientY - downPosition.y) > 4) return;
+
+      const rect = element.getBoundingClientRect();
+      raycaster.setFromCamera(new THREE.Vector2(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1
+      ), camera);
+
+      // Snap onto existing objects first, then fall back to the ground plane
+      const intersects = raycaster.intersectObjects(
+        objects.filter(obj => obj.visible).map(obj => obj.object),
+        true
+      );
+
+      if (intersects.length > 0) {
+        addControlPoint(intersects[0].point);
+        return;
+      }
+
+      const groundPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+      const intersection = new THREE.Vector3();
+      if (raycaster.ray.intersectPlane(groundPlane, intersection)) {
+        addControlPoint(intersection);
+      }
+    };
+
+    element.addEventListener('pointerdown', handlePointerDown);
+    element.addEventListener('click', handleClick);
+
+    return () => {
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('click', handleClick);
+    };
+  }, [isActive, camera, raycaster, gl, objects, addControlPoint]);
+
+  if (!isActive || controlPoints.length === 0) return null;
+
+  const controlPolygon = new THREE.Line(
+    new THREE.BufferGeometry().setFromPoints(controlPoints),
+    new THREE.LineBasicMaterial({ color: '#4a90e2', transparent: true, opacity: 0.6 })
+  );
+
+  return (
+    <group>
+      {controlPoints.length > 1 && <primitive object={controlPolygon} />}
+      {controlPoints.map((point, i) => (
+        <mesh key={i} position={point}>
+          <sphereGeometry args={[0.06]} />
+          <meshBasicMaterial color={i === 0 ? '#00ff88' : '#4a90e2'} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
 // Scene Lights Component
 const SceneLights = () => {
   const { lights } = useSceneStore();
@@ -598,6 +924,285 @@ const SceneLights = () => {
 };
 
 // Camera controller component
+// Draws a box around every object in a multi-selection
+const SelectionOutlines = () => {
+  const { objects, selectedObjects } = useSceneStore();
+
+  const helpers = useMemo(() => {
+    if (selectedObjects.size < 2) return [];
+    return objects
+      .filter(obj => selectedObjects.has(obj.id) && obj.visible)
+      .map(({ object }) => new THREE.BoxHelper(object, '#3b82f6'));
+  }, [objects, selectedObjects]);
+
+  useEffect(() => () => {
+    helpers.forEach((helper) => {
+      helper.geometry.dispose();
+      (helper.material as THREE.Material).dispose();
+    });
+  }, [helpers]);
+
+  // Follow the objects while they are being transformed
+  useFrame(() => {
+    helpers.forEach(helper => helper.update());
+  });
+
+  return (
+    <>
+      {helpers.map(helper => (
+        <primitive key={helper.uuid} object={helper} />
+      ))}
+    </>
+  );
+};
+
+// Shows where collaborators are: their selections outlined in their color and their cameras as frustums
+const RemotePresence = () => {
+  const { objects, currentSceneId } = useSceneStore();
+  const { peers, reportCamera } = usePresenceStore();
+  const { camera } = useThree();
+
+  const peersHere = useMemo(
+    () => peers.filter(peer => peer.sceneId === currentSceneId),
+    [peers, currentSceneId]
+  );
+
+  const outlines = useMemo(() => peersHere.flatMap(peer =>
+    objects
+      .filter(obj => peer.selectedObjectIds.includes(obj.id) && obj.visible)
+      .map(({ object }) => new THREE.BoxHelper(object, peer.color))
+  ), [objects, peersHere]);
+
+  const frustums = useMemo(() => peersHere.flatMap(peer => {
+    if (!peer.camera) return [];
+
+    // A short near/far range keeps the marker small instead of spanning the whole scene
+    const peerCamera = new THREE.PerspectiveCamera(peer.camera.fov, peer.camera.aspect, 0.1, 1);
+    peerCamera.position.fromArray(peer.camera.position);
+    peerCamera.quaternion.fromArray(peer.camera.quaternion);
+    peerCamera.updateMatrixWorld();
+
+    const helper = new THREE.CameraHelper(peerCamera);
+    const color = new THREE.Color(peer.color);
+    helper.setColors(color, color, color, color, color);
+    helper.update();
+    return [helper];
+  }), [peersHere]);
+
+  useEffect(() => () => {
+    [...outlines, ...frustums].forEach((helper) => {
+      helper.geometry.dispose();
+      (helper.material as THREE.Material).dispose();
+    });
+  }, [outlines, frustums]);
+
+  useFrame(() => {
+    outlines.forEach(helper => helper.update());
+    reportCamera(camera);
+  });
+
+  return (
+    <>
+      {outlines.map(helper => (
+        <primitive key={helper.uuid} object={helper} />
+      ))}
+      {frustums.map(helper => (
+        <primitive key={helper.uuid} object={helper} />
+      ))}
+    </>
+  );
+};
+
+// Transforms a multi-selection together around a shared pivot at the centre of its bounds
+const SelectionTransformControls = () => {
+  const { objects, selectedObjects, transformMode, startTransform, endTransform } = useSceneStore();
+  const pivot = useMemo(() => new THREE.Object3D(), []);
+  const dragStart = useRef<{ inversePivot: THREE.Matrix4; matrices: Map<THREE.Object3D, THREE.Matrix4> } | null>(null);
+
+  const selected = useMemo(
+    () => objects.filter(obj => selectedObjects.has(obj.id) && obj.visible).map(obj => obj.object),
+    [objects, selectedObjects]
+  );
+
+  // Re-centre the pivot whenever the selection changes
+  useEffect(() => {
+    const bounds = new THREE.Box3();
+    selected.forEach(object => bounds.expandByObject(object));
+    if (!bounds.isEmpty()) {
+      bounds.getCenter(pivot.position);
+    }
+    pivot.rotation.set(0, 0, 0);
+    pivot.scale.set(1, 1, 1);
+    pivot.updateMatrixWorld();
+  }, [selected, pivot]);
+
+  if (!transformMode || selected.length < 2) return null;
+
+  return (
+    <>
+      <primitive object={pivot} />
+      <TransformControls
+        object={pivot}
+        mode={transformMode}
+        onMouseDown={() => {
+          startTransform();
+          pivot.updateMatrixWorld();
+          dragStart.current = {
+            inversePivot: pivot.matrixWorld.clone().invert(),
+            matrices: new Map(selected.map((object) => {
+              object.updateMatrix();
+              return [object, object.matrix.clone()];
+            }))
+          };
+        }}
+        onObjectChange={() => {
+          if (!dragStart.current) return;
+
+          // Apply the pivot's change since the drag started to every selected object
+          pivot.updateMatrixWorld();
+          const delta = pivot.matrixWorld.clone().multiply(dragStart.current.inversePivot);
+          dragStart.current.matrices.forEach((matrix, object) => {
+            object.matrix.multiplyMatrices(delta, matrix);
+            object.matrix.decompose(object.position, object.quaternion, object.scale);
+          });
+        }}
+        onMouseUp={() => {
+          if (!dragStart.current) return;
+          dragStart.current = null;
+          endTransform();
+        }}
+      />
+    </>
+  );
+};
+
+interface MarqueeRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Shift+drag on the canvas draws a marquee that adds the objects inside it to the selection
+const MarqueeSelection = ({ onRectChange }: { onRectChange: (rect: MarqueeRect | null) => void }) => {
+  const { editMode, placementMode } = useSceneStore();
+  const { camera, gl, controls } = useThree();
+
+  useEffect(() => {
+    // Placement and the element picking modes use Shift+click for themselves
+    if (placementMode || (editMode && editMode !== 'vertex' && editMode !== 'edge')) return;
+
+    const element = gl.domElement;
+    const orbitControls = controls as unknown as { enabled: boolean } | null;
+    let start: { x: number; y: number } | null = null;
+
+    const setOrbitEnabled = (enabled: boolean) => {
+      if (orbitControls) {
+        orbitControls.enabled = enabled;
+      }
+    };
+
+    const toLocal = (event: PointerEvent) => {
+      const bounds = element.getBoundingClientRect();
+      return { x: event.clientX - bounds.left, y: event.clientY - bounds.top };
+    };
+
+    const toRect = (event: PointerEvent): MarqueeRect | null => {
+      if (!start) return null;
+      const end = toLocal(event);
+      return {
+        left: Math.min(start.x, end.x),
+        top: Math.min(start.y, end.y),
+        width: Math.abs(end.x - start.x),
+        height: Math.abs(end.y - start.y)
+      };
+    };
+
+    // Helper function to find the objects whose centre projects inside the marquee
+    const objectsInRect = (rect: MarqueeRect) => {
+      const { width, height } = element.getBoundingClientRect();
+      const center = new THREE.Vector3();
+
+      return useSceneStore.getState().objects
+        .filter(({ object, visible }) => {
+          if (!visible) return false;
+          new THREE.Box3().setFromObject(object).getCenter(center).project(camera);
+          if (center.z > 1) return false; // Behind the camera
+
+          const x = ((center.x + 1) / 2) * width;
+          const y = ((1 - center.y) / 2) * height;
+          return x >= rect.left && x <= rect.left + rect.width &&
+            y >= rect.top && y <= rect.top + rect.height;
+        })
+        .map(obj => obj.id);
+    };
+
+    // Holding Shift keeps the camera still so the drag draws a marquee instead of orbiting
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Shift') setOrbitEnabled(false);
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.key === 'Shift' && !start) setOrbitEnabled(true);
+    };
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (event.button !== 0 || !event.shiftKey) return;
+      start = toLocal(event);
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      if (start) {
+        onRectChange(toRect(event));
+      }
+    };
+
+    const handlePointerUp = (event: PointerEvent) => {
+      if (!start) return;
+
+      const rect = toRect(event);
+      start = null;
+      onRectChange(null);
+      if (!event.shiftKey) setOrbitEnabled(true);
+
+      // Short drags are Shift+clicks, which the objects handle themselves
+      if (!rect || (rect.width < 4 && rect.height < 4)) return;
+
+      const { selectedObjects, setSelectedObjects } = useSceneStore.getState();
+      const hits = objectsInRect(rect);
+      if (hits.length > 0) {
+        setSelectedObjects([...Array.from(selectedObjects), ...hits]);
+      }
+    };
+
+    const handleBlur = () => {
+      start = null;
+      onRectChange(null);
+      setOrbitEnabled(true);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    element.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      element.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      setOrbitEnabled(true);
+      onRectChange(null);
+    };
+  }, [editMode, placementMode, camera, gl, controls, onRectChange]);
+
+  return null;
+};
+
 const CameraController = () => {
   const { camera } = useThree();
   const { cameraPerspective, cameraZoom } = useSceneStore();
@@ -1017,13 +1622,223 @@ const PlacementHelper = () => {
   );
 };
 
+const ANNOTATION_COLORS = {
+  open: '#f59e0b',
+  resolved: '#22c55e',
+  active: '#3b82f6'
+};
+
+// Helper function to draw the numbered face of an annotation pin
+const createPinTexture = (label: string, color: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 64;
+  canvas.height = 64;
+  const context = canvas.getContext('2d');
+  if (context) {
+    context.beginPath();
+    context.arc(32, 32, 28, 0, Math.PI * 2);
+    context.fillStyle = color;
+    context.fill();
+    context.lineWidth = 4;
+    context.strokeStyle = '#ffffff';
+    context.stroke();
+    context.fillStyle = '#ffffff';
+    context.font = 'bold 28px sans-serif';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(label, 32, 34);
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+};
+
+// An annotation drawn as a billboard that always faces the camera. Pins dropped on an
+// object follow it when it moves
+const AnnotationPin = ({ anchor, target, label, color, onSelect }: {
+  anchor: AnnotationAnchor;
+  target?: THREE.Object3D;
+  label: string;
+  color: string;
+  onSelect?: () => void;
+}) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const { gl } = useThree();
+  const texture = useMemo(() => createPinTexture(label, color), [label, color]);
+
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  useFrame(() => {
+    if (!groupRef.current || !target || !anchor.localPosition) return;
+    const { x, y, z } = anchor.localPosition;
+    groupRef.current.position.copy(target.localToWorld(new THREE.Vector3(x, y, z)));
+  });
+
+  return (
+    <group ref={groupRef} position={[anchor.position.x, anchor.position.y, anchor.position.z]}>
+      <Billboard>
+        {/* Drawn over the model so pins on the far side can still be found */}
+        <mesh
+          renderOrder={1000}
+          onClick={(e) => {
+            if (!onSelect) return;
+            e.stopPropagation();
+            onSelect();
+          }}
+          onPointerOver={() => {
+            if (onSelect) gl.domElement.style.cursor = 'pointer';
+          }}
+          onPointerOut={() => {
+            if (onSelect) gl.domElement.style.cursor = '';
+          }}
+        >
+          <planeGeometry args={[0.35, 0.35]} />
+          <meshBasicMaterial map={texture} transparent depthTest={false} />
+        </mesh>
+      </Billboard>
+    </group>
+  );
+};
+
+// The current scene's annotations, numbered in the order they were added
+const AnnotationPins = () => {
+  const { objects, currentSceneId } = useSceneStore();
+  const { annotations, draftAnchor, activeAnnotationId, showResolved, setActiveAnnotation } = useAnnotationStore();
+
+  const findTarget = (objectId?: string) => objectId ? objects.find(obj => obj.id === objectId)?.object : undefined;
+
+  return (
+    <>
+      {annotations.map((annotation, index) => {
+        if (annotation.sceneId && annotation.sceneId !== currentSceneId) return null;
+        if (annotation.resolved && !showResolved && annotation.id !== activeAnnotationId) return null;
+
+        return (
+          <AnnotationPin
+            key={annotation.id}
+            anchor={annotation}
+            target={findTarget(annotation.objectId)}
+            label={String(index + 1)}
+            color={annotation.id === activeAnnotationId
+              ? ANNOTATION_COLORS.active
+              : annotation.resolved ? ANNOTATION_COLORS.resolved : ANNOTATION_COLORS.open}
+            onSelect={() => setActiveAnnotation(annotation.id as string)}
+          />
+        );
+      })}
+      {draftAnchor && (
+        <AnnotationPin
+          anchor={draftAnchor}
+          target={findTarget(draftAnchor.objectId)}
+          label="+"
+          color={ANNOTATION_COLORS.active}
+        />
+      )}
+    </>
+  );
+};
+
+// Picks the spot for a new annotation with the same raycasting as object placement: the
+// surface under the cursor, or the ground when there is none
+const AnnotationPlacer = () => {
+  const { objects } = useSceneStore();
+  const { isPlacing, setPlacing, setDraftAnchor } = useAnnotationStore();
+  const { camera, raycaster, pointer, gl } = useThree();
+  const [hoverAnchor, setHoverAnchor] = useState<AnnotationAnchor | null>(null);
+
+  useEffect(() => {
+    if (!isPlacing) {
+      setHoverAnchor(null);
+      return;
+    }
+
+    const visibleObjects = objects.filter(obj => obj.visible);
+    const toVector = ({ x, y, z }: THREE.Vector3) => ({ x, y, z });
+
+    // Helper function to find the scene object a hit belongs to, since models are made of parts
+    const findEntry = (hit: THREE.Object3D) => {
+      for (let node: THREE.Object3D | null = hit; node; node = node.parent) {
+        const current = node;
+        const entry = visibleObjects.find(obj => obj.object === current);
+        if (entry) return entry;
+      }
+      return undefined;
+    };
+
+    const pick = (): AnnotationAnchor | null => {
+      raycaster.setFromCamera(pointer, camera);
+
+      const intersects = raycaster.intersectObjects(visibleObjects.map(obj => obj.object), true);
+      if (intersects.length > 0) {
+        const { point, object } = intersects[0];
+        const entry = findEntry(object);
+        return entry
+          ? { position: toVector(point), objectId: entry.id, localPosition: toVector(entry.object.worldToLocal(point.clone())) }
+          : { position: toVector(point) };
+      }
+
+      // Check intersection with ground plane at Y=0
+      const groundPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+      const intersection = new THREE.Vector3();
+      return raycaster.ray.intersectPlane(groundPlane, intersection) ? { position: toVector(intersection) } : null;
+    };
+
+    const handlePointerMove = () => {
+      setHoverAnchor(pick());
+    };
+
+    const handleClick = (event: MouseEvent) => {
+      // Clicks on the panels over the canvas don't drop a pin
+      if (event.button !== 0 || event.target !== gl.domElement) return;
+      const anchor = pick();
+      if (anchor) {
+        setDraftAnchor(anchor);
+      }
+    };
+
+    const handleRightClick = (event: MouseEvent) => {
+      event.preventDefault();
+      setPlacing(false);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setPlacing(false);
+      }
+    };
+
+    gl.domElement.style.cursor = 'crosshair';
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('click', handleClick);
+    window.addEventListener('contextmenu', handleRightClick);
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      gl.domElement.style.cursor = '';
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('click', handleClick);
+      window.removeEventListener('contextmenu', handleRightClick);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isPlacing, objects, camera, raycaster, pointer, gl, setPlacing, setDraftAnchor]);
+
+  if (!isPlacing || !hoverAnchor) return null;
+
+  return <AnnotationPin anchor={hoverAnchor} label="+" color={ANNOTATION_COLORS.active} />;
+};
+
 const Scene: React.FC = () => {
   const { 
     objects, 
     lights,
     selectedLight,
     selectedObject, 
+    selectedObjects,
     setSelectedObject, 
+    toggleObjectSelection,
+    startTransform,
+    endTransform,
     transformMode, 
     editMode, 
     draggedVertex, 
@@ -1033,10 +1848,13 @@ const Scene: React.FC = () => {
     updateEdgeDrag,
     canSelectObject,
     placementMode,
-    sceneSettings
+    sceneSettings,
+    setSelectedElements
   } = useSceneStore();
+  const isAnnotating = useAnnotationStore(state => state.isPlacing);
   const [selectedPosition, setSelectedPosition] = useState<THREE.Vector3 | null>(null);
   const [selectedEdgePosition, setSelectedEdgePosition] = useState<THREE.Vector3 | null>(null);
+  const [marqueeRect, setMarqueeRect] = useState<MarqueeRect | null>(null);
 
   useEffect(() => {
     if (editMode === 'vertex' && selectedObject instanceof THREE.Mesh) {
@@ -1087,6 +1905,20 @@ const Scene: React.FC = () => {
     }
   };
 
+  // Pick a face (extrude) or an edge (bevel) on the selected mesh
+  const handleElementPick = (mesh: THREE.Mesh, faceIndex: number, point: THREE.Vector3, additive: boolean) => {
+    if (editMode === 'extrude') {
+      const face = getPlanarFace(mesh.geometry, faceIndex);
+      const faces = additive
+        ? Array.from(new Set([...selectedElements.faces, ...face]))
+        : face;
+      setSelectedElements('faces', faces);
+    } else if (editMode === 'bevel') {
+      const localPoint = mesh.worldToLocal(point.clone());
+      setSelectedElements('edges', getNearestEdge(mesh.geometry, faceIndex, localPoint));
+    }
+  };
+
   const handleEdgePositionChange = (newPosition: THREE.Vector3) => {
     if (selectedObject instanceof THREE.Mesh && draggedEdge) {
       updateEdgeDrag(newPosition);
@@ -1140,6 +1972,28 @@ const Scene: React.FC = () => {
               receiveShadow
               onClick={(e) => {
                 e.stopPropagation();
+                // Control point placement and annotation pins handle their own clicks
+                if (editMode === 'nurbs' || editMode === 'curve' || isAnnotating) return;
+
+                // Face mode picks faces on the selected mesh itself
+                if (editMode === 'face' && object === selectedObject) return;
+
+                if (
+                  (editMode === 'extrude' || editMode === 'bevel') &&
+                  object === selectedObject &&
+                  object instanceof THREE.Mesh &&
+                  e.faceIndex !== undefined
+                ) {
+                  handleElementPick(object, e.faceIndex, e.point, e.shiftKey);
+                  return;
+                }
+
+                // Shift+click adds or removes objects from the selection
+                if (!placementMode && e.shiftKey) {
+                  toggleObjectSelection(object);
+                  return;
+                }
+
                 if (!placementMode && canSelectObject(object)) {
                   setSelectedObject(object);
                 }
@@ -1148,18 +2002,40 @@ const Scene: React.FC = () => {
           )
         ))}
 
-        {selectedObject && transformMode && canSelectObject(selectedObject) && !placementMode && (
+        {selectedObject && transformMode && canSelectObject(selectedObject) && !placementMode && selectedObjects.size <= 1 && (
           <TransformControls
             object={selectedObject}
             mode={transformMode}
+            onMouseDown={startTransform}
+            onMouseUp={endTransform}
           />
         )}
+        {!placementMode && <SelectionTransformControls />}
+        <SelectionOutlines />
+        <RemotePresence />
+        <MarqueeSelection onRectChange={setMarqueeRect} />
 
         <EditModeOverlay />
+        <MeshSelectionHighlight />
+        <FaceEditController />
+        <ControlPointEditor />
         <PlacementHelper />
+        <AnnotationPlacer />
+        <AnnotationPins />
         <LightHelpers lights={lights} selectedLight={selectedLight} />
         <CameraController />
       </Canvas>
+      {marqueeRect && (
+        <div
+          className="absolute border border-blue-400 bg-blue-500/10 pointer-events-none"
+          style={{
+            left: marqueeRect.left,
+            top: marqueeRect.top,
+            width: marqueeRect.width,
+            height: marqueeRect.height
+          }}
+        />
+      )}
       {editMode === 'vertex' && selectedPosition && (
         <VertexCoordinates 
           position={selectedPosition}
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Clapperboard, ChevronDown, ChevronUp, Copy, Edit2, Plus, Check } from 'lucide-react';
+import { useSceneStore } from '../store/sceneStore';
+
+const SceneSwitcher: React.FC = () => {
+  const {
+    scenes,
+    currentSceneId,
+    isReadOnly,
+    switchScene,
+    createScene,
+    renameScene,
+    moveScene,
+    duplicateScene
+  } = useSceneStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const currentScene = scenes.find(scene => scene.id === currentSceneId);
+  if (!currentScene) return null;
+
+  const startEditing = (sceneId: string, name: string) => {
+    setEditingId(sceneId);
+    setEditingName(name);
+  };
+
+  const saveEdit = () => {
+    if (editingId) {
+      renameScene(editingId, editingName);
+    }
+    setEditingId(null);
+    setEditingName('');
+  };
+
+  const handleSwitch = (sceneId: string) => {
+    setIsOpen(false);
+    switchScene(sceneId);
+  };
+
+  const handleDuplicate = (sceneId: string) => {
+    setIsOpen(false);
+    duplicateScene(sceneId);
+  };
+
+  const handleCreate = () => {
+    setIsOpen(false);
+    createScene();
+  };
+
+  const iconButton = (enabled: boolean) =>
+    `p-1 rounded transition-colors ${
+      enabled ? 'text-white/60 hover:bg-white/10 hover:text-white' : 'text-white/20 cursor-not-allowed'
+    }`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-3 bg-[#1a1a1a] hover:bg-[#2a2a2a] rounded-xl shadow-2xl shadow-black/20 border border-white/5 transition-all duration-200"
+        title="Switch Scene"
+      >
+        <div className="p-2 bg-purple-500/20 rounded-lg">
+          <Clapperboard className="w-5 h-5 text-purple-400" />
+        </div>
+        <div className="hidden sm:block text-left">
+          <div className="text-sm font-medium text-white/90 max-w-40 truncate">{currentScene.name}</div>
+          <div className="text-xs text-white/60">
+            Scene {scenes.indexOf(currentScene) + 1} of {scenes.length}
+          </div>
+        </div>
+        <ChevronDown className="w-4 h-4 text-white/60" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 bg-[#2a2a2a] border border-white/10 rounded-lg shadow-lg z-50 min-w-72 py-1">
+          <div className="px-3 py-1 text-xs text-white/50 uppercase tracking-wider">
+            Scenes
+          </div>
+          {scenes.map((scene, index) => (
+            <div
+              key={scene.id}
+              className={`flex items-center gap-2 px-3 py-2 hover:bg-white/5 ${
+                scene.id === currentSceneId ? 'text-blue-400' : 'text-white/90'
+              }`}
+            >
+              {scene.id === currentSceneId ? (
+                <Check className="w-4 h-4 flex-shrink-0" />
+              ) : (
+                <div className="w-4 h-4 flex-shrink-0" />
+              )}
+
+              {editingId === scene.id ? (
+                <input
+                  type="text"
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onBlur={saveEdit}
+                  onKeyDown={(e) => e.key === 'Enter' && saveEdit()}
+                  className="bg-[#1a1a1a] border border-white/10 rounded px-2 py-1 flex-1 text-sm text-white/90 focus:outline-none focus:border-blue-500/50"
+                  autoFocus
+                />
+              ) : (
+                <button
+                  onClick={() => handleSwitch(scene.id)}
+                  className="flex-1 text-left text-sm truncate"
+                >
+                  {scene.name}
+                </button>
+              )}
+
+              {!isReadOnly && editingId !== scene.id && (
+                <div className="flex gap-0.5">
+                  <button
+                    onClick={() => startEditing(scene.id, scene.name)}
+                    className={iconButton(true)}
+                    title="Rename Scene"
+                  >
+                    <Edit2 className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => moveScene(scene.id, 'up')}
+                    disabled={index === 0}
+                    className={iconButton(index > 0)}
+                    title="Move Up"
+                  >
+                    <ChevronUp className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => moveScene(scene.id, 'down')}
+                    disabled={index === scenes.length - 1}
+                    className={iconButton(index < scenes.length - 1)}
+                    title="Move Down"
+                  >
+                    <ChevronDown className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => handleDuplicate(scene.id)}
+                    className={iconButton(true)}
+                    title="Duplicate Scene"
+                  >
+                    <Copy className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {!isReadOnly && (
+            <>
+              <div className="border-t border-white/10 my-1"></div>
+              <button
+                onClick={handleCreate}
+                className="w-full px-3 py-2 text-left text-sm text-white/90 hover:bg-white/5 flex items-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                New Scene
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SceneSwitcher;
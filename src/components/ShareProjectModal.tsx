@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   X,
   Share2,
@@ -13,8 +13,33 @@ import {
   Eye,
   CheckCircle,
   AlertCircle,
-  ExternalLink
+  ExternalLink,
+  Printer
 } from 'lucide-react';
+import {
+  useClassroomStore,
+  isInviteActive,
+  getTokensOfKind,
+  getClassCode,
+  JoinInvite
+} from '../store/classroomStore';
+import { buildInviteLink, buildViewLink, buildClassCodeLink } from '../utils/joinLinks';
+import { encodeQr, qrToSvg, qrToSvgPath, qrToPngBlob, QR_BORDER } from '../utils/qrCode';
+import { printShareCard } from '../utils/shareCard';
+import { downloadFile } from '../utils/download';
+import { MAIL_TRANSPORT } from '../services/mailTransport';
+
+// How long the links this modal creates keep working
+const JOIN_LINK_DAYS = 7;
+const VIEW_LINK_DAYS = 30;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Helper function to pick the newest token that still works; the rest are managed under Manage Students
+const newestActiveToken = (tokens: JoinInvite[]) =>
+  tokens
+    .filter(isInviteActive)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
 
 interface ShareProjectModalProps {
   isOpen: boolean;
@@ -31,17 +56,51 @@ const ShareProjectModal: React.FC<ShareProjectModalProps> = ({
   const [emailList, setEmailList] = useState('');
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [accessLevel, setAccessLevel] = useState<'view' | 'edit'>('view');
+  const [sending, setSending] = useState(false);
+  const createJoinInvite = useClassroomStore(state => state.createJoinInvite);
+  const createViewToken = useClassroomStore(state => state.createViewToken);
+  const sendEmailInvitations = useClassroomStore(state => state.sendEmailInvitations);
+  const loadAccessTokens = useClassroomStore(state => state.loadAccessTokens);
+  const tokens = useClassroomStore(state => project ? state.accessTokens[project.id] : undefined);
 
-  const generateShareLink = () => {
-    const baseUrl = window.location.origin;
-    return `${baseUrl}/project/${project.id}?access=${accessLevel}`;
-  };
+  useEffect(() => {
+    if (isOpen && project?.id) {
+      loadAccessTokens(project.id);
+    }
+  }, [isOpen, project?.id, loadAccessTokens]);
+
+  const classCode = getClassCode(tokens);
+  const joinInvite = newestActiveToken(getTokensOfKind(tokens, 'join'));
+  const viewToken = newestActiveToken(getTokensOfKind(tokens, 'view'));
+  const viewLink = viewToken ? buildViewLink(project.id, viewToken.token) : null;
+
+  const joinLink = joinInvite ? buildInviteLink(project.id, joinInvite.token) : null;
 
-  const generateJoinLink = () => {
-    const baseUrl = window.location.origin;
-    return `${baseUrl}/join/${project.id}`;
+  // Helper function to get a working join link, creating an invite when there is none
+  const ensureJoinLink = async () => {
+    if (joinLink) return joinLink;
+    const invite = await createJoinInvite(project.id, JOIN_LINK_DAYS);
+    return invite ? buildInviteLink(project.id, invite.token) : null;
   };
 
+  // Viewers open the project read-only without an account; collaborators join it as students
+  const shareLink = accessLevel === 'view' ? viewLink : joinLink;
+  const createShareLink = () => accessLevel === 'view'
+    ? createViewToken(project.id, VIEW_LINK_DAYS)
+    : ensureJoinLink();
+  const shareToken = accessLevel === 'view' ? viewToken : joinInvite;
+  const shareQr = useMemo(() => shareLink ? encodeQr(shareLink) : null, [shareLink]);
+
+  const createJoinLinkButton = (
+    <button
+      onClick={ensureJoinLink}
+      className="flex items-center gap-2 px-4 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg font-medium transition-colors"
+    >
+      <Link className="w-4 h-4" />
+      Create Join Link
+    </button>
+  );
+
   const copyToClipboard = async (text: string, label: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -53,7 +112,7 @@ const ShareProjectModal: React.FC<ShareProjectModalProps> = ({
     }
   };
 
-  const sendEmailInvites = () => {
+  const sendEmailInvites = async () => {
     const emails = emailList.split(',').map(email => email.trim()).filter(email => email);
     
     if (emails.length === 0) {
@@ -62,28 +121,73 @@ const ShareProjectModal: React.FC<ShareProjectModalProps> = ({
       return;
     }
 
-    // In a real implementation, this would send emails via a backend service
-    const subject = `Invitation to join ${project.name} - 3D Modeling Project`;
-    const body = `You've been invited to join the 3D modeling project "${project.name}".
+    const invalid = emails.filter(email => !EMAIL_PATTERN.test(email));
+    if (invalid.length > 0) {
+      setMessage({ type: 'error', text: `Not an email address: ${invalid.join(', ')}` });
+      setTimeout(() => setMessage(null), 3000);
+      return;
+    }
+
+    setSending(true);
+    const result = await sendEmailInvitations(project.id, emails);
+    setSending(false);
 
-Click the link below to join:
-${generateJoinLink()}
+    if (!result || result.sent.length === 0) {
+      setMessage({ type: 'error', text: 'Failed to send invitations' });
+    } else {
+      const sent = `${result.sent.length} invitation${result.sent.length === 1 ? '' : 's'} ${
+        MAIL_TRANSPORT === 'outbox' ? 'added to the local outbox' : 'sent'
+      }`;
+      setMessage(result.failed.length > 0
+        ? { type: 'error', text: `${sent}, but these failed: ${result.failed.join(', ')}` }
+        : { type: 'success', text: sent });
+      setEmailList('');
+    }
+    setTimeout(() => setMessage(null), 3000);
+  };
 
-Project Description: ${project.description || 'No description provided'}
+  const qrFileName = `${(project?.name || 'project')
+    .replace(/[^a-z0-9-_ ]/gi, '')
+    .trim()
+    .replace(/\s+/g, '-') || 'project'}-${accessLevel === 'view' ? 'view' : 'join'}-qr`;
 
-This project allows you to create and explore 3D models in a collaborative environment.`;
+  const downloadQrCode = async (format: 'png' | 'svg') => {
+    if (!shareQr) return;
 
-    const mailtoLink = `mailto:${emails.join(',')}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
-    window.open(mailtoLink);
-    
-    setMessage({ type: 'success', text: 'Email client opened with invitation' });
-    setTimeout(() => setMessage(null), 3000);
+    try {
+      if (format === 'png') {
+        downloadFile(await qrToPngBlob(shareQr), `${qrFileName}.png`, 'image/png');
+      } else {
+        downloadFile(qrToSvg(shareQr), `${qrFileName}.svg`, 'image/svg+xml');
+      }
+    } catch (error) {
+      console.error('Failed to download QR code:', error);
+      setMessage({ type: 'error', text: 'Failed to download the QR code' });
+      setTimeout(() => setMessage(null), 3000);
+    }
   };
 
-  const generateQRCode = () => {
-    // In a real implementation, you would use a QR code library
-    const qrUrl = `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(generateJoinLink())}`;
-    return qrUrl;
+  // The card is for students in the room, so it points at the class code when there is one
+  const handlePrintShareCard = async () => {
+    const link = classCode ? buildClassCodeLink(classCode) : await ensureJoinLink();
+    if (!link) {
+      setMessage({ type: 'error', text: 'Failed to create a join link' });
+      setTimeout(() => setMessage(null), 3000);
+      return;
+    }
+
+    try {
+      printShareCard({
+        projectName: project.name,
+        teacherName: project.teacherName,
+        classCode,
+        link
+      });
+    } catch (error) {
+      console.error('Failed to print share card:', error);
+      setMessage({ type: 'error', text: 'Allow pop-ups to print the share card' });
+      setTimeout(() => setMessage(null), 3000);
+    }
   };
 
   if (!isOpen || !project) return null;
@@ -212,53 +316,76 @@ This project allows you to create and explore 3D models in a collaborative envir
                 <label className="block text-sm font-medium text-white/70 mb-2">
                   Share Link
                 </label>
-                <div className="flex gap-2">
-                  <input
-                    type="text"
-                    value={generateShareLink()}
-                    readOnly
-                    className="flex-1 py-2 px-3 bg-[#2a2a2a] border border-white/10 rounded-lg text-white/90 text-sm"
-                  />
-                  <button
-                    onClick={() => copyToClipboard(generateShareLink(), 'Share link')}
-                    className="px-3 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors"
-                    title="Copy Link"
-                  >
-                    <Copy className="w-4 h-4" />
-                  </button>
+                {shareLink ? (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={shareLink}
+                      readOnly
+                      className="flex-1 py-2 px-3 bg-[#2a2a2a] border border-white/10 rounded-lg text-white/90 text-sm"
+                    />
+                    <button
+                      onClick={() => copyToClipboard(shareLink, 'Share link')}
+                      className="px-3 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors"
+                      title="Copy Link"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => window.open(shareLink, '_blank')}
+                      className="px-3 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors"
+                      title="Open Link"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
                   <button
-                    onClick={() => window.open(generateShareLink(), '_blank')}
-                    className="px-3 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition-colors"
-                    title="Open Link"
+                    onClick={createShareLink}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors"
                   >
-                    <ExternalLink className="w-4 h-4" />
+                    <Link className="w-4 h-4" />
+                    Create Share Link
                   </button>
-                </div>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-white/70 mb-2">
-                  Join Link (for students)
-                </label>
-                <div className="flex gap-2">
-                  <input
-                    type="text"
-                    value={generateJoinLink()}
-                    readOnly
-                    className="flex-1 py-2 px-3 bg-[#2a2a2a] border border-white/10 rounded-lg text-white/90 text-sm"
-                  />
-                  <button
-                    onClick={() => copyToClipboard(generateJoinLink(), 'Join link')}
-                    className="px-3 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors"
-                    title="Copy Join Link"
-                  >
-                    <Copy className="w-4 h-4" />
-                  </button>
-                </div>
+                )}
                 <p className="text-xs text-white/50 mt-1">
-                  Students can use this link to request access to join the project
+                  {accessLevel === 'view'
+                    ? 'Anyone with this link can look around the project without signing in'
+                    : 'Recipients join the project as students and can edit it'}
+                  {shareToken?.expiresAt && ` until ${new Date(shareToken.expiresAt).toLocaleDateString()}`}
                 </p>
               </div>
+
+              {accessLevel === 'view' && (
+                <div>
+                  <label className="block text-sm font-medium text-white/70 mb-2">
+                    Join Link (for students)
+                  </label>
+                  {joinLink ? (
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={joinLink}
+                        readOnly
+                        className="flex-1 py-2 px-3 bg-[#2a2a2a] border border-white/10 rounded-lg text-white/90 text-sm"
+                      />
+                      <button
+                        onClick={() => copyToClipboard(joinLink, 'Join link')}
+                        className="px-3 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors"
+                        title="Copy Join Link"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : createJoinLinkButton}
+                  <p className="text-xs text-white/50 mt-1">
+                    {joinInvite?.expiresAt
+                      ? `Students can use this link to join the project until ${new Date(joinInvite.expiresAt).toLocaleDateString()}`
+                      : 'Students can use this link to join the project'}
+                    {project.settings?.requireJoinApproval && ' once you approve them'}
+                  </p>
+                </div>
+              )}
             </div>
           )}
 
@@ -276,45 +403,87 @@ This project allows you to create and explore 3D models in a collaborative envir
                   placeholder="Enter email addresses separated by commas&#10;student1@school.edu, student2@school.edu"
                 />
                 <p className="text-xs text-white/50 mt-1">
-                  Separate multiple email addresses with commas
+                  Separate multiple email addresses with commas. Each person gets their own link to join as a
+                  student, and you can follow who accepted under Manage Students
                 </p>
+                {MAIL_TRANSPORT === 'outbox' && (
+                  <p className="text-xs text-orange-400 mt-1">
+                    No mail service is set up, so invitations are kept in this browser's outbox and logged to the console
+                  </p>
+                )}
               </div>
 
               <button
                 onClick={sendEmailInvites}
-                className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors"
+                disabled={sending}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
               >
                 <Mail className="w-4 h-4" />
-                Send Invitations
+                {sending ? 'Sending...' : 'Send Invitations'}
               </button>
             </div>
           )}
 
           {shareMethod === 'qr' && (
             <div className="text-center space-y-4">
-              <div className="inline-block p-4 bg-white rounded-lg">
-                <img
-                  src={generateQRCode()}
-                  alt="QR Code for project access"
-                  className="w-48 h-48"
-                />
-              </div>
-              <div>
-                <p className="text-sm text-white/70 mb-2">
-                  Scan this QR code to access the project
-                </p>
+              {shareQr ? (
+                <>
+                  <div className="inline-block p-4 bg-white rounded-lg">
+                    <svg
+                      viewBox={`0 0 ${shareQr.size + QR_BORDER * 2} ${shareQr.size + QR_BORDER * 2}`}
+                      shapeRendering="crispEdges"
+                      className="w-48 h-48"
+                      role="img"
+                      aria-label="QR code for project access"
+                    >
+                      <path d={qrToSvgPath(shareQr)} fill="#000000" />
+                    </svg>
+                  </div>
+                  <p className="text-sm text-white/70">
+                    {accessLevel === 'view'
+                      ? 'Scan this QR code to look around the project without signing in'
+                      : 'Scan this QR code to join the project as a student'}
+                  </p>
+                  <div className="flex justify-center gap-2">
+                    <button
+                      onClick={() => downloadQrCode('png')}
+                      className="flex items-center gap-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-medium transition-colors"
+                    >
+                      <Download className="w-4 h-4" />
+                      PNG
+                    </button>
+                    <button
+                      onClick={() => downloadQrCode('svg')}
+                      className="flex items-center gap-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-medium transition-colors"
+                    >
+                      <Download className="w-4 h-4" />
+                      SVG
+                    </button>
+                  </div>
+                </>
+              ) : (
                 <button
-                  onClick={() => {
-                    const link = document.createElement('a');
-                    link.href = generateQRCode();
-                    link.download = `${project.name}-qr-code.png`;
-                    link.click();
-                  }}
-                  className="flex items-center gap-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-medium transition-colors mx-auto"
+                  onClick={createShareLink}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg font-medium transition-colors mx-auto"
                 >
-                  <Download className="w-4 h-4" />
-                  Download QR Code
+                  <QrCode className="w-4 h-4" />
+                  Create QR Code
                 </button>
+              )}
+
+              <div className="pt-4 border-t border-white/10">
+                <button
+                  onClick={handlePrintShareCard}
+                  className="flex items-center gap-2 px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg font-medium transition-colors mx-auto"
+                >
+                  <Printer className="w-4 h-4" />
+                  Print Share Card
+                </button>
+                <p className="text-xs text-white/50 mt-2">
+                  {classCode
+                    ? `A card with the project name, class code ${classCode} and a QR code to join`
+                    : 'A card with the project name and a QR code to join. Create a class code under Manage Students to print it too'}
+                </p>
               </div>
             </div>
           )}
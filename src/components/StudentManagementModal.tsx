@@ -9,14 +9,29 @@ import {
   User,
   Search,
   Send,
-  Copy,
   ExternalLink,
   Calendar,
   Clock,
   Shield,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  Ban
 } from 'lucide-react';
+import EnrollmentPanel from './EnrollmentPanel';
+import {
+  useClassroomStore,
+  getInvitationStatus,
+  getLatestInvitation,
+  EmailInvitation,
+  InvitationStatus
+} from '../store/classroomStore';
+
+const INVITATION_STATUS_STYLES: Record<InvitationStatus, { label: string; className: string }> = {
+  pending: { label: 'Invited', className: 'text-amber-400 bg-amber-500/10 border-amber-500/20' },
+  accepted: { label: 'Invite accepted', className: 'text-green-400 bg-green-500/10 border-green-500/20' },
+  expired: { label: 'Invite expired', className: 'text-gray-400 bg-gray-500/10 border-gray-500/20' },
+  revoked: { label: 'Invite revoked', className: 'text-red-400 bg-red-500/10 border-red-500/20' }
+};
 
 interface StudentManagementModalProps {
   isOpen: boolean;
@@ -38,8 +53,8 @@ const StudentManagementModal: React.FC<StudentManagementModalProps> = ({
   const [newStudentEmail, setNewStudentEmail] = useState('');
   const [newStudentRole, setNewStudentRole] = useState<'student' | 'assistant'>('student');
   const [searchTerm, setSearchTerm] = useState('');
-  const [showInviteLink, setShowInviteLink] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const { sendEmailInvitations, revokeEmailInvitation } = useClassroomStore();
 
   const handleAddStudent = (e: React.FormEvent) => {
     e.preventDefault();
@@ -75,20 +90,12 @@ const StudentManagementModal: React.FC<StudentManagementModalProps> = ({
     }
   };
 
-  const generateInviteLink = () => {
-    const baseUrl = window.location.origin;
-    return `${baseUrl}/join/${project.id}`;
-  };
-
-  const copyInviteLink = async () => {
-    try {
-      await navigator.clipboard.writeText(generateInviteLink());
-      setMessage({ type: 'success', text: 'Invite link copied to clipboard!' });
-      setTimeout(() => setMessage(null), 3000);
-    } catch (error) {
-      setMessage({ type: 'error', text: 'Failed to copy link' });
-      setTimeout(() => setMessage(null), 3000);
-    }
+  const handleSendInvitation = async (email: string) => {
+    const result = await sendEmailInvitations(project.id, [email]);
+    setMessage(result?.sent.length
+      ? { type: 'success', text: `Invitation sent to ${email}` }
+      : { type: 'error', text: `Failed to send the invitation to ${email}` });
+    setTimeout(() => setMessage(null), 3000);
   };
 
   const filteredStudents = project.students?.filter((student: any) =>
@@ -104,6 +111,26 @@ const StudentManagementModal: React.FC<StudentManagementModalProps> = ({
     });
   };
 
+  // Invitations to people who haven't joined yet; once they join, the status shows on their roster entry
+  const rosterEmails = new Set<string>((project.students ?? []).map((s: { email: string }) => s.email.toLowerCase()));
+  const openInvitations = ((project.emailInvitations ?? []) as EmailInvitation[])
+    .filter(invitation => !rosterEmails.has(invitation.email))
+    .filter(invitation => getLatestInvitation(project.emailInvitations, invitation.email) === invitation)
+    .filter(invitation => getInvitationStatus(invitation) !== 'accepted');
+
+  const renderInvitationStatus = (invitation: EmailInvitation) => {
+    const style = INVITATION_STATUS_STYLES[getInvitationStatus(invitation)];
+    return (
+      <div
+        className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border ${style.className}`}
+        title={`Sent ${formatDate(invitation.sentAt)}${invitation.acceptedAt ? `, accepted ${formatDate(invitation.acceptedAt)}` : ''}`}
+      >
+        <Mail className="w-3 h-3" />
+        {style.label}
+      </div>
+    );
+  };
+
   const getRoleIcon = (role: string) => {
     switch (role) {
       case 'assistant':
@@ -212,43 +239,54 @@ const StudentManagementModal: React.FC<StudentManagementModalProps> = ({
                 Add Student
               </button>
             </form>
+          </div>
 
-            {/* Invite Link Section */}
-            <div className="mt-6 pt-6 border-t border-white/10">
-              <div className="flex items-center justify-between mb-3">
-                <h4 className="text-sm font-medium text-white/90">Share Invite Link</h4>
-                <button
-                  onClick={() => setShowInviteLink(!showInviteLink)}
-                  className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
-                >
-                  {showInviteLink ? 'Hide' : 'Show'} Link
-                </button>
-              </div>
+          <EnrollmentPanel
+            project={project}
+            onMessage={(enrollmentMessage) => {
+              setMessage(enrollmentMessage);
+              setTimeout(() => setMessage(null), 3000);
+            }}
+          />
 
-              {showInviteLink && (
-                <div className="space-y-3">
-                  <div className="flex gap-2">
-                    <input
-                      type="text"
-                      value={generateInviteLink()}
-                      readOnly
-                      className="flex-1 py-2 px-3 bg-[#1a1a1a] border border-white/10 rounded-lg text-white/90 text-sm"
-                    />
-                    <button
-                      onClick={copyInviteLink}
-                      className="px-3 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded-lg transition-colors"
-                      title="Copy Link"
-                    >
-                      <Copy className="w-4 h-4" />
-                    </button>
+          {/* Invitations */}
+          {openInvitations.length > 0 && (
+            <div className="bg-[#2a2a2a] rounded-xl border border-white/10 mb-6 overflow-hidden">
+              <div className="p-4 border-b border-white/10">
+                <h3 className="text-lg font-medium text-white/90">
+                  Invitations ({openInvitations.length})
+                </h3>
+              </div>
+              <div className="divide-y divide-white/5">
+                {openInvitations.map((invitation) => (
+                  <div key={invitation.id} className="p-4 flex items-center justify-between">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className="text-sm text-white/90 truncate">{invitation.email}</div>
+                      {renderInvitationStatus(invitation)}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => handleSendInvitation(invitation.email)}
+                        className="p-2 hover:bg-white/10 rounded-lg transition-colors text-white/70"
+                        title="Resend Invitation"
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                      {getInvitationStatus(invitation) === 'pending' && (
+                        <button
+                          onClick={() => revokeEmailInvitation(project.id, invitation.id)}
+                          className="p-2 hover:bg-red-500/10 rounded-lg transition-colors text-red-400 hover:text-red-300"
+                          title="Revoke Invitation"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
                   </div>
-                  <p className="text-xs text-white/50">
-                    Students can use this link to join the project directly
-                  </p>
-                </div>
-              )}
+                ))}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Students List */}
           <div className="bg-[#2a2a2a] rounded-xl border border-white/10 overflow-hidden">
@@ -285,7 +323,9 @@ const StudentManagementModal: React.FC<StudentManagementModalProps> = ({
               </div>
             ) : (
               <div className="divide-y divide-white/5">
-                {filteredStudents.map((student: any) => (
+                {filteredStudents.map((student: any) => {
+                  const invitation = getLatestInvitation(project.emailInvitations, student.email);
+                  return (
                   <div key={student.id} className="p-4 hover:bg-white/5 transition-colors">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-3">
@@ -302,6 +342,7 @@ const StudentManagementModal: React.FC<StudentManagementModalProps> = ({
                               {getRoleIcon(student.role)}
                               {student.role === 'assistant' ? 'Teaching Assistant' : 'Student'}
                             </div>
+                            {invitation && renderInvitationStatus(invitation)}
                             <div className="text-xs text-white/50 flex items-center gap-1">
                               <Calendar className="w-3 h-3" />
                               Joined {formatDate(student.joinedAt)}
@@ -317,6 +358,15 @@ const StudentManagementModal: React.FC<StudentManagementModalProps> = ({
                       </div>
 
                       <div className="flex items-center gap-2">
+                        {!student.lastActive && invitation?.status !== 'accepted' && (
+                          <button
+                            onClick={() => handleSendInvitation(student.email)}
+                            className="p-2 hover:bg-white/10 rounded-lg transition-colors text-white/70"
+                            title={invitation ? 'Resend Invitation' : 'Send Invitation'}
+                          >
+                            <Send className="w-4 h-4" />
+                          </button>
+                        )}
                         <select
                           value={student.role}
                           onChange={(e) => onUpdateRole(student.id, e.target.value as 'student' | 'assistant')}
@@ -335,7 +385,8 @@ const StudentManagementModal: React.FC<StudentManagementModalProps> = ({
                       </div>
                     </div>
                   </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </div>
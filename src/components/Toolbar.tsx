@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
-import { Box, Circle, Triangle, Cylinder, Cone, Cherry as Sphere, Plus, Move, RotateCw, Scale, Edit, MousePointer, ChevronDown, Lightbulb, Sun, Zap, TreePine, Flower, Mountain, Heart, Star, Dot, Minus, Type } from 'lucide-react';
+import { Box, Circle, Triangle, Cylinder, Cone, Cherry as Sphere, Plus, Move, RotateCw, Scale, Edit, MousePointer, ChevronDown, Lightbulb, Sun, Zap, TreePine, Flower, Mountain, Heart, Star, Dot, Minus, Type, Upload, ArrowUpFromLine, Waves, Spline, Square } from 'lucide-react';
 import { useSceneStore } from '../store/sceneStore';
 import * as THREE from 'three';
+import ImportModelPanel from './ImportModelPanel';
 
 const Toolbar: React.FC = () => {
   const { 
@@ -34,6 +35,13 @@ const Toolbar: React.FC = () => {
     </svg>
   );
 
+  // Custom Bevel Icon Component - a square with one rounded corner
+  const BevelIcon = ({ className }: { className?: string }) => (
+    <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M4 20V4h8a8 8 0 0 1 8 8v8H4z" />
+    </svg>
+  );
+
   // Complete alphabet function to create letter shapes
   const createLetterShape = (char: string) => {
     const shape = new THREE.Shape();
@@ -1441,6 +1449,36 @@ const Toolbar: React.FC = () => {
       mode: 'edge' as const,
       title: 'Edit Edges',
       shortcut: 'E'
+    },
+    {
+      icon: Square,
+      mode: 'face' as const,
+      title: 'Edit Faces',
+      shortcut: 'F'
+    },
+    {
+      icon: ArrowUpFromLine,
+      mode: 'extrude' as const,
+      title: 'Extrude Faces',
+      shortcut: 'X'
+    },
+    {
+      icon: BevelIcon,
+      mode: 'bevel' as const,
+      title: 'Bevel Edge',
+      shortcut: 'B'
+    },
+    {
+      icon: Waves,
+      mode: 'nurbs' as const,
+      title: 'NURBS Surface',
+      shortcut: 'N'
+    },
+    {
+      icon: Spline,
+      mode: 'curve' as const,
+      title: 'NURBS Curve',
+      shortcut: 'C'
     }
   ];
 
@@ -1468,7 +1506,8 @@ const Toolbar: React.FC = () => {
   const tabs = [
     { id: 'basic', name: 'Basic', icon: Box },
     { id: 'nature', name: 'Nature', icon: TreePine },
-    { id: 'text', name: 'Text', icon: Type }
+    { id: 'text', name: 'Text', icon: Type },
+    { id: 'import', name: 'Import', icon: Upload }
   ];
 
   return (
@@ -1624,6 +1663,10 @@ const Toolbar: React.FC = () => {
                     </div>
                   </div>
                 )}
+
+                {activeTab === 'import' && (
+                  <ImportModelPanel onImported={() => setShowObjectMenu(false)} />
+                )}
               </div>
 
               {/* Lights Section */}
@@ -1685,10 +1728,13 @@ const Toolbar: React.FC = () => {
         {/* Edit Tools */}
         {editTools.map(({ icon: Icon, mode, title, shortcut }) => {
           // Check if edge mode should be disabled for certain geometries
-          const isDisabled = mode === 'edge' && selectedObject instanceof THREE.Mesh && (
+          const isDisabled = (mode === 'edge' && selectedObject instanceof THREE.Mesh && (
             selectedObject.geometry instanceof THREE.CylinderGeometry ||
             selectedObject.geometry instanceof THREE.ConeGeometry ||
             selectedObject.geometry instanceof THREE.SphereGeometry
+          )) || (
+            // Extrude and bevel work on the selected mesh
+            (mode === 'extrude' || mode === 'bevel') && !(selectedObject instanceof THREE.Mesh)
           );
 
           return (
@@ -0,0 +1,337 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  getDoc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  orderBy,
+  arrayUnion,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  DocumentData,
+  DocumentSnapshot,
+  QuerySnapshot
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+import {
+  createDocumentId,
+  saveDocumentsBatch,
+  copyProjectData,
+  getObjects,
+  getGroups,
+  getLights,
+  getScenes,
+  subscribeToObjects,
+  subscribeToGroups,
+  subscribeToLights,
+  saveAnnotation,
+  updateAnnotation,
+  addAnnotationComment,
+  deleteAnnotation,
+  subscribeToAnnotations
+} from './firestoreService';
+import { AccessTokenRecord, ProjectListField, ProjectMember, ProjectRecord, ProjectRepository } from './repository';
+
+const PROJECTS_COLLECTION = 'classroom_projects';
+
+// One document per token, named by the token's value. The security rules let anyone get a
+// document whose name they already hold, but only the project's teacher and members allowed
+// to share it list, create or revoke them. Nothing about them is on the project document
+const ACCESS_COLLECTION = 'project_access';
+
+type RosterEntry = { id?: string; email?: string };
+
+// Project fields holding lists of entries with dates in them. Projects saved before tokens
+// moved to their own collection still carry joinInvites and viewTokens until they are moved
+const DATED_LIST_FIELDS = ['students', 'joinRequests', 'joinInvites', 'viewTokens', 'emailInvitations'];
+
+// Project fields holding a single object with dates in it
+const DATED_OBJECT_FIELDS = ['assignment', 'submission', 'grade'];
+
+// Helper function to turn the stored timestamps inside list entries back into dates
+const withEntryDates = (entries: Record<string, unknown>[]) =>
+  entries.map(entry => Object.fromEntries(
+    Object.entries(entry).map(([key, value]) => [key, value instanceof Timestamp ? value.toDate() : value])
+  ));
+
+// Helper function to read a project document with its timestamps as dates
+const toProjectRecord = (doc: DocumentSnapshot<DocumentData>): ProjectRecord => {
+  const data = doc.data() ?? {};
+  // The document id wins over an id field stored by mistake, as bundles imported before they dropped it have
+  const record: ProjectRecord = {
+    ...data,
+    id: doc.id,
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || new Date(),
+  };
+  DATED_LIST_FIELDS.forEach((field) => {
+    if (Array.isArray(data[field])) {
+      record[field] = withEntryDates(data[field]);
+    }
+  });
+  DATED_OBJECT_FIELDS.forEach((field) => {
+    if (data[field]) {
+      record[field] = withEntryDates([data[field]])[0];
+    }
+  });
+  return record;
+};
+
+const toProjectRecords = (querySnapshot: QuerySnapshot<DocumentData>): ProjectRecord[] =>
+  querySnapshot.docs.map(toProjectRecord);
+
+// Helper function to keep the roster searchable. Firestore can't query inside the students
+// array, so the account ids and emails on it are also kept as plain arrays
+const withRosterIndex = (data: Record<string, unknown>) => {
+  if (!Array.isArray(data.students)) return data;
+
+  const students = data.students as RosterEntry[];
+  return {
+    ...data,
+    memberIds: students.flatMap(student => student.id ? [student.id] : []),
+    memberEmails: students.flatMap(student => student.email ? [student.email.toLowerCase()] : [])
+  };
+};
+
+// Helper function to index rosters saved before the index existed
+const indexRosters = (querySnapshot: QuerySnapshot<DocumentData>) => {
+  querySnapshot.docs
+    .filter(doc => doc.data().students?.length && !doc.data().memberEmails)
+    .forEach((doc) => {
+      updateDoc(doc.ref, withRosterIndex({ students: doc.data().students }) as DocumentData).catch((error) => {
+        console.error('Error indexing project roster:', error);
+      });
+    });
+};
+
+const listProjects = async (teacherId: string): Promise<ProjectRecord[]> => {
+  try {
+    // First, try the optimized query with composite index
+    try {
+      const q = query(
+        collection(db, PROJECTS_COLLECTION),
+        where('teacherId', '==', teacherId),
+        orderBy('updatedAt', 'desc')
+      );
+      const querySnapshot = await getDocs(q);
+      indexRosters(querySnapshot);
+      return toProjectRecords(querySnapshot);
+    } catch {
+      // If composite index doesn't exist, fall back to simple query and sort in memory
+      console.warn('Composite index not available, using fallback query. Please create the index at:',
+        'https://console.firebase.google.com/v1/r/project/steam-ic-3d-modeling-prototype/firestore/indexes');
+
+      const q = query(
+        collection(db, PROJECTS_COLLECTION),
+        where('teacherId', '==', teacherId)
+      );
+      const querySnapshot = await getDocs(q);
+      indexRosters(querySnapshot);
+      const projects = toProjectRecords(querySnapshot);
+      return projects.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    }
+  } catch (error) {
+    console.error('Error listing projects:', error);
+    throw error;
+  }
+};
+
+const listEnrolledProjects = async (member: ProjectMember): Promise<ProjectRecord[]> => {
+  try {
+    // A student is on the roster by account once they have opened the project, by email before that
+    const conditions = [where('memberIds', 'array-contains', member.uid)];
+    if (member.email) {
+      conditions.push(where('memberEmails', 'array-contains', member.email.toLowerCase()));
+    }
+
+    const snapshots = await Promise.all(
+      conditions.map(condition => getDocs(query(collection(db, PROJECTS_COLLECTION), condition)))
+    );
+    const projects = new Map<string, ProjectRecord>();
+    snapshots.flatMap(toProjectRecords).forEach(project => projects.set(project.id, project));
+    return Array.from(projects.values()).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  } catch (error) {
+    console.error('Error listing enrolled projects:', error);
+    throw error;
+  }
+};
+
+const getProject = async (projectId: string): Promise<ProjectRecord | null> => {
+  try {
+    const projectSnapshot = await getDoc(doc(db, PROJECTS_COLLECTION, projectId));
+    return projectSnapshot.exists() ? toProjectRecord(projectSnapshot) : null;
+  } catch (error) {
+    console.error('Error getting project:', error);
+    throw error;
+  }
+};
+
+const createProject = async (data: Record<string, unknown>): Promise<string> => {
+  try {
+    const docRef = await addDoc(collection(db, PROJECTS_COLLECTION), {
+      ...withRosterIndex(data),
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error creating project:', error);
+    throw error;
+  }
+};
+
+const updateProject = async (projectId: string, data: Record<string, unknown>): Promise<void> => {
+  try {
+    await updateDoc(doc(db, PROJECTS_COLLECTION, projectId), {
+      ...withRosterIndex(data),
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    console.error('Error updating project:', error);
+    throw error;
+  }
+};
+
+const appendToProject = async (
+  projectId: string,
+  field: ProjectListField,
+  entries: object[]
+): Promise<void> => {
+  try {
+    // New roster entries go into the roster index the same way
+    const rosterIndex = field === 'students'
+      ? Object.fromEntries(
+          Object.entries(withRosterIndex({ students: entries }))
+            .filter(([key]) => key !== 'students')
+            .map(([key, values]) => [key, arrayUnion(...(values as string[]))])
+        )
+      : {};
+
+    await updateDoc(doc(db, PROJECTS_COLLECTION, projectId), {
+      [field]: arrayUnion(...entries),
+      ...rosterIndex,
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    console.error('Error appending to project:', error);
+    throw error;
+  }
+};
+
+const updateProjectWith = async (
+  projectId: string,
+  update: (project: ProjectRecord) => Record<string, unknown> | null
+): Promise<Record<string, unknown> | null> => {
+  try {
+    // Firestore retries the transaction if the project changes before it commits
+    return await runTransaction(db, async (transaction) => {
+      const projectRef = doc(db, PROJECTS_COLLECTION, projectId);
+      const snapshot = await transaction.get(projectRef);
+      if (!snapshot.exists()) {
+        throw new Error(`Project ${projectId} does not exist`);
+      }
+
+      const data = update(toProjectRecord(snapshot));
+      if (data) {
+        transaction.update(projectRef, {
+          ...withRosterIndex(data),
+          updatedAt: serverTimestamp()
+        });
+      }
+      return data;
+    });
+  } catch (error) {
+    console.error('Error updating project:', error);
+    throw error;
+  }
+};
+
+// Helper function to read an access token with its timestamps as dates
+const toAccessTokenRecord = (doc: DocumentSnapshot<DocumentData>) =>
+  withEntryDates([{ ...doc.data(), token: doc.id }])[0] as unknown as AccessTokenRecord;
+
+const listAccessTokens = async (projectId: string): Promise<AccessTokenRecord[]> => {
+  try {
+    const querySnapshot = await getDocs(query(collection(db, ACCESS_COLLECTION), where('projectId', '==', projectId)));
+    return querySnapshot.docs.map(toAccessTokenRecord);
+  } catch (error) {
+    console.error('Error listing access tokens:', error);
+    throw error;
+  }
+};
+
+const getAccessToken = async (token: string): Promise<AccessTokenRecord | null> => {
+  try {
+    const tokenSnapshot = await getDoc(doc(db, ACCESS_COLLECTION, token));
+    return tokenSnapshot.exists() ? toAccessTokenRecord(tokenSnapshot) : null;
+  } catch (error) {
+    console.error('Error getting access token:', error);
+    throw error;
+  }
+};
+
+const saveAccessToken = async ({ token, ...data }: AccessTokenRecord): Promise<void> => {
+  try {
+    await setDoc(doc(db, ACCESS_COLLECTION, token), data);
+  } catch (error) {
+    console.error('Error saving access token:', error);
+    throw error;
+  }
+};
+
+const revokeAccessToken = async (token: string): Promise<void> => {
+  try {
+    await updateDoc(doc(db, ACCESS_COLLECTION, token), { revoked: true });
+  } catch (error) {
+    console.error('Error revoking access token:', error);
+    throw error;
+  }
+};
+
+const deleteProject = async (projectId: string): Promise<void> => {
+  try {
+    const tokens = await listAccessTokens(projectId);
+    await Promise.all(tokens.map(({ token }) => deleteDoc(doc(db, ACCESS_COLLECTION, token))));
+    await deleteDoc(doc(db, PROJECTS_COLLECTION, projectId));
+  } catch (error) {
+    console.error('Error deleting project:', error);
+    throw error;
+  }
+};
+
+// Projects live in the classroom_projects collection; their content in per-project subcollections
+export const createFirestoreRepository = (): ProjectRepository => ({
+  listProjects,
+  listEnrolledProjects,
+  getProject,
+  createProject,
+  updateProject,
+  appendToProject,
+  updateProjectWith,
+  deleteProject,
+  getAccessToken,
+  listAccessTokens,
+  saveAccessToken,
+  revokeAccessToken,
+  createDocumentId,
+  saveDocumentsBatch,
+  copyProjectData,
+  getObjects,
+  getGroups,
+  getLights,
+  getScenes,
+  subscribeToObjects,
+  subscribeToGroups,
+  subscribeToLights,
+  saveAnnotation,
+  updateAnnotation,
+  addAnnotationComment,
+  deleteAnnotation,
+  subscribeToAnnotations
+});
@@ -11,12 +11,20 @@ import {
   where,
   serverTimestamp,
   onSnapshot,
-  Timestamp
+  Timestamp,
+  writeBatch,
+  increment,
+  arrayUnion
 } from 'firebase/firestore';
 import { db } from '../config/firebase';
 import * as THREE from 'three';
 
 // Types for Firestore data
+
+// How many saves have changed each field of a document. Collaborators compare these to tell
+// which fields someone else edited since they last looked
+export type FieldVersions = Record<string, number>;
+
 export interface FirestoreObject {
   id?: string;
   userId?: string;
@@ -31,6 +39,8 @@ export interface FirestoreObject {
   visible: boolean;
   locked: boolean;
   groupId?: string;
+  // Scene within the project; documents saved before projects had scenes have none
+  sceneId?: string;
   geometryParams?: any;
   materialParams?: any;
   // Add support for custom geometry data
@@ -43,10 +53,16 @@ export interface FirestoreObject {
     // Add parameters for standard geometries that might be custom
     parameters?: any;
   };
+  // Parts of a multi-part object (a THREE.Group such as a tree), with transforms relative to it
+  children?: FirestoreObjectPart[];
+  fieldVersions?: FieldVersions;
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
 
+// A part inside a multi-part object. Parts can be groups themselves, so this nests
+export type FirestoreObjectPart = Omit<FirestoreObject, 'id' | 'userId' | 'projectId' | 'locked' | 'groupId' | 'sceneId' | 'fieldVersions' | 'createdAt' | 'updatedAt'>;
+
 export interface FirestoreGroup {
   id?: string;
   userId?: string;
@@ -56,6 +72,8 @@ export interface FirestoreGroup {
   visible: boolean;
   locked: boolean;
   objectIds: string[];
+  sceneId?: string;
+  fieldVersions?: FieldVersions;
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
@@ -76,6 +94,8 @@ export interface FirestoreLight {
   decay: number;
   angle: number;
   penumbra: number;
+  sceneId?: string;
+  fieldVersions?: FieldVersions;
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
@@ -86,6 +106,8 @@ export interface FirestoreScene {
   projectId?: string; // Add project scoping
   name: string;
   description?: string;
+  // Position in the project's scene switcher
+  order?: number;
   backgroundColor: string;
   showGrid: boolean;
   gridSize: number;
@@ -96,12 +118,43 @@ export interface FirestoreScene {
   updatedAt?: Timestamp;
 }
 
+// One message in an annotation's discussion
+export interface AnnotationComment {
+  id: string;
+  authorId: string;
+  authorName: string;
+  text: string;
+  // Milliseconds, since entries inside a list can't hold server timestamps
+  createdAt: number;
+}
+
+// A comment pinned into the scene, at a spot in the world or on an object's surface
+export interface FirestoreAnnotation {
+  id?: string;
+  projectId?: string;
+  sceneId?: string;
+  // World position of the pin when it was placed
+  position: { x: number; y: number; z: number };
+  // The object the pin was dropped on and the spot in that object's own space, so the pin moves with it
+  objectId?: string;
+  localPosition?: { x: number; y: number; z: number };
+  authorId: string;
+  authorName: string;
+  resolved: boolean;
+  resolvedBy?: string;
+  // The first comment opens the discussion
+  comments: AnnotationComment[];
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
 // Project-scoped collection names - each project gets its own subcollections
 const getProjectCollections = (projectId: string) => ({
   OBJECTS: `projects/${projectId}/objects`,
   GROUPS: `projects/${projectId}/groups`,
   LIGHTS: `projects/${projectId}/lights`,
-  SCENES: `projects/${projectId}/scenes`
+  SCENES: `projects/${projectId}/scenes`,
+  ANNOTATIONS: `projects/${projectId}/annotations`
 });
 
 // Helper function to serialize custom geometry
@@ -153,6 +206,45 @@ const deserializeGeometry = (customGeometry: any): THREE.BufferGeometry => {
   return geometry;
 };
 
+// Helper function to build a primitive again from its parameters, as loading it would
+const rebuildPrimitive = (geometry: THREE.BufferGeometry): THREE.BufferGeometry | null => {
+  if (geometry instanceof THREE.BoxGeometry) {
+    const { width, height, depth, widthSegments, heightSegments, depthSegments } = geometry.parameters;
+    return new THREE.BoxGeometry(width, height, depth, widthSegments, heightSegments, depthSegments);
+  }
+  if (geometry instanceof THREE.SphereGeometry) {
+    const { radius, widthSegments, heightSegments, phiStart, phiLength, thetaStart, thetaLength } = geometry.parameters;
+    return new THREE.SphereGeometry(radius, widthSegments, heightSegments, phiStart, phiLength, thetaStart, thetaLength);
+  }
+  // Cones are cylinders underneath, so they are checked first
+  if (geometry instanceof THREE.ConeGeometry) {
+    const { radius, height, radialSegments, heightSegments, openEnded, thetaStart, thetaLength } = geometry.parameters;
+    return new THREE.ConeGeometry(radius, height, radialSegments, heightSegments, openEnded, thetaStart, thetaLength);
+  }
+  if (geometry instanceof THREE.CylinderGeometry) {
+    const { radiusTop, radiusBottom, height, radialSegments, heightSegments, openEnded, thetaStart, thetaLength } = geometry.parameters;
+    return new THREE.CylinderGeometry(radiusTop, radiusBottom, height, radialSegments, heightSegments, openEnded, thetaStart, thetaLength);
+  }
+  return null;
+};
+
+// Helper function to tell whether a primitive's vertices were moved after it was built, by a
+// vertex, edge or face drag. Its parameters alone would then lose the edit
+const wasEditedInPlace = (geometry: THREE.BufferGeometry): boolean => {
+  const rebuilt = rebuildPrimitive(geometry);
+  if (!rebuilt) return false;
+
+  const positions = geometry.attributes.position.array;
+  const expected = rebuilt.attributes.position.array;
+  rebuilt.dispose();
+
+  if (positions.length !== expected.length) return true;
+  for (let i = 0; i < positions.length; i++) {
+    if (Math.abs(positions[i] - expected[i]) > 1e-6) return true;
+  }
+  return false;
+};
+
 // Helper function to determine if a geometry should be treated as custom
 const isCustomGeometry = (geometry: THREE.BufferGeometry, name: string): boolean => {
   // Check by name patterns
@@ -173,7 +265,17 @@ const isCustomGeometry = (geometry: THREE.BufferGeometry, name: string): boolean
   );
   
   // If it's a torus or has custom name patterns, or doesn't have standard parameters, treat as custom
-  return nameIsCustom || isTorusGeometry || !hasStandardParams;
+  return nameIsCustom || isTorusGeometry || !hasStandardParams || wasEditedInPlace(geometry);
+};
+
+// Helper function to serialize one part of a multi-part object, dropping the fields
+// that only make sense on a top-level document
+const objectToPart = (object: THREE.Object3D): FirestoreObjectPart => {
+  const data: Partial<FirestoreObject> = objectToFirestore(object, object.name);
+  delete data.locked;
+  delete data.createdAt;
+  delete data.updatedAt;
+  return data as FirestoreObjectPart;
 };
 
 // Helper function to convert THREE.js object to Firestore format
@@ -221,7 +323,8 @@ export const objectToFirestore = (object: THREE.Object3D, name: string, id?: str
     firestoreObj.materialParams = {
       transparent: object.material.transparent,
       metalness: object.material.metalness,
-      roughness: object.material.roughness
+      roughness: object.material.roughness,
+      side: object.material.side
     };
   }
 
@@ -289,13 +392,31 @@ export const objectToFirestore = (object: THREE.Object3D, name: string, id?: str
     }
   }
 
+  // Multi-part objects keep their hierarchy; each part carries its own geometry and material
+  if (object instanceof THREE.Group) {
+    firestoreObj.type = 'Group';
+    firestoreObj.children = object.children.map(objectToPart);
+  }
+
   return firestoreObj;
 };
 
 // Helper function to convert Firestore data back to THREE.js object
-export const firestoreToObject = (data: FirestoreObject): THREE.Object3D | null => {
+export const firestoreToObject = (data: FirestoreObjectPart): THREE.Object3D | null => {
   let object: THREE.Object3D | null = null;
 
+  if (data.type === 'Group') {
+    const group = new THREE.Group();
+    (data.children ?? []).forEach((part) => {
+      const child = firestoreToObject(part);
+      if (child) {
+        child.name = part.name;
+        group.add(child);
+      }
+    });
+    object = group;
+  }
+
   // Create geometry based on type and parameters
   if (data.type === 'Mesh' || data.type === 'CustomMesh') {
     let geometry: THREE.BufferGeometry;
@@ -417,13 +538,12 @@ export const deleteObject = async (id: string, projectId: string): Promise<void>
   }
 };
 
-export const getObjects = async (userId: string, projectId: string): Promise<FirestoreObject[]> => {
+export const getObjects = async (projectId: string): Promise<FirestoreObject[]> => {
   try {
     const collections = getProjectCollections(projectId);
-    // Simplified query - filter by userId and projectId only, sort client-side
+    // Every collaborator's documents, sorted client-side
     const q = query(
       collection(db, collections.OBJECTS), 
-      where('userId', '==', userId),
       where('projectId', '==', projectId)
     );
     const querySnapshot = await getDocs(q);
@@ -482,13 +602,12 @@ export const deleteGroup = async (id: string, projectId: string): Promise<void>
   }
 };
 
-export const getGroups = async (userId: string, projectId: string): Promise<FirestoreGroup[]> => {
+export const getGroups = async (projectId: string): Promise<FirestoreGroup[]> => {
   try {
     const collections = getProjectCollections(projectId);
-    // Simplified query - filter by userId and projectId only, sort client-side
+    // Every collaborator's documents, sorted client-side
     const q = query(
       collection(db, collections.GROUPS), 
-      where('userId', '==', userId),
       where('projectId', '==', projectId)
     );
     const querySnapshot = await getDocs(q);
@@ -547,13 +666,12 @@ export const deleteLight = async (id: string, projectId: string): Promise<void>
   }
 };
 
-export const getLights = async (userId: string, projectId: string): Promise<FirestoreLight[]> => {
+export const getLights = async (projectId: string): Promise<FirestoreLight[]> => {
   try {
     const collections = getProjectCollections(projectId);
-    // Simplified query - filter by userId and projectId only, sort client-side
+    // Every collaborator's documents, sorted client-side
     const q = query(
       collection(db, collections.LIGHTS), 
-      where('userId', '==', userId),
       where('projectId', '==', projectId)
     );
     const querySnapshot = await getDocs(q);
@@ -602,13 +720,13 @@ export const updateScene = async (id: string, sceneData: Partial<FirestoreScene>
   }
 };
 
-export const getScenes = async (userId: string, projectId: string): Promise<FirestoreScene[]> => {
+// Scenes are shared by everyone working on the project, whoever saved them last
+export const getScenes = async (projectId: string): Promise<FirestoreScene[]> => {
   try {
     const collections = getProjectCollections(projectId);
-    // Simplified query - filter by userId and projectId only, sort client-side
+    // Filter by projectId only, sort client-side
     const q = query(
       collection(db, collections.SCENES), 
-      where('userId', '==', userId),
       where('projectId', '==', projectId)
     );
     const querySnapshot = await getDocs(q);
@@ -628,13 +746,16 @@ export const getScenes = async (userId: string, projectId: string): Promise<Fire
   }
 };
 
-// Project-scoped Real-time listeners
-export const subscribeToObjects = (userId: string, projectId: string, callback: (objects: FirestoreObject[]) => void) => {
+// Project-scoped Real-time listeners. Documents carry the id of whoever saved them last,
+// so these follow the whole project rather than one user's documents
+export const subscribeToObjects = (
+  projectId: string,
+  callback: (objects: FirestoreObject[], changedIds: Set<string>) => void
+) => {
   const collections = getProjectCollections(projectId);
-  // Simplified query - filter by userId and projectId only
+  // Every collaborator's documents, so edits made by others show up live
   const q = query(
     collection(db, collections.OBJECTS), 
-    where('userId', '==', userId),
     where('projectId', '==', projectId)
   );
   return onSnapshot(q, (querySnapshot) => {
@@ -649,16 +770,18 @@ export const subscribeToObjects = (userId: string, projectId: string, callback:
       return b.createdAt.toMillis() - a.createdAt.toMillis();
     });
     
-    callback(sortedObjects);
+    callback(sortedObjects, new Set(querySnapshot.docChanges().map(change => change.doc.id)));
   });
 };
 
-export const subscribeToGroups = (userId: string, projectId: string, callback: (groups: FirestoreGroup[]) => void) => {
+export const subscribeToGroups = (
+  projectId: string,
+  callback: (groups: FirestoreGroup[], changedIds: Set<string>) => void
+) => {
   const collections = getProjectCollections(projectId);
-  // Simplified query - filter by userId and projectId only
+  // Every collaborator's documents, so edits made by others show up live
   const q = query(
     collection(db, collections.GROUPS), 
-    where('userId', '==', userId),
     where('projectId', '==', projectId)
   );
   return onSnapshot(q, (querySnapshot) => {
@@ -673,16 +796,18 @@ export const subscribeToGroups = (userId: string, projectId: string, callback: (
       return b.createdAt.toMillis() - a.createdAt.toMillis();
     });
     
-    callback(sortedGroups);
+    callback(sortedGroups, new Set(querySnapshot.docChanges().map(change => change.doc.id)));
   });
 };
 
-export const subscribeToLights = (userId: string, projectId: string, callback: (lights: FirestoreLight[]) => void) => {
+export const subscribeToLights = (
+  projectId: string,
+  callback: (lights: FirestoreLight[], changedIds: Set<string>) => void
+) => {
   const collections = getProjectCollections(projectId);
-  // Simplified query - filter by userId and projectId only
+  // Every collaborator's documents, so edits made by others show up live
   const q = query(
     collection(db, collections.LIGHTS), 
-    where('userId', '==', userId),
     where('projectId', '==', projectId)
   );
   return onSnapshot(q, (querySnapshot) => {
@@ -697,7 +822,88 @@ export const subscribeToLights = (userId: string, projectId: string, callback: (
       return b.createdAt.toMillis() - a.createdAt.toMillis();
     });
     
-    callback(sortedLights);
+    callback(sortedLights, new Set(querySnapshot.docChanges().map(change => change.doc.id)));
+  });
+};
+
+// Project-scoped Annotation operations. Annotations are discussion rather than scene content,
+// so they are written straight away instead of going through autosave
+export const saveAnnotation = async (annotationData: FirestoreAnnotation, projectId: string): Promise<string> => {
+  try {
+    const collections = getProjectCollections(projectId);
+    const docRef = await addDoc(collection(db, collections.ANNOTATIONS), {
+      ...annotationData,
+      projectId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error saving annotation:', error);
+    throw error;
+  }
+};
+
+export const updateAnnotation = async (id: string, annotationData: Partial<FirestoreAnnotation>, projectId: string): Promise<void> => {
+  try {
+    const collections = getProjectCollections(projectId);
+    await updateDoc(doc(db, collections.ANNOTATIONS, id), {
+      ...annotationData,
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    console.error('Error updating annotation:', error);
+    throw error;
+  }
+};
+
+// Replies are added without rewriting the thread, so replies posted at the same time are all kept
+export const addAnnotationComment = async (id: string, comment: AnnotationComment, projectId: string): Promise<void> => {
+  try {
+    const collections = getProjectCollections(projectId);
+    await updateDoc(doc(db, collections.ANNOTATIONS, id), {
+      comments: arrayUnion(comment),
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    console.error('Error adding annotation comment:', error);
+    throw error;
+  }
+};
+
+export const deleteAnnotation = async (id: string, projectId: string): Promise<void> => {
+  try {
+    const collections = getProjectCollections(projectId);
+    await deleteDoc(doc(db, collections.ANNOTATIONS, id));
+  } catch (error) {
+    console.error('Error deleting annotation:', error);
+    throw error;
+  }
+};
+
+export const subscribeToAnnotations = (
+  projectId: string,
+  callback: (annotations: FirestoreAnnotation[], changedIds: Set<string>) => void
+) => {
+  const collections = getProjectCollections(projectId);
+  const q = query(
+    collection(db, collections.ANNOTATIONS),
+    where('projectId', '==', projectId)
+  );
+  return onSnapshot(q, (querySnapshot) => {
+    const annotations = querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    } as FirestoreAnnotation));
+
+    // Oldest first so pins keep their numbers; ones still being written go last
+    const sortedAnnotations = annotations.sort((a, b) =>
+      (a.createdAt?.toMillis() ?? Number.MAX_SAFE_INTEGER) - (b.createdAt?.toMillis() ?? Number.MAX_SAFE_INTEGER)
+    );
+
+    callback(sortedAnnotations, new Set(querySnapshot.docChanges().map(change => change.doc.id)));
+  }, (error) => {
+    console.error('Error subscribing to annotations:', error);
   });
 };
 
@@ -765,42 +971,20 @@ export const copyProjectData = async (
   try {
     // Get all data from source project
     const [objects, groups, lights, scenes] = await Promise.all([
-      getObjects(userId, sourceProjectId),
-      getGroups(userId, sourceProjectId),
-      getLights(userId, sourceProjectId),
-      getScenes(userId, sourceProjectId)
+      getObjects(sourceProjectId),
+      getGroups(sourceProjectId),
+      getLights(sourceProjectId),
+      getScenes(sourceProjectId)
     ]);
     
-    // Copy objects
-    const objectPromises = objects.map(obj => {
-      const { id, createdAt, updatedAt, ...objData } = obj;
-      return saveObject(objData, userId, targetProjectId);
-    });
-    
-    // Copy groups
-    const groupPromises = groups.map(group => {
-      const { id, createdAt, updatedAt, ...groupData } = group;
-      return saveGroup(groupData, userId, targetProjectId);
-    });
-    
-    // Copy lights
-    const lightPromises = lights.map(light => {
-      const { id, createdAt, updatedAt, ...lightData } = light;
-      return saveLight(lightData, userId, targetProjectId);
-    });
-    
-    // Copy scenes
-    const scenePromises = scenes.map(scene => {
-      const { id, createdAt, updatedAt, ...sceneData } = scene;
-      return saveScene(sceneData, userId, targetProjectId);
-    });
-    
-    await Promise.all([
-      ...objectPromises,
-      ...groupPromises,
-      ...lightPromises,
-      ...scenePromises
-    ]);
+    // Documents keep their ids in the copy, so group memberships and scene ids stay valid
+    const writes: DocumentWrite[] = [
+      ...objects.map((data): DocumentWrite => ({ collection: 'objects', id: data.id as string, data })),
+      ...groups.map((data): DocumentWrite => ({ collection: 'groups', id: data.id as string, data })),
+      ...lights.map((data): DocumentWrite => ({ collection: 'lights', id: data.id as string, data })),
+      ...scenes.map((data): DocumentWrite => ({ collection: 'scenes', id: data.id as string, data }))
+    ];
+    await saveDocumentsBatch(writes, userId, targetProjectId);
     
     console.log(`Copied data from project ${sourceProjectId} to ${targetProjectId}`);
   } catch (error) {
@@ -823,13 +1007,89 @@ export const saveObjectsBatch = async (objects: FirestoreObject[], userId: strin
   }
 };
 
+// Firestore rejects write batches with more than 500 operations
+const MAX_BATCH_WRITES = 500;
+
+export const updateObjectsBatch = async (
+  updates: Array<{ id: string; data: Partial<FirestoreObject> }>,
+  userId: string,
+  projectId: string
+): Promise<void> => {
+  try {
+    const collections = getProjectCollections(projectId);
+    for (let start = 0; start < updates.length; start += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      updates.slice(start, start + MAX_BATCH_WRITES).forEach(({ id, data }) => {
+        batch.update(doc(db, collections.OBJECTS, id), {
+          ...data,
+          userId,
+          projectId,
+          updatedAt: serverTimestamp()
+        });
+      });
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error('Error updating objects batch:', error);
+    throw error;
+  }
+};
+
+export type ProjectCollection = 'objects' | 'groups' | 'lights' | 'scenes';
+
+const COLLECTION_KEYS = { objects: 'OBJECTS', groups: 'GROUPS', lights: 'LIGHTS', scenes: 'SCENES' } as const;
+
+// A document to write, or delete when data is null
+export interface DocumentWrite {
+  collection: ProjectCollection;
+  id: string;
+  data: FirestoreObject | FirestoreGroup | FirestoreLight | FirestoreScene | null;
+  // Fields this write changes; their versions go up by one
+  changedFields?: string[];
+}
+
+// Helper function to reserve an id for a document before it is written, so a new
+// object can be tracked under the same id locally and in the database
+export const createDocumentId = (projectId: string, collectionName: ProjectCollection): string =>
+  doc(collection(db, getProjectCollections(projectId)[COLLECTION_KEYS[collectionName]])).id;
+
+// Write changed documents of any kind in as few batches as possible. Writes merge into
+// existing documents so fields like createdAt survive
+export const saveDocumentsBatch = async (writes: DocumentWrite[], userId: string, projectId: string): Promise<void> => {
+  try {
+    const collections = getProjectCollections(projectId);
+    for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      writes.slice(start, start + MAX_BATCH_WRITES).forEach(({ collection: collectionName, id, data, changedFields }) => {
+        const documentRef = doc(db, collections[COLLECTION_KEYS[collectionName]], id);
+        if (data) {
+          // Incremented on the server so concurrent saves can't hand out the same version twice
+          const fieldVersions = changedFields?.length
+            ? { fieldVersions: Object.fromEntries(changedFields.map(field => [field, increment(1)])) }
+            : {};
+          batch.set(documentRef, { ...data, ...fieldVersions, id, userId, projectId, updatedAt: serverTimestamp() }, { merge: true });
+        } else {
+          batch.delete(documentRef);
+        }
+      });
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error('Error saving documents batch:', error);
+    throw error;
+  }
+};
+
 export const deleteObjectsBatch = async (ids: string[], projectId: string): Promise<void> => {
   try {
-    const batch = [];
-    for (const id of ids) {
-      batch.push(deleteObject(id, projectId));
+    const collections = getProjectCollections(projectId);
+    for (let start = 0; start < ids.length; start += MAX_BATCH_WRITES) {
+      const batch = writeBatch(db);
+      ids.slice(start, start + MAX_BATCH_WRITES).forEach(id => {
+        batch.delete(doc(db, collections.OBJECTS, id));
+      });
+      await batch.commit();
     }
-    await Promise.all(batch);
   } catch (error) {
     console.error('Error deleting objects batch:', error);
     throw error;
@@ -0,0 +1,420 @@
+import { Timestamp } from 'firebase/firestore';
+import {
+  AnnotationComment,
+  DocumentWrite,
+  FirestoreObject,
+  FirestoreGroup,
+  FirestoreLight,
+  FirestoreScene,
+  FirestoreAnnotation,
+  ProjectCollection
+} from './firestoreService';
+import { AccessTokenRecord, ProjectMember, ProjectRecord, ProjectRepository } from './repository';
+
+const STORAGE_KEY = 'studio-local-data';
+
+// The signed-in user of the local demo classroom
+export const DEMO_USER = {
+  uid: 'demo-teacher',
+  email: 'teacher@demo.local',
+  displayName: 'Demo Teacher'
+};
+
+const PROJECTS_COLLECTION = 'classroom_projects';
+
+const ACCESS_COLLECTION = 'project_access';
+
+// Documents are kept with their timestamps as milliseconds so they survive JSON
+type StoredDocument = Record<string, unknown> & { id: string; createdAt: number; updatedAt: number };
+type StoredCollections = Record<string, Record<string, StoredDocument>>;
+
+const contentPath = (projectId: string, collectionName: ProjectCollection) => `projects/${projectId}/${collectionName}`;
+
+const annotationPath = (projectId: string) => `projects/${projectId}/annotations`;
+
+// Helper function to make an id shaped like the ones Firestore hands out
+const createId = () => crypto.randomUUID().replace(/-/g, '').slice(0, 20);
+
+// Helper function to drop the server timestamp placeholders a write may carry; the local store sets its own
+const withoutTimestamps = (data: object): Record<string, unknown> => {
+  const rest = { ...data } as Record<string, unknown>;
+  delete rest.createdAt;
+  delete rest.updatedAt;
+  return rest;
+};
+
+// A small classroom to explore when there is no saved data yet
+const createDemoData = (): StoredCollections => {
+  const now = Date.now();
+  const projectId = 'demo-project';
+  const sceneId = 'demo-scene';
+  const stamp = (id: string, data: Record<string, unknown>): StoredDocument =>
+    ({ ...data, id, projectId, userId: DEMO_USER.uid, createdAt: now, updatedAt: now });
+
+  return {
+    [PROJECTS_COLLECTION]: {
+      [projectId]: {
+        id: projectId,
+        name: 'Demo Classroom',
+        description: 'A sample project stored in this browser',
+        teacherId: DEMO_USER.uid,
+        teacherName: DEMO_USER.displayName,
+        status: 'active',
+        isFavorite: false,
+        students: [
+          { id: 'demo-student', email: 'student@demo.local', name: 'Demo Student', role: 'student', joinedAt: new Date(now).toISOString() }
+        ],
+        settings: {
+          allowStudentEdit: true,
+          allowStudentShare: false,
+          maxObjects: 100,
+          enableCollaboration: true,
+          autoSave: true
+        },
+        objectCount: 2,
+        createdAt: now,
+        updatedAt: now
+      }
+    },
+    [contentPath(projectId, 'scenes')]: {
+      [sceneId]: stamp(sceneId, {
+        name: 'Main Scene',
+        order: 0,
+        backgroundColor: '#0f0f23',
+        showGrid: true,
+        gridSize: 10,
+        gridDivisions: 10,
+        cameraPerspective: 'perspective',
+        cameraZoom: 1
+      })
+    },
+    [contentPath(projectId, 'objects')]: {
+      'demo-cube': stamp('demo-cube', {
+        name: 'Cube',
+        type: 'Mesh',
+        sceneId,
+        position: { x: -1, y: 0.5, z: 0 },
+        rotation: { x: 0, y: 0, z: 0 },
+        scale: { x: 1, y: 1, z: 1 },
+        color: '#44aa88',
+        opacity: 1,
+        visible: true,
+        locked: false,
+        geometryParams: { width: 1, height: 1, depth: 1 }
+      }),
+      'demo-sphere': stamp('demo-sphere', {
+        name: 'Sphere',
+        type: 'Mesh',
+        sceneId,
+        position: { x: 1, y: 0.5, z: 0 },
+        rotation: { x: 0, y: 0, z: 0 },
+        scale: { x: 1, y: 1, z: 1 },
+        color: '#4488aa',
+        opacity: 1,
+        visible: true,
+        locked: false,
+        geometryParams: { radius: 0.5, widthSegments: 32, heightSegments: 16 }
+      })
+    },
+    [contentPath(projectId, 'lights')]: {
+      'demo-light': stamp('demo-light', {
+        name: 'Sun',
+        type: 'directional',
+        sceneId,
+        position: [5, 8, 5],
+        target: [0, 0, 0],
+        intensity: 1,
+        color: '#ffffff',
+        visible: true,
+        castShadow: true,
+        distance: 0,
+        decay: 2,
+        angle: Math.PI / 3,
+        penumbra: 0
+      })
+    }
+  };
+};
+
+const loadCollections = (): StoredCollections => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : createDemoData();
+  } catch (error) {
+    console.error('Error reading local data, starting from the demo classroom:', error);
+    return createDemoData();
+  }
+};
+
+// Keeps every project in memory and mirrors it to localStorage, so the app runs
+// without a network or a Firebase project. Only this browser sees the data
+export const createLocalRepository = (): ProjectRepository => {
+  const collections = loadCollections();
+  const listeners = new Map<string, Set<(changedIds: Set<string>) => void>>();
+
+  const persist = () => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(collections));
+    } catch (error) {
+      // Storage full or disabled; the data still lives for this session
+      console.error('Error saving local data:', error);
+    }
+  };
+
+  const documentsIn = (path: string) => Object.values(collections[path] ?? {});
+
+  // Newest first, with Firestore timestamps like the cloud backend returns
+  const readContent = <T>(path: string): T[] =>
+    documentsIn(path)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map(data => ({
+        ...data,
+        createdAt: Timestamp.fromMillis(data.createdAt),
+        updatedAt: Timestamp.fromMillis(data.updatedAt)
+      }) as unknown as T);
+
+  const toProjectRecord = (data: StoredDocument): ProjectRecord => ({
+    ...data,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt)
+  });
+
+  const toAccessTokenRecord = (data: StoredDocument): AccessTokenRecord => ({
+    token: data.id,
+    projectId: data.projectId as string,
+    kind: data.kind as AccessTokenRecord['kind'],
+    createdBy: data.createdBy as string,
+    createdAt: new Date(data.createdAt),
+    expiresAt: data.expiresAt ? new Date(data.expiresAt as string) : null,
+    revoked: !!data.revoked,
+    ...(data.invitationId ? { invitationId: data.invitationId as string } : {})
+  });
+
+  // Snapshots are delivered asynchronously, as they are from Firestore
+  const notify = (path: string, changedIds: Set<string>) => {
+    listeners.get(path)?.forEach(listener => setTimeout(() => listener(changedIds), 0));
+  };
+
+  const subscribe = <T>(path: string, callback: (documents: T[], changedIds: Set<string>) => void) => {
+    const listener = (changedIds: Set<string>) => callback(readContent<T>(path), changedIds);
+    listeners.set(path, new Set([...(listeners.get(path) ?? []), listener]));
+    setTimeout(() => listener(new Set(documentsIn(path).map(data => data.id))), 0);
+
+    return () => {
+      listeners.get(path)?.delete(listener);
+    };
+  };
+
+  // Helper function to rewrite one annotation and tell its subscribers
+  const writeAnnotation = (projectId: string, id: string, update: (existing: StoredDocument) => Record<string, unknown>) => {
+    const path = annotationPath(projectId);
+    const existing = collections[path]?.[id];
+    if (!existing) {
+      throw new Error(`Annotation ${id} does not exist`);
+    }
+    collections[path][id] = { ...existing, ...update(existing), updatedAt: Date.now() };
+    persist();
+    notify(path, new Set([id]));
+  };
+
+  return {
+    listProjects: async (teacherId) =>
+      documentsIn(PROJECTS_COLLECTION)
+        .filter(data => data.teacherId === teacherId)
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .map(toProjectRecord),
+
+    listEnrolledProjects: async (member: ProjectMember) => {
+      const email = member.email?.toLowerCase();
+      return documentsIn(PROJECTS_COLLECTION)
+        .filter(data => (data.students as Array<{ id: string; email: string }> | undefined)?.some(student =>
+          student.id === member.uid || (!!email && student.email.toLowerCase() === email)
+        ))
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .map(toProjectRecord);
+    },
+
+    getProject: async (projectId) => {
+      const data = collections[PROJECTS_COLLECTION]?.[projectId];
+      return data ? toProjectRecord(data) : null;
+    },
+
+    createProject: async (data) => {
+      const id = createId();
+      const now = Date.now();
+      collections[PROJECTS_COLLECTION] = {
+        ...collections[PROJECTS_COLLECTION],
+        [id]: { ...withoutTimestamps(data), id, createdAt: now, updatedAt: now }
+      };
+      persist();
+      return id;
+    },
+
+    updateProject: async (projectId, data) => {
+      const existing = collections[PROJECTS_COLLECTION]?.[projectId];
+      if (!existing) {
+        throw new Error(`Project ${projectId} does not exist`);
+      }
+      collections[PROJECTS_COLLECTION][projectId] = { ...existing, ...withoutTimestamps(data), updatedAt: Date.now() };
+      persist();
+    },
+
+    appendToProject: async (projectId, field, entries) => {
+      const existing = collections[PROJECTS_COLLECTION]?.[projectId];
+      if (!existing) {
+        throw new Error(`Project ${projectId} does not exist`);
+      }
+      const list = [...((existing[field] as unknown[] | undefined) ?? []), ...entries];
+      collections[PROJECTS_COLLECTION][projectId] = { ...existing, [field]: list, updatedAt: Date.now() };
+      persist();
+    },
+
+    updateProjectWith: async (projectId, update) => {
+      const existing = collections[PROJECTS_COLLECTION]?.[projectId];
+      if (!existing) {
+        throw new Error(`Project ${projectId} does not exist`);
+      }
+      const data = update(toProjectRecord(existing));
+      if (data) {
+        collections[PROJECTS_COLLECTION][projectId] = { ...existing, ...withoutTimestamps(data), updatedAt: Date.now() };
+        persist();
+      }
+      return data;
+    },
+
+    deleteProject: async (projectId) => {
+      delete collections[PROJECTS_COLLECTION]?.[projectId];
+      // Nothing else can reach the project's content once it is gone
+      (['objects', 'groups', 'lights', 'scenes'] as ProjectCollection[]).forEach((collectionName) => {
+        delete collections[contentPath(projectId, collectionName)];
+      });
+      delete collections[annotationPath(projectId)];
+      documentsIn(ACCESS_COLLECTION)
+        .filter(data => data.projectId === projectId)
+        .forEach(data => delete collections[ACCESS_COLLECTION][data.id]);
+      persist();
+    },
+
+    getAccessToken: async (token) => {
+      const data = collections[ACCESS_COLLECTION]?.[token];
+      return data ? toAccessTokenRecord(data) : null;
+    },
+
+    listAccessTokens: async (projectId) =>
+      documentsIn(ACCESS_COLLECTION)
+        .filter(data => data.projectId === projectId)
+        .map(toAccessTokenRecord),
+
+    saveAccessToken: async ({ token, ...record }) => {
+      collections[ACCESS_COLLECTION] = {
+        ...collections[ACCESS_COLLECTION],
+        [token]: { ...record, id: token, createdAt: new Date(record.createdAt).getTime(), updatedAt: Date.now() }
+      };
+      persist();
+    },
+
+    revokeAccessToken: async (token) => {
+      const existing = collections[ACCESS_COLLECTION]?.[token];
+      if (!existing) {
+        throw new Error(`Access token ${token} does not exist`);
+      }
+      collections[ACCESS_COLLECTION][token] = { ...existing, revoked: true, updatedAt: Date.now() };
+      persist();
+    },
+
+    createDocumentId: () => createId(),
+
+    saveDocumentsBatch: async (writes: DocumentWrite[], userId: string, projectId: string) => {
+      const now = Date.now();
+      const changed = new Map<string, Set<string>>();
+
+      writes.forEach(({ collection: collectionName, id, data, changedFields }) => {
+        const path = contentPath(projectId, collectionName);
+        const documents = collections[path] ?? {};
+        collections[path] = documents;
+
+        if (data) {
+          // Same merge semantics as the cloud backend: fields not written are kept
+          const existing = documents[id];
+          const fieldVersions = { ...(existing?.fieldVersions as Record<string, number> | undefined) };
+          changedFields?.forEach((field) => {
+            fieldVersions[field] = (fieldVersions[field] ?? 0) + 1;
+          });
+          documents[id] = {
+            ...existing,
+            ...withoutTimestamps(data),
+            ...(changedFields?.length || existing?.fieldVersions ? { fieldVersions } : {}),
+            id,
+            userId,
+            projectId,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now
+          };
+        } else {
+          delete documents[id];
+        }
+        changed.set(path, new Set([...(changed.get(path) ?? []), id]));
+      });
+
+      persist();
+      changed.forEach((ids, path) => notify(path, ids));
+    },
+
+    copyProjectData: async (sourceProjectId, targetProjectId, userId) => {
+      const now = Date.now();
+      (['objects', 'groups', 'lights', 'scenes'] as ProjectCollection[]).forEach((collectionName) => {
+        collections[contentPath(targetProjectId, collectionName)] = Object.fromEntries(
+          documentsIn(contentPath(sourceProjectId, collectionName)).map(data => [
+            data.id,
+            { ...data, userId, projectId: targetProjectId, createdAt: now, updatedAt: now }
+          ])
+        );
+      });
+      persist();
+    },
+
+    getObjects: async (projectId) => readContent<FirestoreObject>(contentPath(projectId, 'objects')),
+    getGroups: async (projectId) => readContent<FirestoreGroup>(contentPath(projectId, 'groups')),
+    getLights: async (projectId) => readContent<FirestoreLight>(contentPath(projectId, 'lights')),
+    getScenes: async (projectId) => readContent<FirestoreScene>(contentPath(projectId, 'scenes')),
+
+    subscribeToObjects: (projectId, callback) => subscribe(contentPath(projectId, 'objects'), callback),
+    subscribeToGroups: (projectId, callback) => subscribe(contentPath(projectId, 'groups'), callback),
+    subscribeToLights: (projectId, callback) => subscribe(contentPath(projectId, 'lights'), callback),
+
+    saveAnnotation: async (annotationData, projectId) => {
+      const id = createId();
+      const now = Date.now();
+      const path = annotationPath(projectId);
+      collections[path] = {
+        ...collections[path],
+        [id]: { ...withoutTimestamps(annotationData), id, projectId, createdAt: now, updatedAt: now }
+      };
+      persist();
+      notify(path, new Set([id]));
+      return id;
+    },
+
+    updateAnnotation: async (id, annotationData, projectId) => {
+      writeAnnotation(projectId, id, () => withoutTimestamps(annotationData));
+    },
+
+    addAnnotationComment: async (id, comment, projectId) => {
+      writeAnnotation(projectId, id, existing => ({
+        comments: [...((existing.comments as AnnotationComment[] | undefined) ?? []), comment]
+      }));
+    },
+
+    deleteAnnotation: async (id, projectId) => {
+      const path = annotationPath(projectId);
+      delete collections[path]?.[id];
+      persist();
+      notify(path, new Set([id]));
+    },
+
+    // Oldest first, as the cloud backend sorts them, so pins keep their numbers
+    subscribeToAnnotations: (projectId, callback) =>
+      subscribe<FirestoreAnnotation>(annotationPath(projectId), (annotations, changedIds) =>
+        callback([...annotations].reverse(), changedIds))
+  };
+};
@@ -0,0 +1,70 @@
+// An email as the app hands it over for delivery
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Whatever delivers the app's email. Swap the implementation to change how mail goes out
+export interface MailTransport {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+// A message the development outbox kept instead of sending
+export interface OutboxMessage extends MailMessage {
+  id: string;
+  queuedAt: string;
+}
+
+const OUTBOX_KEY = 'studio-mail-outbox';
+// Only the most recent messages are kept
+const OUTBOX_LIMIT = 50;
+
+export const getOutboxMessages = (): OutboxMessage[] => {
+  try {
+    return JSON.parse(localStorage.getItem(OUTBOX_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+// Stand-in for development: messages stay in this browser and are logged to the console
+export const createOutboxTransport = (): MailTransport => ({
+  send: async (message) => {
+    const entry: OutboxMessage = { ...message, id: crypto.randomUUID(), queuedAt: new Date().toISOString() };
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify([entry, ...getOutboxMessages()].slice(0, OUTBOX_LIMIT)));
+    console.info(`Mail to ${message.to} kept in the local outbox\n\n${message.subject}\n\n${message.text}`);
+  }
+});
+
+// Posts each message as JSON to a mail-sending endpoint run by the school or a provider
+export const createHttpTransport = (endpoint: string): MailTransport => ({
+  send: async (message) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message)
+    });
+    if (!response.ok) {
+      throw new Error(`Mail endpoint responded with ${response.status}`);
+    }
+  }
+});
+
+export type MailTransportKind = 'http' | 'outbox';
+
+// Picked once at startup. Without `VITE_MAIL_ENDPOINT` mail only reaches the local outbox
+export const MAIL_TRANSPORT: MailTransportKind = import.meta.env.VITE_MAIL_ENDPOINT ? 'http' : 'outbox';
+
+const transport: MailTransport = MAIL_TRANSPORT === 'http'
+  ? createHttpTransport(import.meta.env.VITE_MAIL_ENDPOINT as string)
+  : createOutboxTransport();
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  try {
+    await transport.send(message);
+  } catch (error) {
+    console.error('Error sending mail:', error);
+    throw error;
+  }
+};
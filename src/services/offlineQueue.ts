@@ -0,0 +1,158 @@
+import { serverTimestamp } from 'firebase/firestore';
+import { DocumentWrite, ProjectCollection } from './firestoreService';
+import { repository } from './repository';
+
+const DB_NAME = 'studio-offline';
+const DB_VERSION = 1;
+const QUEUE_STORE = 'outbound';
+
+// A document write kept on this device until the database has acknowledged it
+export interface QueuedWrite {
+  // One entry per document; a newer write of the same document replaces the older one
+  key: string;
+  projectId: string;
+  userId: string;
+  collection: ProjectCollection;
+  id: string;
+  // The document without the timestamps the database fills in; null deletes it
+  data: Record<string, unknown> | null;
+  changedFields?: string[];
+  // Whether the write creates the document, so createdAt gets set when it is sent
+  created: boolean;
+  queuedAt: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(QUEUE_STORE, { keyPath: 'key' });
+        store.createIndex('projectId', 'projectId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again instead of failing forever
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+// Helper function to run one read-write or read-only transaction on the queue
+const withQueue = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(QUEUE_STORE, mode);
+    const request = run(transaction.objectStore(QUEUE_STORE));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const queueKey = (projectId: string, collectionName: ProjectCollection, id: string) =>
+  `${projectId}/${collectionName}/${id}`;
+
+// Helper function to turn a write into something IndexedDB can store. The server timestamps
+// are placeholders that only mean something to Firestore, so they are added back when sending
+const toQueuedWrite = (projectId: string, userId: string, write: DocumentWrite, queuedAt: number): QueuedWrite => {
+  const data: Record<string, unknown> = { ...write.data };
+  const created = data.createdAt !== undefined;
+  delete data.createdAt;
+  delete data.updatedAt;
+
+  return {
+    key: queueKey(projectId, write.collection, write.id),
+    projectId,
+    userId,
+    collection: write.collection,
+    id: write.id,
+    data: write.data ? data : null,
+    ...(write.changedFields ? { changedFields: write.changedFields } : {}),
+    created,
+    queuedAt
+  };
+};
+
+const toDocumentWrite = (entry: QueuedWrite): DocumentWrite => ({
+  collection: entry.collection,
+  id: entry.id,
+  data: entry.data
+    ? ({ ...entry.data, ...(entry.created ? { createdAt: serverTimestamp() } : {}) } as unknown as DocumentWrite['data'])
+    : null,
+  ...(entry.changedFields ? { changedFields: entry.changedFields } : {})
+});
+
+// Keep writes on this device until they are acknowledged. Returns the stored entries, which
+// are needed to remove exactly these versions once they are sent
+export const queueWrites = async (projectId: string, userId: string, writes: DocumentWrite[]): Promise<QueuedWrite[]> => {
+  try {
+    const queuedAt = Date.now();
+    const entries = writes.map(write => toQueuedWrite(projectId, userId, write, queuedAt));
+    await withQueue('readwrite', (store) => {
+      entries.forEach(entry => store.put(entry));
+    });
+    return entries;
+  } catch (error) {
+    console.error('Error queueing writes:', error);
+    throw error;
+  }
+};
+
+export const getQueuedWrites = async (projectId: string): Promise<QueuedWrite[]> => {
+  try {
+    const entries = await withQueue<QueuedWrite[]>('readonly', store => store.index('projectId').getAll(projectId));
+    return (entries ?? []).sort((a, b) => a.queuedAt - b.queuedAt);
+  } catch (error) {
+    console.error('Error reading queued writes:', error);
+    throw error;
+  }
+};
+
+// Remove sent writes. An entry replaced by a newer write of the same document meanwhile is kept
+export const removeQueuedWrites = async (entries: QueuedWrite[]): Promise<void> => {
+  try {
+    await withQueue('readwrite', (store) => {
+      entries.forEach((entry) => {
+        const request = store.get(entry.key);
+        request.onsuccess = () => {
+          const stored = request.result as QueuedWrite | undefined;
+          if (stored && stored.queuedAt === entry.queuedAt) {
+            store.delete(entry.key);
+          }
+        };
+      });
+    });
+  } catch (error) {
+    console.error('Error removing queued writes:', error);
+    throw error;
+  }
+};
+
+// Send queued writes, e.g. ones recovered from a session that ended before they were saved
+export const replayQueuedWrites = async (entries: QueuedWrite[]): Promise<void> => {
+  try {
+    // Writes are sent under the account that made them
+    const batches = new Map<string, QueuedWrite[]>();
+    entries.forEach((entry) => {
+      const batchKey = `${entry.projectId}/${entry.userId}`;
+      batches.set(batchKey, [...(batches.get(batchKey) ?? []), entry]);
+    });
+
+    for (const batch of batches.values()) {
+      await repository.saveDocumentsBatch(batch.map(toDocumentWrite), batch[0].userId, batch[0].projectId);
+      await removeQueuedWrites(batch);
+    }
+  } catch (error) {
+    console.error('Error replaying queued writes:', error);
+    throw error;
+  }
+};
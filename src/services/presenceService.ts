@@ -0,0 +1,63 @@
+import {
+  collection,
+  doc,
+  setDoc,
+  deleteDoc,
+  onSnapshot,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../config/firebase';
+
+// Where a collaborator's camera is, enough to draw its view frustum for others
+export interface PresenceCamera {
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+  fov: number;
+  aspect: number;
+}
+
+// One heartbeat document per user per project, rewritten while the user has the studio open
+export interface PresenceData {
+  userId: string;
+  displayName: string;
+  color: string;
+  sceneId: string | null;
+  selectedObjectIds: string[];
+  // Objects the user is dragging with the transform gizmo right now
+  heldObjectIds: string[];
+  camera: PresenceCamera | null;
+  lastSeen?: Timestamp;
+}
+
+const getPresenceCollection = (projectId: string) => `projects/${projectId}/presence`;
+
+export const updatePresence = async (projectId: string, presence: PresenceData): Promise<void> => {
+  try {
+    await setDoc(
+      doc(db, getPresenceCollection(projectId), presence.userId),
+      { ...presence, lastSeen: serverTimestamp() },
+      { merge: true }
+    );
+  } catch (error) {
+    console.error('Error updating presence:', error);
+    throw error;
+  }
+};
+
+export const removePresence = async (projectId: string, userId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, getPresenceCollection(projectId), userId));
+  } catch (error) {
+    console.error('Error removing presence:', error);
+    throw error;
+  }
+};
+
+export const subscribeToPresence = (projectId: string, callback: (presence: PresenceData[]) => void) => {
+  return onSnapshot(collection(db, getPresenceCollection(projectId)), (querySnapshot) => {
+    callback(querySnapshot.docs.map(doc => doc.data() as PresenceData));
+  }, (error) => {
+    console.error('Error subscribing to presence:', error);
+  });
+};
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { exportProjectBundle, importProjectBundle } from './projectBundle';
+import { repository } from './repository';
+
+// Project documents in memory. A stored field named id shadows the document id, the way a
+// record built from `{ id: doc.id, ...data }` does
+vi.mock('./repository', () => {
+  const projects = new Map<string, Record<string, unknown>>();
+  let nextId = 0;
+  return {
+    repository: {
+      projects,
+      getProject: async (projectId: string) => {
+        const data = projects.get(projectId);
+        return data ? { id: projectId, createdAt: new Date(), updatedAt: new Date(), ...data } : null;
+      },
+      createProject: async (data: Record<string, unknown>) => {
+        const projectId = `project-${++nextId}`;
+        projects.set(projectId, data);
+        return projectId;
+      },
+      deleteProject: async (projectId: string) => {
+        projects.delete(projectId);
+      },
+      createDocumentId: () => `document-${++nextId}`,
+      saveDocumentsBatch: async () => undefined,
+      getObjects: async () => [],
+      getGroups: async () => [],
+      getLights: async () => [],
+      getScenes: async () => []
+    }
+  };
+});
+
+const projects = (repository as unknown as { projects: Map<string, Record<string, unknown>> }).projects;
+
+describe('project bundles', () => {
+  beforeEach(() => {
+    projects.clear();
+  });
+
+  it('gives an imported project its own id', async () => {
+    const sourceId = await repository.createProject({ name: 'Bridges', teacherId: 'teacher-a', status: 'active' });
+
+    const bundle = await exportProjectBundle(sourceId);
+    expect(bundle.project.id).toBeUndefined();
+
+    const firstId = await importProjectBundle(bundle, 'teacher-b', 'Teacher B');
+    const secondId = await importProjectBundle(bundle, 'teacher-b', 'Teacher B');
+    expect(firstId).not.toBe(sourceId);
+    expect(secondId).not.toBe(firstId);
+
+    const imported = await repository.getProject(firstId);
+    expect(imported?.id).toBe(firstId);
+    expect(imported?.name).toBe('Bridges');
+    expect(imported?.teacherId).toBe('teacher-b');
+    expect((await repository.getProject(secondId))?.id).toBe(secondId);
+  });
+});
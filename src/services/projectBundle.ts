@@ -0,0 +1,267 @@
+import { Timestamp } from 'firebase/firestore';
+import {
+  FirestoreObject,
+  FirestoreGroup,
+  FirestoreLight,
+  FirestoreScene,
+  DocumentWrite,
+  ProjectCollection
+} from './firestoreService';
+import { repository } from './repository';
+import { downloadFile } from '../utils/download';
+
+// Bundle identification - bump the version whenever the bundle layout changes
+export const PROJECT_BUNDLE_FORMAT = 'classroom-3d-project';
+export const PROJECT_BUNDLE_VERSION = 1;
+
+type BundleEntry<T> = Omit<T, 'userId' | 'projectId' | 'createdAt' | 'updatedAt'>;
+
+export interface ProjectBundle {
+  format: typeof PROJECT_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: {
+    name: string;
+    description?: string;
+    status?: string;
+    settings?: Record<string, unknown>;
+    [key: string]: unknown;
+  };
+  objects: BundleEntry<FirestoreObject>[];
+  groups: BundleEntry<FirestoreGroup>[];
+  lights: BundleEntry<FirestoreLight>[];
+  scenes: BundleEntry<FirestoreScene>[];
+}
+
+// Project document fields that belong to the exporting account and never travel with a bundle.
+// The imported project gets its own id
+const ACCOUNT_FIELDS = [
+  'id', 'teacherId', 'teacherName', 'students', 'memberIds', 'memberEmails',
+  'classCode', 'joinInvites', 'joinRequests', 'viewTokens', 'emailInvitations',
+  'assignment', 'submission', 'grade', 'isFavorite', 'createdAt', 'updatedAt'
+];
+
+// Helper function to turn Firestore values into plain JSON (Timestamps become ISO strings)
+const toPlainValue = (value: unknown): unknown => {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlainValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, toPlainValue(entry)])
+    );
+  }
+  return value;
+};
+
+// Helper function to drop scoping and timestamp fields from a subcollection document
+const toBundleEntry = <T extends object>(entry: T) => {
+  const rest = { ...entry } as Record<string, unknown>;
+  ['userId', 'projectId', 'createdAt', 'updatedAt'].forEach(field => delete rest[field]);
+  return toPlainValue(rest) as BundleEntry<T>;
+};
+
+// Helper function to strip the bundle-local ID before writing an entry to a new project
+const withoutId = <T extends { id?: string }>(entry: T): Omit<T, 'id'> => {
+  const rest = { ...entry };
+  delete rest.id;
+  return rest;
+};
+
+export const exportProjectBundle = async (projectId: string): Promise<ProjectBundle> => {
+  try {
+    const project = await repository.getProject(projectId);
+    if (!project) {
+      throw new Error(`Project ${projectId} does not exist`);
+    }
+
+    const [objects, groups, lights, scenes] = await Promise.all([
+      repository.getObjects(projectId),
+      repository.getGroups(projectId),
+      repository.getLights(projectId),
+      repository.getScenes(projectId)
+    ]);
+
+    const projectData = { ...project };
+    ACCOUNT_FIELDS.forEach(field => delete projectData[field]);
+
+    return {
+      format: PROJECT_BUNDLE_FORMAT,
+      version: PROJECT_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      project: toPlainValue(projectData) as ProjectBundle['project'],
+      objects: objects.map(toBundleEntry),
+      groups: groups.map(toBundleEntry),
+      lights: lights.map(toBundleEntry),
+      scenes: scenes.map(toBundleEntry)
+    };
+  } catch (error) {
+    console.error('Error exporting project bundle:', error);
+    throw error;
+  }
+};
+
+// Validation helpers
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isVector = (value: unknown) =>
+  isRecord(value) && ['x', 'y', 'z'].every(axis => typeof value[axis] === 'number');
+
+const isNumberArray = (value: unknown, length?: number) =>
+  Array.isArray(value) &&
+  value.every(entry => typeof entry === 'number') &&
+  (length === undefined || value.length === length);
+
+const requireArray = (bundle: Record<string, unknown>, key: string): unknown[] => {
+  const value = bundle[key];
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid project bundle: "${key}" must be an array`);
+  }
+  return value;
+};
+
+export const validateProjectBundle = (data: unknown): ProjectBundle => {
+  if (!isRecord(data) || data.format !== PROJECT_BUNDLE_FORMAT) {
+    throw new Error('Invalid project bundle: unrecognised file format');
+  }
+
+  if (typeof data.version !== 'number' || data.version > PROJECT_BUNDLE_VERSION) {
+    throw new Error(`Unsupported project bundle version: ${String(data.version)}`);
+  }
+
+  if (!isRecord(data.project) || typeof data.project.name !== 'string' || !data.project.name.trim()) {
+    throw new Error('Invalid project bundle: project name is missing');
+  }
+
+  requireArray(data, 'objects').forEach((entry, index) => {
+    if (!isRecord(entry) || typeof entry.name !== 'string' || typeof entry.type !== 'string') {
+      throw new Error(`Invalid project bundle: object ${index} is missing a name or type`);
+    }
+    if (!isVector(entry.position) || !isVector(entry.rotation) || !isVector(entry.scale)) {
+      throw new Error(`Invalid project bundle: object "${entry.name}" has an invalid transform`);
+    }
+    if (entry.customGeometry !== undefined) {
+      const geometry = entry.customGeometry;
+      if (!isRecord(geometry) || (geometry.vertices !== undefined && !isNumberArray(geometry.vertices))) {
+        throw new Error(`Invalid project bundle: object "${entry.name}" has invalid custom geometry`);
+      }
+    }
+  });
+
+  requireArray(data, 'groups').forEach((entry, index) => {
+    if (!isRecord(entry) || typeof entry.name !== 'string' || !Array.isArray(entry.objectIds)) {
+      throw new Error(`Invalid project bundle: group ${index} is malformed`);
+    }
+  });
+
+  requireArray(data, 'lights').forEach((entry, index) => {
+    if (!isRecord(entry) || !['directional', 'point', 'spot'].includes(entry.type as string)) {
+      throw new Error(`Invalid project bundle: light ${index} has an unknown type`);
+    }
+    if (!isNumberArray(entry.position, 3) || !isNumberArray(entry.target, 3)) {
+      throw new Error(`Invalid project bundle: light ${index} has an invalid position or target`);
+    }
+  });
+
+  requireArray(data, 'scenes').forEach((entry, index) => {
+    if (!isRecord(entry) || typeof entry.name !== 'string') {
+      throw new Error(`Invalid project bundle: scene ${index} is malformed`);
+    }
+  });
+
+  return data as unknown as ProjectBundle;
+};
+
+// Recreate a bundle as a brand new project owned by the importing teacher.
+// Every entry gets a new document ID and references between them are remapped.
+export const importProjectBundle = async (
+  bundle: ProjectBundle,
+  teacherId: string,
+  teacherName: string
+): Promise<string> => {
+  try {
+    const project = { ...bundle.project };
+    ACCOUNT_FIELDS.forEach(field => delete project[field]);
+
+    const projectId = await repository.createProject({
+      ...project,
+      teacherId,
+      teacherName,
+      status: project.status === 'archived' ? 'archived' : 'active',
+      isFavorite: false,
+      students: [],
+      objectCount: bundle.objects.length
+    });
+
+    // IDs are handed out up front, so everything can point at its new scene, group and objects
+    const assignIds = (entries: Array<{ id?: string }>, collectionName: ProjectCollection) => {
+      const newIds = entries.map(() => repository.createDocumentId(projectId, collectionName));
+      const idMap = new Map(entries.flatMap((entry, index) => entry.id ? [[entry.id, newIds[index]]] : []));
+      return { newIds, idMap };
+    };
+    const scenes = assignIds(bundle.scenes, 'scenes');
+    const groups = assignIds(bundle.groups, 'groups');
+    const objects = assignIds(bundle.objects, 'objects');
+
+    // Documents exported before projects had scenes have no scene ID and keep it that way
+    const withScene = <T extends { sceneId?: string }>(data: T): T => {
+      const sceneId = data.sceneId ? scenes.idMap.get(data.sceneId) : undefined;
+      return sceneId ? { ...data, sceneId } : data;
+    };
+
+    const writes: DocumentWrite[] = [
+      ...bundle.scenes.map((scene, index): DocumentWrite => ({
+        collection: 'scenes', id: scenes.newIds[index], data: withoutId(scene)
+      })),
+      // Group membership points at the new object documents, dropping stale references
+      ...bundle.groups.map((group, index): DocumentWrite => ({
+        collection: 'groups',
+        id: groups.newIds[index],
+        data: withScene({
+          ...withoutId(group),
+          objectIds: group.objectIds
+            .map(objectId => objects.idMap.get(objectId))
+            .filter((objectId): objectId is string => !!objectId)
+        })
+      })),
+      ...bundle.objects.map((object, index): DocumentWrite => {
+        const { groupId, ...objectData } = withoutId(object);
+        const remappedGroupId = groupId ? groups.idMap.get(groupId) : undefined;
+        return {
+          collection: 'objects',
+          id: objects.newIds[index],
+          data: withScene(remappedGroupId ? { ...objectData, groupId: remappedGroupId } : objectData)
+        };
+      }),
+      ...bundle.lights.map((light): DocumentWrite => ({
+        collection: 'lights', id: repository.createDocumentId(projectId, 'lights'), data: withScene(withoutId(light))
+      }))
+    ];
+    try {
+      await repository.saveDocumentsBatch(writes, teacherId, projectId);
+    } catch (error) {
+      // Don't leave a half-imported project in the teacher's list
+      await repository.deleteProject(projectId).catch(() => undefined);
+      throw error;
+    }
+
+    console.log(`Imported project bundle "${project.name}" as ${projectId}`);
+    return projectId;
+  } catch (error) {
+    console.error('Error importing project bundle:', error);
+    throw error;
+  }
+};
+
+// Helper function to trigger a browser download of a bundle
+export const downloadProjectBundle = (bundle: ProjectBundle) => {
+  const fileName = bundle.project.name.replace(/[^a-z0-9-_ ]/gi, '').trim().replace(/\s+/g, '-') || 'project';
+  downloadFile(JSON.stringify(bundle, null, 2), `${fileName}.classroom3d.json`, 'application/json');
+};
@@ -0,0 +1,109 @@
+import {
+  AnnotationComment,
+  DocumentWrite,
+  FirestoreObject,
+  FirestoreGroup,
+  FirestoreLight,
+  FirestoreScene,
+  FirestoreAnnotation,
+  ProjectCollection
+} from './firestoreService';
+import { createFirestoreRepository } from './firestoreRepository';
+import { createLocalRepository } from './localRepository';
+
+// A classroom project as stored. The stores narrow this to their own project type
+export interface ProjectRecord {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+  [field: string]: unknown;
+}
+
+// Someone signed in, as far as project rosters are concerned
+export interface ProjectMember {
+  uid: string;
+  email?: string | null;
+}
+
+// What a token lets its holder do: join the project, open it read-only, answer one emailed
+// invitation, or join with the class code
+export type AccessTokenKind = 'join' | 'view' | 'invitation' | 'classCode';
+
+// A secret that lets people into a project. A class code is one too, with the code as its value
+export interface AccessTokenRecord {
+  token: string;
+  projectId: string;
+  kind: AccessTokenKind;
+  createdBy: string;
+  createdAt: Date;
+  // Tokens without an expiry work until they are revoked
+  expiresAt: Date | null;
+  revoked: boolean;
+  // The emailed invitation an invitation token answers
+  invitationId?: string;
+}
+
+// Project fields that hold a list of entries and can grow from several accounts at once
+export type ProjectListField = 'students' | 'joinRequests';
+
+type SnapshotCallback<T> = (documents: T[], changedIds: Set<string>) => void;
+
+// Everything the app reads and writes: classroom projects plus the objects, groups,
+// lights and scenes inside them. Subscriptions report the ids of the documents that
+// changed since the previous call; the first call reports all of them
+export interface ProjectRepository {
+  listProjects: (teacherId: string) => Promise<ProjectRecord[]>;
+  // Projects whose roster lists the member by account or email
+  listEnrolledProjects: (member: ProjectMember) => Promise<ProjectRecord[]>;
+  getProject: (projectId: string) => Promise<ProjectRecord | null>;
+  createProject: (data: Record<string, unknown>) => Promise<string>;
+  updateProject: (projectId: string, data: Record<string, unknown>) => Promise<void>;
+  // Adds entries without rewriting the list, so entries others add at the same time are kept
+  appendToProject: (projectId: string, field: ProjectListField, entries: object[]) => Promise<void>;
+  // Works out the fields to write from the project as stored right now rather than a copy loaded
+  // earlier, so entries others added in the meantime are kept. `update` may run more than once and
+  // returns null to write nothing. Resolves to the fields that were written
+  updateProjectWith: (
+    projectId: string,
+    update: (project: ProjectRecord) => Record<string, unknown> | null
+  ) => Promise<Record<string, unknown> | null>;
+  // Also removes the tokens that led into the project
+  deleteProject: (projectId: string) => Promise<void>;
+
+  // Tokens are kept apart from their project, so reading a project never hands them out.
+  // Looking one up needs its value; only people who manage the project list them all
+  getAccessToken: (token: string) => Promise<AccessTokenRecord | null>;
+  listAccessTokens: (projectId: string) => Promise<AccessTokenRecord[]>;
+  saveAccessToken: (record: AccessTokenRecord) => Promise<void>;
+  revokeAccessToken: (token: string) => Promise<void>;
+
+  createDocumentId: (projectId: string, collectionName: ProjectCollection) => string;
+  saveDocumentsBatch: (writes: DocumentWrite[], userId: string, projectId: string) => Promise<void>;
+  // Copies all objects, groups, lights and scenes into another project, keeping their ids
+  copyProjectData: (sourceProjectId: string, targetProjectId: string, userId: string) => Promise<void>;
+  getObjects: (projectId: string) => Promise<FirestoreObject[]>;
+  getGroups: (projectId: string) => Promise<FirestoreGroup[]>;
+  getLights: (projectId: string) => Promise<FirestoreLight[]>;
+  getScenes: (projectId: string) => Promise<FirestoreScene[]>;
+  subscribeToObjects: (projectId: string, callback: SnapshotCallback<FirestoreObject>) => () => void;
+  subscribeToGroups: (projectId: string, callback: SnapshotCallback<FirestoreGroup>) => () => void;
+  subscribeToLights: (projectId: string, callback: SnapshotCallback<FirestoreLight>) => () => void;
+
+  // Comments pinned into the scene, each with its own discussion
+  saveAnnotation: (annotationData: FirestoreAnnotation, projectId: string) => Promise<string>;
+  updateAnnotation: (id: string, annotationData: Partial<FirestoreAnnotation>, projectId: string) => Promise<void>;
+  // Adds a reply without rewriting the thread, so replies posted at the same time are kept
+  addAnnotationComment: (id: string, comment: AnnotationComment, projectId: string) => Promise<void>;
+  deleteAnnotation: (id: string, projectId: string) => Promise<void>;
+  subscribeToAnnotations: (projectId: string, callback: SnapshotCallback<FirestoreAnnotation>) => () => void;
+}
+
+export type StorageBackend = 'firestore' | 'local';
+
+// Picked once at startup. `VITE_STORAGE_BACKEND=local` runs a self-contained demo
+// classroom that keeps everything in this browser and needs no Firebase project
+export const STORAGE_BACKEND: StorageBackend =
+  import.meta.env.VITE_STORAGE_BACKEND === 'local' ? 'local' : 'firestore';
+
+export const repository: ProjectRepository =
+  STORAGE_BACKEND === 'local' ? createLocalRepository() : createFirestoreRepository();
@@ -0,0 +1,197 @@
+import { create } from 'zustand';
+import { AnnotationComment, FirestoreAnnotation } from '../services/firestoreService';
+import { repository } from '../services/repository';
+import { useSceneStore } from './sceneStore';
+
+type Vector = { x: number; y: number; z: number };
+
+// Where a new pin goes, picked in the scene before its first comment is written
+export interface AnnotationAnchor {
+  position: Vector;
+  objectId?: string;
+  localPosition?: Vector;
+}
+
+interface AnnotationSession {
+  projectId: string;
+  authorId: string;
+  authorName: string;
+  unsubscribe: () => void;
+}
+
+interface AnnotationState {
+  // Every annotation in the project, oldest first
+  annotations: FirestoreAnnotation[];
+  // Who is commenting, so the panel knows which threads they started
+  currentUserId: string | null;
+  isPanelOpen: boolean;
+  // Picking a spot in the scene for a new pin
+  isPlacing: boolean;
+  draftAnchor: AnnotationAnchor | null;
+  activeAnnotationId: string | null;
+  showResolved: boolean;
+  error: string | null;
+  startAnnotations: (projectId: string, user: { uid: string; displayName?: string | null; email?: string | null }) => void;
+  stopAnnotations: () => void;
+  setPanelOpen: (open: boolean) => void;
+  setPlacing: (placing: boolean) => void;
+  setDraftAnchor: (anchor: AnnotationAnchor | null) => void;
+  setActiveAnnotation: (annotationId: string | null) => void;
+  setShowResolved: (show: boolean) => void;
+  // Posting resolves to whether the comment was saved
+  addAnnotation: (text: string) => Promise<boolean>;
+  replyToAnnotation: (annotationId: string, text: string) => Promise<boolean>;
+  setAnnotationResolved: (annotationId: string, resolved: boolean) => Promise<void>;
+  deleteAnnotation: (annotationId: string) => Promise<void>;
+}
+
+let session: AnnotationSession | null = null;
+
+// Helper function to start a comment by whoever has the studio open
+const createComment = (text: string): AnnotationComment => ({
+  id: crypto.randomUUID(),
+  authorId: session?.authorId ?? '',
+  authorName: session?.authorName ?? '',
+  text,
+  createdAt: Date.now()
+});
+
+export const useAnnotationStore = create<AnnotationState>((set, get) => ({
+  annotations: [],
+  currentUserId: null,
+  isPanelOpen: false,
+  isPlacing: false,
+  draftAnchor: null,
+  activeAnnotationId: null,
+  showResolved: false,
+  error: null,
+
+  startAnnotations: (projectId, user) => {
+    get().stopAnnotations();
+
+    const current: AnnotationSession = {
+      projectId,
+      authorId: user.uid,
+      authorName: user.displayName || user.email || 'Anonymous',
+      unsubscribe: () => undefined
+    };
+    session = current;
+    set({ currentUserId: user.uid });
+
+    current.unsubscribe = repository.subscribeToAnnotations(projectId, (annotations) => {
+      if (session !== current) return;
+      set((state) => ({
+        annotations,
+        // Someone else may have deleted the thread that is open here
+        activeAnnotationId: annotations.some(annotation => annotation.id === state.activeAnnotationId)
+          ? state.activeAnnotationId
+          : null
+      }));
+    });
+  },
+
+  stopAnnotations: () => {
+    if (!session) return;
+    session.unsubscribe();
+    session = null;
+
+    set({
+      annotations: [],
+      currentUserId: null,
+      isPanelOpen: false,
+      isPlacing: false,
+      draftAnchor: null,
+      activeAnnotationId: null,
+      error: null
+    });
+  },
+
+  setPanelOpen: (open) => set(open
+    ? { isPanelOpen: true }
+    : { isPanelOpen: false, isPlacing: false, draftAnchor: null, activeAnnotationId: null }),
+
+  setPlacing: (placing) => set({
+    isPlacing: placing,
+    // The panel shows the new comment once a spot is picked
+    ...(placing ? { isPanelOpen: true, draftAnchor: null, activeAnnotationId: null } : {})
+  }),
+
+  setDraftAnchor: (anchor) => set({ draftAnchor: anchor, isPlacing: false, activeAnnotationId: null }),
+
+  setActiveAnnotation: (annotationId) => set({
+    activeAnnotationId: annotationId,
+    draftAnchor: null,
+    ...(annotationId ? { isPanelOpen: true } : {})
+  }),
+
+  setShowResolved: (show) => set({ showResolved: show }),
+
+  addAnnotation: async (text) => {
+    const { draftAnchor } = get();
+    if (!session || !draftAnchor || !text.trim()) return false;
+
+    try {
+      const comment = createComment(text.trim());
+      const { currentSceneId } = useSceneStore.getState();
+      const annotationId = await repository.saveAnnotation({
+        ...draftAnchor,
+        ...(currentSceneId ? { sceneId: currentSceneId } : {}),
+        authorId: comment.authorId,
+        authorName: comment.authorName,
+        resolved: false,
+        comments: [comment]
+      }, session.projectId);
+
+      set({ draftAnchor: null, activeAnnotationId: annotationId, error: null });
+      return true;
+    } catch (error) {
+      console.error('Error adding annotation:', error);
+      set({ error: 'Failed to add comment' });
+      return false;
+    }
+  },
+
+  replyToAnnotation: async (annotationId, text) => {
+    if (!session || !text.trim()) return false;
+
+    try {
+      await repository.addAnnotationComment(annotationId, createComment(text.trim()), session.projectId);
+      set({ error: null });
+      return true;
+    } catch (error) {
+      console.error('Error replying to annotation:', error);
+      set({ error: 'Failed to post reply' });
+      return false;
+    }
+  },
+
+  setAnnotationResolved: async (annotationId, resolved) => {
+    if (!session) return;
+
+    try {
+      await repository.updateAnnotation(annotationId, {
+        resolved,
+        resolvedBy: resolved ? session.authorName : ''
+      }, session.projectId);
+      set({ error: null });
+    } catch (error) {
+      console.error('Error resolving annotation:', error);
+      set({ error: resolved ? 'Failed to resolve comment' : 'Failed to reopen comment' });
+    }
+  },
+
+  deleteAnnotation: async (annotationId) => {
+    if (!session) return;
+
+    try {
+      await repository.deleteAnnotation(annotationId, session.projectId);
+      set((state) => ({
+        activeAnnotationId: state.activeAnnotationId === annotationId ? null : state.activeAnnotationId,
+        error: null
+      }));
+    } catch (error) {
+      console.error('Error deleting annotation:', error);
+      set({ error: 'Failed to delete comment' });
+    }
+  }
+}));
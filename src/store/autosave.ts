@@ -0,0 +1,194 @@
+// Wait this long after the last change before writing, so a burst of edits becomes one batch
+export const AUTOSAVE_DELAY = 1500;
+
+// Failed saves are retried with exponential backoff: 1s, 2s, 4s ... capped at 30s
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 30000;
+const MAX_RETRIES = 6;
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'offline' | 'failed';
+
+// Ids of the objects, groups, lights and scenes whose documents need writing (or deleting)
+export interface PendingChanges {
+  objects: Set<string>;
+  groups: Set<string>;
+  lights: Set<string>;
+  scenes: Set<string>;
+}
+
+export type EntityChanges = { [K in keyof PendingChanges]?: string[] };
+
+export const createPendingChanges = (): PendingChanges => ({
+  objects: new Set<string>(),
+  groups: new Set<string>(),
+  lights: new Set<string>(),
+  scenes: new Set<string>()
+});
+
+// Helper function to add changed entity ids to the pending set without mutating it
+export const mergePendingChanges = (pending: PendingChanges, changes: EntityChanges | PendingChanges): PendingChanges => ({
+  objects: new Set([...pending.objects, ...(changes.objects ?? [])]),
+  groups: new Set([...pending.groups, ...(changes.groups ?? [])]),
+  lights: new Set([...pending.lights, ...(changes.lights ?? [])]),
+  scenes: new Set([...pending.scenes, ...(changes.scenes ?? [])])
+});
+
+export const hasPendingChanges = (pending: PendingChanges) =>
+  pending.objects.size > 0 || pending.groups.size > 0 || pending.lights.size > 0 || pending.scenes.size > 0;
+
+// Fields the database fills in or that only scope the document; they don't say anything about its content
+const METADATA_FIELDS = new Set(['id', 'userId', 'projectId', 'fieldVersions', 'createdAt', 'updatedAt']);
+
+// Helper function to serialise a value with object keys in a fixed order, so equal content compares equal
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, fieldValue]) => fieldValue !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, fieldValue]) => `${JSON.stringify(key)}:${stableStringify(fieldValue)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Helper function to fingerprint a document's content, so a snapshot carrying our own write
+// back can be told apart from a change made somewhere else
+export const documentSignature = (data: object): string =>
+  stableStringify(Object.fromEntries(
+    Object.entries(data).filter(([key]) => !METADATA_FIELDS.has(key))
+  ));
+
+interface AutosaveOptions {
+  // Write everything that is pending. Must put the changes back if the write fails
+  flush: () => Promise<void>;
+  // Keep everything pending on this device while it can't or shouldn't be written yet
+  stash: () => Promise<void>;
+  hasWork: () => boolean;
+  // Whether changes should be written without the user asking (e.g. the project's autoSave setting)
+  isEnabled: () => boolean;
+  onStatusChange: (status: SaveStatus) => void;
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
+// Debounces changes into batched saves, retries failures with backoff, waits out
+// offline periods and tries to write whatever is left when the tab closes. Changes that
+// aren't written (offline, or auto-save turned off) are stashed on the device instead
+export const createAutosave = ({ flush, stash, hasWork, isEnabled, onStatusChange }: AutosaveOptions) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<void> | null = null;
+  let retries = 0;
+
+  const clearTimer = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const run = async (): Promise<void> => {
+    clearTimer();
+
+    // One write at a time; anything that changed meanwhile goes in the next batch
+    if (inFlight) {
+      await inFlight.catch(() => undefined);
+      return run();
+    }
+    if (!hasWork()) return;
+
+    if (isOffline()) {
+      await stash().catch(() => undefined);
+      onStatusChange('offline');
+      return;
+    }
+
+    onStatusChange('saving');
+    inFlight = flush();
+    try {
+      await inFlight;
+      retries = 0;
+      onStatusChange('saved');
+    } catch (error) {
+      console.error('Autosave failed:', error);
+      onStatusChange(isOffline() ? 'offline' : 'failed');
+
+      if (!isOffline() && retries < MAX_RETRIES) {
+        const delay = Math.min(RETRY_BASE_DELAY * 2 ** retries, RETRY_MAX_DELAY);
+        retries++;
+        timer = setTimeout(() => {
+          run().catch(() => undefined);
+        }, delay);
+      }
+      throw error;
+    } finally {
+      inFlight = null;
+    }
+
+    // Changes made while the batch was being written
+    if (hasWork() && isEnabled()) {
+      schedule();
+    }
+  };
+
+  const schedule = () => {
+    clearTimer();
+    timer = setTimeout(() => {
+      if (isEnabled()) {
+        run().catch(() => undefined);
+      } else {
+        stash().catch(() => undefined);
+      }
+    }, AUTOSAVE_DELAY);
+  };
+
+  // Write now, e.g. from the save button. Resolves once everything pending is written
+  const flushNow = () => {
+    retries = 0;
+    return run();
+  };
+
+  const cancel = () => {
+    clearTimer();
+    retries = 0;
+  };
+
+  const attachWindowListeners = () => {
+    const handleOnline = () => {
+      retries = 0;
+      if (hasWork()) {
+        run().catch(() => undefined);
+      }
+    };
+
+    const handleOffline = () => {
+      if (hasWork()) {
+        onStatusChange('offline');
+      }
+    };
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (!hasWork() && !inFlight) return;
+
+      // Start the write; the browser keeps the page alive while the user answers the prompt
+      if (isEnabled()) {
+        run().catch(() => undefined);
+      }
+      event.preventDefault();
+      event.returnValue = '';
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('beforeunload', handleBeforeUnload);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+    };
+  };
+
+  return { schedule, flushNow, cancel, attachWindowListeners };
+};
@@ -1,20 +1,17 @@
 import { create } from 'zustand';
+import { repository, AccessTokenKind, AccessTokenRecord, ProjectMember } from '../services/repository';
 import {
-  collection,
-  doc,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  getDocs,
-  query,
-  where,
-  orderBy,
-  serverTimestamp,
-  onSnapshot
-} from 'firebase/firestore';
-import { db } from '../config/firebase';
-
-interface Student {
+  exportProjectBundle,
+  validateProjectBundle,
+  importProjectBundle,
+  downloadProjectBundle
+} from '../services/projectBundle';
+import { sendMail } from '../services/mailTransport';
+import { JoinTarget, ViewTarget, generateClassCode, generateInviteToken, buildInviteLink } from '../utils/joinLinks';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface Student {
   id: string;
   email: string;
   name?: string;
@@ -23,7 +20,106 @@ interface Student {
   lastActive?: Date;
 }
 
-interface Project {
+export interface ProjectSettings {
+  allowStudentEdit: boolean;
+  allowStudentShare: boolean;
+  maxObjects: number;
+  enableCollaboration: boolean;
+  autoSave: boolean;
+  // Students who use a join link or class code wait for the teacher to let them in
+  requireJoinApproval?: boolean;
+}
+
+// A revocable link that lets students add themselves to the roster. View links that open
+// the project read-only for anyone holding them have the same shape. Both are stored apart
+// from the project as access tokens
+export interface JoinInvite {
+  token: string;
+  createdBy: string;
+  createdAt: Date;
+  // Links without an expiry work until they are revoked
+  expiresAt: Date | null;
+  revoked: boolean;
+}
+
+// Someone who used a join link or class code and waits for approval
+export interface JoinRequest {
+  // The requesting account
+  id: string;
+  email: string;
+  name?: string;
+  requestedAt: Date;
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+// An invitation emailed to one person. The link in it carries an access token that lets them
+// join like an invite link does, for as long as the invitation is pending
+export interface EmailInvitation {
+  id: string;
+  email: string;
+  invitedBy: string;
+  sentAt: Date;
+  expiresAt: Date | null;
+  // Expiry isn't stored; getInvitationStatus works it out from expiresAt
+  status: 'pending' | 'accepted' | 'revoked';
+  acceptedAt?: Date;
+}
+
+// The outcome of sending invitations, by email address
+export interface InvitationResult {
+  sent: string[];
+  failed: string[];
+}
+
+// Set on a starter project once it has been handed out as an assignment
+export interface Assignment {
+  publishedAt: Date;
+  dueAt: Date | null;
+}
+
+// Set on each student's copy of an assignment
+export interface Submission {
+  // The starter project the copy was made from
+  assignmentId: string;
+  studentId: string;
+  studentEmail: string;
+  studentName?: string;
+  dueAt: Date | null;
+  // A submitted copy is frozen until the teacher reopens it
+  status: 'assigned' | 'submitted';
+  submittedAt: Date | null;
+}
+
+// One thing an assignment is graded on
+export interface RubricCriterion {
+  id: string;
+  title: string;
+  description?: string;
+  maxPoints: number;
+}
+
+// A teacher's grade for one student's copy. The totals are kept so the grade still reads
+// right if the rubric changes later
+export interface Grade {
+  // Points per rubric criterion id
+  scores: Record<string, number>;
+  feedback: string;
+  total: number;
+  maxTotal: number;
+  gradedBy: string;
+  gradedAt: Date;
+}
+
+export interface JoinResult {
+  status: 'joined' | 'pending';
+  projectId: string;
+  projectName: string;
+}
+
+export type ProjectRole = 'teacher' | 'assistant' | 'student';
+
+export interface Project {
   id: string;
   name: string;
   description?: string;
@@ -32,21 +128,214 @@ interface Project {
   status: 'active' | 'archived' | 'draft';
   isFavorite: boolean;
   students: Student[];
-  settings: {
-    allowStudentEdit: boolean;
-    allowStudentShare: boolean;
-    maxObjects: number;
-    enableCollaboration: boolean;
-    autoSave: boolean;
-  };
+  settings: ProjectSettings;
+  joinRequests?: JoinRequest[];
+  emailInvitations?: EmailInvitation[];
+  assignment?: Assignment | null;
+  submission?: Submission;
+  rubric?: RubricCriterion[];
+  grade?: Grade;
   objectCount: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Helper function to work out how a signed-in user takes part in a project
+export const getProjectRole = (
+  project: Pick<Project, 'teacherId' | 'students'>,
+  user: ProjectMember
+): ProjectRole | null => {
+  if (project.teacherId === user.uid) return 'teacher';
+
+  const email = user.email?.toLowerCase();
+  const student = project.students?.find(s =>
+    s.id === user.uid || (!!email && s.email.toLowerCase() === email)
+  );
+  return student?.role ?? null;
+};
+
+// Helper function to check whether an invite link still lets students in
+export const isInviteActive = (invite: JoinInvite) =>
+  !invite.revoked && (!invite.expiresAt || new Date(invite.expiresAt).getTime() > Date.now());
+
+// Helper function to pick one kind of a project's loaded access tokens
+export const getTokensOfKind = (tokens: AccessTokenRecord[] | undefined, kind: AccessTokenKind) =>
+  (tokens ?? []).filter(entry => entry.kind === kind);
+
+// Helper function to find the class code students can join with right now, if any
+export const getClassCode = (tokens: AccessTokenRecord[] | undefined) =>
+  getTokensOfKind(tokens, 'classCode').find(isInviteActive)?.token ?? null;
+
+// Helper function to tell where an emailed invitation stands
+export const getInvitationStatus = (invitation: EmailInvitation): InvitationStatus =>
+  invitation.status === 'pending' && invitation.expiresAt && new Date(invitation.expiresAt).getTime() <= Date.now()
+    ? 'expired'
+    : invitation.status;
+
+// Helper function to find the most recent invitation sent to an address
+export const getLatestInvitation = (invitations: EmailInvitation[] | undefined, email: string) =>
+  (invitations ?? [])
+    .filter(invitation => invitation.email === email.toLowerCase())
+    .sort((a, b) => new Date(b.sentAt).getTime() - new Date(a.sentAt).getTime())[0];
+
+// Helper function to tell whether work came in after the due date, or is still missing past it
+export const isSubmissionLate = (submission: Submission) => {
+  if (!submission.dueAt) return false;
+  const due = new Date(submission.dueAt).getTime();
+  return submission.submittedAt ? new Date(submission.submittedAt).getTime() > due : Date.now() > due;
+};
+
+// Helper function to find the students on an assignment's roster who have no copy of it yet.
+// Roster entries get a new id when the student first signs in, so copies are matched by email as well
+export const getStudentsWithoutCopy = (project: Project, copies: Project[]) => {
+  const copiedFor = new Set(copies.flatMap(copy =>
+    copy.submission ? [copy.submission.studentId, copy.submission.studentEmail.toLowerCase()] : []
+  ));
+  return project.students.filter(student =>
+    student.role === 'student' && !copiedFor.has(student.id) && !copiedFor.has(student.email.toLowerCase())
+  );
+};
+
+// Helper function to check whether a user may hand out share links for a project
+export const canShareProject = (project: Pick<Project, 'teacherId' | 'students' | 'settings'>, user: ProjectMember) => {
+  const role = getProjectRole(project, user);
+  return role === 'teacher' || role === 'assistant' || (role === 'student' && project.settings.allowStudentShare);
+};
+
+type SignedInMember = ProjectMember & { displayName?: string | null };
+
+// Helper function to hand out a new token for a project
+const createAccessToken = (
+  projectId: string,
+  kind: AccessTokenKind,
+  createdBy: string,
+  expiresInDays: number | null,
+  token = generateInviteToken()
+): AccessTokenRecord => ({
+  token,
+  projectId,
+  kind,
+  createdBy,
+  createdAt: new Date(),
+  expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY) : null,
+  revoked: false
+});
+
+// How long an emailed invitation keeps working
+const INVITATION_DAYS = 14;
+
+// Helper function to mark the invitations a newly joined member answered as accepted.
+// Returns null when none of them changed
+const acceptInvitations = (project: Project, member: ProjectMember, invitationId?: string) => {
+  const email = member.email?.toLowerCase();
+  let changed = false;
+  const invitations = (project.emailInvitations ?? []).map((invitation) => {
+    if (invitation.status !== 'pending' || (invitation.id !== invitationId && invitation.email !== email)) {
+      return invitation;
+    }
+    changed = true;
+    return { ...invitation, status: 'accepted' as const, acceptedAt: new Date() };
+  });
+  return changed ? invitations : null;
+};
+
+const buildInvitationEmail = (project: Project, email: string, link: string, expiresAt: Date) => ({
+  to: email,
+  subject: `Invitation to join ${project.name} - 3D Modeling Project`,
+  text: `${project.teacherName || 'Your teacher'} invited you to join the 3D modeling project "${project.name}".
+
+Click the link below to join:
+${link}
+
+The link works until ${expiresAt.toLocaleDateString()}.
+
+Project Description: ${project.description || 'No description provided'}`
+});
+
+// Helper function to mark one token in a list as revoked
+const revokeToken = <T extends JoinInvite>(tokens: T[], token: string) =>
+  tokens.map(entry => entry.token === token ? { ...entry, revoked: true } : entry);
+
+// Helper function to change the loaded access tokens of a project
+const withAccessTokens = (
+  state: ClassroomState,
+  projectId: string,
+  update: (tokens: AccessTokenRecord[]) => AccessTokenRecord[]
+) => ({
+  accessTokens: { ...state.accessTokens, [projectId]: update(state.accessTokens[projectId] ?? []) }
+});
+
+// Where projects kept their tokens before the tokens moved to a collection of their own
+interface LegacyProjectTokens {
+  classCode?: string | null;
+  joinInvites?: JoinInvite[] | null;
+  viewTokens?: JoinInvite[] | null;
+  emailInvitations?: Array<EmailInvitation & { token?: string }>;
+}
+
+// Helper function to move the tokens an older project still carries into the access tokens
+// and clear them off the project. Returns the fields that were cleared, or null if there were none
+const moveLegacyTokens = async (project: Project) => {
+  const legacy = project as unknown as LegacyProjectTokens;
+  const invitations = (legacy.emailInvitations ?? []).filter(invitation => invitation.token);
+  if (!legacy.classCode && !legacy.joinInvites?.length && !legacy.viewTokens?.length && !invitations.length) {
+    return null;
+  }
+
+  const tokens: AccessTokenRecord[] = [
+    ...(legacy.classCode ? [createAccessToken(project.id, 'classCode', project.teacherId, null, legacy.classCode)] : []),
+    ...(legacy.joinInvites ?? []).map(invite => ({ ...invite, projectId: project.id, kind: 'join' as const })),
+    ...(legacy.viewTokens ?? []).map(invite => ({ ...invite, projectId: project.id, kind: 'view' as const })),
+    ...invitations.map(invitation => ({
+      token: invitation.token as string,
+      projectId: project.id,
+      kind: 'invitation' as const,
+      invitationId: invitation.id,
+      createdBy: invitation.invitedBy,
+      createdAt: invitation.sentAt,
+      expiresAt: invitation.expiresAt,
+      revoked: false
+    }))
+  ];
+  await Promise.all(tokens.map(token => repository.saveAccessToken(token)));
+
+  return repository.updateProjectWith(project.id, record => ({
+    classCode: null,
+    joinInvites: null,
+    viewTokens: null,
+    emailInvitations: ((record as unknown as LegacyProjectTokens).emailInvitations ?? []).map((invitation) => {
+      const rest = { ...invitation };
+      delete rest.token;
+      return rest;
+    })
+  }));
+};
+
+// Helper function to merge fields just written into the loaded copies of a project
+const mergeProjectFields = (state: ClassroomState, projectId: string, data: Partial<Project>) => ({
+  projects: state.projects.map(project =>
+    project.id === projectId
+      ? { ...project, ...data, updatedAt: new Date() }
+      : project
+  ),
+  currentProject: state.currentProject?.id === projectId
+    ? { ...state.currentProject, ...data, updatedAt: new Date() }
+    : state.currentProject
+});
+
+// Helper function to drop a join request someone else already handled from the loaded list
+const withoutJoinRequest = (state: ClassroomState, projectId: string, requestId: string) => ({
+  joinRequests: state.projects.find(p => p.id === projectId)?.joinRequests?.filter(r => r.id !== requestId)
+});
+
 interface ClassroomState {
+  // The user's own projects followed by the ones they are enrolled in
   projects: Project[];
+  // Who the projects were loaded for, so changes can reload the same list
+  projectMember: ProjectMember | null;
   currentProject: Project | null;
+  // Join and view links, invitation tokens and class codes of the projects being shared, by project id
+  accessTokens: Record<string, AccessTokenRecord[]>;
   loading: boolean;
   error: string | null;
   searchTerm: string;
@@ -64,7 +353,7 @@ interface ClassroomState {
   setCurrentProject: (project: Project | null) => void;
   
   // Project management
-  loadProjects: (teacherId: string) => Promise<void>;
+  loadProjects: (member: ProjectMember) => Promise<void>;
   createProject: (projectData: Partial<Project>) => Promise<void>;
   updateProject: (projectId: string, data: Partial<Project>) => Promise<void>;
   deleteProject: (projectId: string) => Promise<void>;
@@ -74,17 +363,44 @@ interface ClassroomState {
   
   // Student management
   addStudentToProject: (projectId: string, email: string, role: 'student' | 'assistant') => Promise<void>;
+  recordProjectVisit: (projectId: string, member: SignedInMember) => Promise<void>;
   removeStudentFromProject: (projectId: string, studentId: string) => Promise<void>;
   updateStudentRole: (projectId: string, studentId: string, role: 'student' | 'assistant') => Promise<void>;
   
+  // Enrollment
+  loadAccessTokens: (projectId: string) => Promise<void>;
+  joinProject: (target: JoinTarget, member: SignedInMember) => Promise<JoinResult | null>;
+  setClassCode: (projectId: string, enabled: boolean) => Promise<void>;
+  createJoinInvite: (projectId: string, expiresInDays: number | null) => Promise<JoinInvite | null>;
+  revokeJoinInvite: (projectId: string, token: string) => Promise<void>;
+  approveJoinRequest: (projectId: string, requestId: string) => Promise<void>;
+  declineJoinRequest: (projectId: string, requestId: string) => Promise<void>;
+  sendEmailInvitations: (projectId: string, emails: string[]) => Promise<InvitationResult | null>;
+  revokeEmailInvitation: (projectId: string, invitationId: string) => Promise<void>;
+
+  // Assignments
+  publishAssignment: (projectId: string, dueAt: Date | null) => Promise<number | null>;
+  submitAssignment: (projectId: string) => Promise<void>;
+  reopenSubmission: (projectId: string) => Promise<void>;
+  updateRubric: (projectId: string, rubric: RubricCriterion[]) => Promise<void>;
+  // Resolves to whether the grade was saved
+  saveGrade: (projectId: string, scores: Record<string, number>, feedback: string) => Promise<boolean>;
+
+  // Shared viewing
+  createViewToken: (projectId: string, expiresInDays: number | null) => Promise<JoinInvite | null>;
+  revokeViewToken: (projectId: string, token: string) => Promise<void>;
+  openSharedView: (target: ViewTarget) => Promise<Project | null>;
+
   // Import/Export
   exportProject: (projectId: string) => Promise<void>;
-  importProject: (projectData: any) => Promise<void>;
+  importProject: (projectData: unknown, teacherId: string, teacherName: string) => Promise<string | null>;
 }
 
 export const useClassroomStore = create<ClassroomState>((set, get) => ({
   projects: [],
+  projectMember: null,
   currentProject: null,
+  accessTokens: {},
   loading: false,
   error: null,
   searchTerm: '',
@@ -100,48 +416,20 @@ export const useClassroomStore = create<ClassroomState>((set, get) => ({
   setSelectedProjects: (ids) => set({ selectedProjects: ids }),
   setCurrentProject: (project) => set({ currentProject: project }),
 
-  loadProjects: async (teacherId: string) => {
-    set({ loading: true, error: null });
+  loadProjects: async (member) => {
+    set({ loading: true, error: null, projectMember: member });
     try {
-      // First, try the optimized query with composite index
-      let projects: Project[] = [];
-      
-      try {
-        const q = query(
-          collection(db, 'classroom_projects'),
-          where('teacherId', '==', teacherId),
-          orderBy('updatedAt', 'desc')
-        );
-        
-        const querySnapshot = await getDocs(q);
-        projects = querySnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data(),
-          createdAt: doc.data().createdAt?.toDate() || new Date(),
-          updatedAt: doc.data().updatedAt?.toDate() || new Date(),
-        })) as Project[];
-      } catch (indexError) {
-        // If composite index doesn't exist, fall back to simple query and sort in memory
-        console.warn('Composite index not available, using fallback query. Please create the index at:', 
-          'https://console.firebase.google.com/v1/r/project/steam-ic-3d-modeling-prototype/firestore/indexes');
-        
-        const q = query(
-          collection(db, 'classroom_projects'),
-          where('teacherId', '==', teacherId)
-        );
-        
-        const querySnapshot = await getDocs(q);
-        projects = querySnapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data(),
-          createdAt: doc.data().createdAt?.toDate() || new Date(),
-          updatedAt: doc.data().updatedAt?.toDate() || new Date(),
-        })) as Project[];
-        
-        // Sort in memory by updatedAt descending
-        projects.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
-      }
-
+      const [owned, enrolled] = await Promise.all([
+        repository.listProjects(member.uid),
+        repository.listEnrolledProjects(member)
+      ]);
+      const ownedIds = new Set(owned.map(project => project.id));
+      // Students who have their own copy of an assignment work in that instead of the starter
+      const copiedAssignments = new Set(enrolled.map(project => (project.submission as Submission | undefined)?.assignmentId));
+      const projects = [
+        ...owned,
+        ...enrolled.filter(project => !ownedIds.has(project.id) && !copiedAssignments.has(project.id))
+      ] as unknown as Project[];
       set({ projects, loading: false });
     } catch (error) {
       console.error('Error loading projects:', error);
@@ -165,16 +453,15 @@ export const useClassroomStore = create<ClassroomState>((set, get) => ({
           autoSave: true,
           ...projectData.settings
         },
-        objectCount: 0,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
+        objectCount: 0
       };
 
-      const docRef = await addDoc(collection(db, 'classroom_projects'), newProject);
+      await repository.createProject(newProject);
       
       // Reload projects to get the new one
-      if (projectData.teacherId) {
-        await get().loadProjects(projectData.teacherId);
+      const { projectMember } = get();
+      if (projectMember) {
+        await get().loadProjects(projectMember);
       }
       
       set({ loading: false });
@@ -186,23 +473,10 @@ export const useClassroomStore = create<ClassroomState>((set, get) => ({
 
   updateProject: async (projectId, data) => {
     try {
-      const projectRef = doc(db, 'classroom_projects', projectId);
-      await updateDoc(projectRef, {
-        ...data,
-        updatedAt: serverTimestamp()
-      });
+      await repository.updateProject(projectId, data);
 
       // Update local state
-      set(state => ({
-        projects: state.projects.map(project =>
-          project.id === projectId
-            ? { ...project, ...data, updatedAt: new Date() }
-            : project
-        ),
-        currentProject: state.currentProject?.id === projectId
-          ? { ...state.currentProject, ...data, updatedAt: new Date() }
-          : state.currentProject
-      }));
+      set(state => mergeProjectFields(state, projectId, data));
     } catch (error) {
       console.error('Error updating project:', error);
       set({ error: 'Failed to update project' });
@@ -211,7 +485,7 @@ export const useClassroomStore = create<ClassroomState>((set, get) => ({
 
   deleteProject: async (projectId) => {
     try {
-      await deleteDoc(doc(db, 'classroom_projects', projectId));
+      await repository.deleteProject(projectId);
       
       set(state => ({
         projects: state.projects.filter(project => project.id !== projectId),
@@ -229,22 +503,27 @@ export const useClassroomStore = create<ClassroomState>((set, get) => ({
       const originalProject = state.projects.find(p => p.id === projectId);
       if (!originalProject) return;
 
-      const duplicatedProject = {
+      const duplicatedProject: Record<string, unknown> = {
         ...originalProject,
         name: `${originalProject.name} (Copy)`,
         students: [], // Don't copy students
         objectCount: 0, // Reset object count
-        isFavorite: false,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
+        isFavorite: false
       };
 
-      delete duplicatedProject.id;
+      // The copy gets its own id and timestamps, and nobody is invited to it yet
+      [
+        'id', 'createdAt', 'updatedAt', 'classCode', 'joinInvites', 'joinRequests', 'viewTokens', 'emailInvitations',
+        'assignment', 'submission', 'grade'
+      ].forEach(field => delete duplicatedProject[field]);
 
-      await addDoc(collection(db, 'classroom_projects'), duplicatedProject);
+      await repository.createProject(duplicatedProject);
       
       // Reload projects
-      await get().loadProjects(originalProject.teacherId);
+      const { projectMember } = get();
+      if (projectMember) {
+        await get().loadProjects(projectMember);
+      }
     } catch (error) {
       console.error('Error duplicating project:', error);
       set({ error: 'Failed to duplicate project' });
@@ -299,6 +578,42 @@ export const useClassroomStore = create<ClassroomState>((set, get) => ({
     }
   },
 
+  recordProjectVisit: async (projectId, member) => {
+    try {
+      const project = get().projects.find(p => p.id === projectId);
+      if (!project) return;
+
+      const role = getProjectRole(project, member);
+      if (role !== 'student' && role !== 'assistant') return;
+
+      // The roster entry is claimed by the account on the first visit, since the teacher only knew the email.
+      // Only this member's entry changes, on the roster as stored, so people joining meanwhile are kept
+      const email = member.email?.toLowerCase();
+      const data = await repository.updateProjectWith(projectId, (record) => {
+        const stored = record as unknown as Project;
+        const emailInvitations = acceptInvitations(stored, member);
+        return {
+          students: (stored.students ?? []).map(student =>
+            student.id === member.uid || (!!email && student.email.toLowerCase() === email)
+              ? {
+                  ...student,
+                  id: member.uid,
+                  ...(!student.name && member.displayName ? { name: member.displayName } : {}),
+                  lastActive: new Date()
+                }
+              : student
+          ),
+          ...(emailInvitations ? { emailInvitations } : {})
+        };
+      });
+      if (data) {
+        set(state => mergeProjectFields(state, projectId, data as Partial<Project>));
+      }
+    } catch (error) {
+      console.error('Error recording project visit:', error);
+    }
+  },
+
   removeStudentFromProject: async (projectId, studentId) => {
     try {
       const state = get();
@@ -329,23 +644,488 @@ export const useClassroomStore = create<ClassroomState>((set, get) => ({
     }
   },
 
+  loadAccessTokens: async (projectId) => {
+    try {
+      const project = get().projects.find(p => p.id === projectId);
+      if (project && project.teacherId === get().projectMember?.uid) {
+        const cleared = await moveLegacyTokens(project);
+        if (cleared) {
+          set(state => mergeProjectFields(state, projectId, cleared as Partial<Project>));
+        }
+      }
+
+      const tokens = await repository.listAccessTokens(projectId);
+      set(state => withAccessTokens(state, projectId, () => tokens));
+    } catch (error) {
+      console.error('Error loading access tokens:', error);
+      set({ error: 'Failed to load share links' });
+    }
+  },
+
+  joinProject: async (target, member) => {
+    set({ error: null });
+    try {
+      // Only the one token is looked up, so joining never reveals a project's other tokens
+      const access = await repository.getAccessToken(target.kind === 'classCode' ? target.classCode : target.token);
+      const usable = !!access && isInviteActive(access) && (target.kind === 'classCode'
+        ? access.kind === 'classCode'
+        : access.projectId === target.projectId && (access.kind === 'join' || access.kind === 'invitation'));
+      const project = usable
+        ? await repository.getProject(access.projectId) as unknown as Project | null
+        : null;
+
+      if (!project || project.status === 'archived') {
+        throw new Error(target.kind === 'classCode'
+          ? `No active class uses the code ${target.classCode}`
+          : usable
+            ? 'This invite link is for a project that is no longer available'
+            : 'This invite link has expired or was revoked. Ask your teacher for a new one');
+      }
+      // An emailed invitation works until it is accepted, revoked or replaced
+      const emailInvitation = access?.kind === 'invitation'
+        ? project.emailInvitations?.find(invitation =>
+            invitation.id === access.invitationId && getInvitationStatus(invitation) === 'pending')
+        : undefined;
+      if (access?.kind === 'invitation' && !emailInvitation) {
+        throw new Error('This invite link has expired or was revoked. Ask your teacher for a new one');
+      }
+
+      const result = { projectId: project.id, projectName: project.name };
+      const name = member.displayName ? { name: member.displayName } : {};
+
+      // Anyone already on the roster, the teacher included, just lands in the project
+      if (!getProjectRole(project, member)) {
+        // Someone the teacher invited by email is already approved
+        if (project.settings?.requireJoinApproval && !emailInvitation) {
+          if (!project.joinRequests?.some(request => request.id === member.uid)) {
+            const request: JoinRequest = { id: member.uid, email: member.email ?? '', ...name, requestedAt: new Date() };
+            await repository.appendToProject(project.id, 'joinRequests', [request]);
+          }
+          return { ...result, status: 'pending' };
+        }
+
+      }
+
+      // Worked out from the project as stored, so students joining and invitations sent or
+      // revoked in the meantime are kept
+      await repository.updateProjectWith(project.id, (record) => {
+        const stored = record as unknown as Project;
+        const student: Student = { id: member.uid, email: member.email ?? '', ...name, role: 'student', joinedAt: new Date() };
+        const emailInvitations = acceptInvitations(stored, member, emailInvitation?.id);
+        const joining = !getProjectRole(stored, member);
+        if (!joining && !emailInvitations) return null;
+
+        return {
+          ...(joining ? { students: [...(stored.students ?? []), student] } : {}),
+          ...(emailInvitations ? { emailInvitations } : {})
+        };
+      });
+
+      // Reload so the project can be opened from the list
+      await get().loadProjects(get().projectMember ?? member);
+      return { ...result, status: 'joined' };
+    } catch (error) {
+      console.error('Error joining project:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to join project' });
+      return null;
+    }
+  },
+
+  setClassCode: async (projectId, enabled) => {
+    try {
+      const project = get().projects.find(p => p.id === projectId);
+      if (!project) return;
+
+      // A project has one class code at a time; a new one stops the old one from working
+      const current = getTokensOfKind(await repository.listAccessTokens(projectId), 'classCode')
+        .filter(entry => !entry.revoked);
+      await Promise.all(current.map(entry => repository.revokeAccessToken(entry.token)));
+
+      let created: AccessTokenRecord[] = [];
+      if (enabled) {
+        // Codes are short, so make sure no other project uses this one
+        let classCode: string;
+        do {
+          classCode = generateClassCode();
+        } while (await repository.getAccessToken(classCode));
+
+        const token = createAccessToken(projectId, 'classCode', get().projectMember?.uid ?? project.teacherId, null, classCode);
+        await repository.saveAccessToken(token);
+        created = [token];
+      }
+
+      const revoked = new Set(current.map(entry => entry.token));
+      set(state => withAccessTokens(state, projectId, tokens => [
+        ...tokens.map(entry => revoked.has(entry.token) ? { ...entry, revoked: true } : entry),
+        ...created
+      ]));
+    } catch (error) {
+      console.error('Error updating class code:', error);
+      set({ error: 'Failed to update class code' });
+    }
+  },
+
+  createJoinInvite: async (projectId, expiresInDays) => {
+    try {
+      const project = get().projects.find(p => p.id === projectId);
+      if (!project) return null;
+
+      const invite = createAccessToken(projectId, 'join', get().projectMember?.uid ?? project.teacherId, expiresInDays);
+      await repository.saveAccessToken(invite);
+      set(state => withAccessTokens(state, projectId, tokens => [...tokens, invite]));
+      return invite;
+    } catch (error) {
+      console.error('Error creating invite link:', error);
+      set({ error: 'Failed to create invite link' });
+      return null;
+    }
+  },
+
+  revokeJoinInvite: async (projectId, token) => {
+    try {
+      await repository.revokeAccessToken(token);
+      set(state => withAccessTokens(state, projectId, tokens => revokeToken(tokens, token)));
+    } catch (error) {
+      console.error('Error revoking invite link:', error);
+      set({ error: 'Failed to revoke invite link' });
+    }
+  },
+
+  approveJoinRequest: async (projectId, requestId) => {
+    try {
+      // Worked out from the project as stored, so requests that arrived since the list loaded are kept
+      const data = await repository.updateProjectWith(projectId, (record) => {
+        const stored = record as unknown as Project;
+        const request = stored.joinRequests?.find(r => r.id === requestId);
+        if (!request) return null;
+
+        const student: Student = {
+          id: request.id,
+          email: request.email,
+          ...(request.name ? { name: request.name } : {}),
+          role: 'student',
+          joinedAt: new Date()
+        };
+        const students = stored.students ?? [];
+        return {
+          students: students.some(s => s.id === student.id) ? students : [...students, student],
+          joinRequests: (stored.joinRequests ?? []).filter(r => r.id !== requestId)
+        };
+      });
+      set(state => mergeProjectFields(state, projectId, (data ?? withoutJoinRequest(state, projectId, requestId)) as Partial<Project>));
+    } catch (error) {
+      console.error('Error approving join request:', error);
+      set({ error: 'Failed to approve join request' });
+    }
+  },
+
+  declineJoinRequest: async (projectId, requestId) => {
+    try {
+      const data = await repository.updateProjectWith(projectId, (record) => {
+        const joinRequests = (record as unknown as Project).joinRequests ?? [];
+        return joinRequests.some(r => r.id === requestId)
+          ? { joinRequests: joinRequests.filter(r => r.id !== requestId) }
+          : null;
+      });
+      set(state => mergeProjectFields(state, projectId, (data ?? withoutJoinRequest(state, projectId, requestId)) as Partial<Project>));
+    } catch (error) {
+      console.error('Error declining join request:', error);
+      set({ error: 'Failed to decline join request' });
+    }
+  },
+
+  sendEmailInvitations: async (projectId, emails) => {
+    try {
+      const project = get().projects.find(p => p.id === projectId);
+      if (!project) return null;
+
+      const result: InvitationResult = { sent: [], failed: [] };
+      const addresses = [...new Set(emails.map(email => email.trim().toLowerCase()).filter(Boolean))];
+      const invitations: EmailInvitation[] = [];
+      for (const email of addresses) {
+        const invitation: EmailInvitation = {
+          id: crypto.randomUUID(),
+          email,
+          invitedBy: get().projectMember?.uid ?? project.teacherId,
+          sentAt: new Date(),
+          expiresAt: new Date(Date.now() + INVITATION_DAYS * DAY),
+          status: 'pending'
+        };
+        // The token stops working when the invitation isn't pending any more, so one for
+        // an invitation that failed to send is harmless
+        const access = {
+          ...createAccessToken(project.id, 'invitation', invitation.invitedBy, INVITATION_DAYS),
+          invitationId: invitation.id
+        };
+        try {
+          await repository.saveAccessToken(access);
+          await sendMail(buildInvitationEmail(
+            project,
+            email,
+            buildInviteLink(project.id, access.token),
+            invitation.expiresAt as Date
+          ));
+          invitations.push(invitation);
+          result.sent.push(email);
+        } catch {
+          result.failed.push(email);
+        }
+      }
+
+      if (invitations.length > 0) {
+        // Worked out from the project as stored, so invitations accepted, sent or revoked since the
+        // list loaded are kept. A new invitation replaces any earlier one waiting for the same address
+        const sentTo = new Set(result.sent);
+        const data = await repository.updateProjectWith(projectId, (record) => {
+          const earlier = ((record as unknown as Project).emailInvitations ?? []).map(invitation =>
+            invitation.status === 'pending' && sentTo.has(invitation.email)
+              ? { ...invitation, status: 'revoked' as const }
+              : invitation
+          );
+          return { emailInvitations: [...earlier, ...invitations] };
+        });
+        set(state => mergeProjectFields(state, projectId, data as Partial<Project>));
+      }
+      return result;
+    } catch (error) {
+      console.error('Error sending invitations:', error);
+      set({ error: 'Failed to send invitations' });
+      return null;
+    }
+  },
+
+  revokeEmailInvitation: async (projectId, invitationId) => {
+    try {
+      // Worked out from the project as stored, so an invitation accepted meanwhile stays accepted
+      // and the loaded list catches up with it
+      const data = await repository.updateProjectWith(projectId, record => ({
+        emailInvitations: ((record as unknown as Project).emailInvitations ?? []).map(invitation =>
+          invitation.id === invitationId && invitation.status === 'pending'
+            ? { ...invitation, status: 'revoked' as const }
+            : invitation
+        )
+      }));
+      set(state => mergeProjectFields(state, projectId, data as Partial<Project>));
+    } catch (error) {
+      console.error('Error revoking invitation:', error);
+      set({ error: 'Failed to revoke invitation' });
+    }
+  },
+
+  publishAssignment: async (projectId, dueAt) => {
+    try {
+      const project = get().projects.find(p => p.id === projectId);
+      if (!project) return null;
+
+      const copies = get().projects.filter(p => p.submission?.assignmentId === projectId);
+      const userId = get().projectMember?.uid ?? project.teacherId;
+
+      // Publishing again hands out copies to students added since, so nobody gets two
+      const students = getStudentsWithoutCopy(project, copies);
+      for (const student of students) {
+        const submission: Submission = {
+          assignmentId: projectId,
+          studentId: student.id,
+          studentEmail: student.email,
+          ...(student.name ? { studentName: student.name } : {}),
+          dueAt,
+          status: 'assigned',
+          submittedAt: null
+        };
+        const copyId = await repository.createProject({
+          name: `${project.name} - ${student.name || student.email.split('@')[0]}`,
+          description: project.description ?? '',
+          teacherId: project.teacherId,
+          teacherName: project.teacherName,
+          status: 'active',
+          isFavorite: false,
+          // The copy belongs to its student alone
+          students: [{ ...student, role: 'student' }],
+          settings: { ...project.settings, allowStudentEdit: true, requireJoinApproval: false },
+          objectCount: project.objectCount,
+          submission
+        });
+        try {
+          await repository.copyProjectData(projectId, copyId, userId);
+        } catch (error) {
+          // An empty copy would count as handed out, and publishing again wouldn't replace it
+          await repository.deleteProject(copyId).catch(() => undefined);
+          throw error;
+        }
+      }
+
+      // A changed due date applies to the copies already handed out
+      await Promise.all(copies
+        .filter(copy => copy.submission && new Date(copy.submission.dueAt ?? 0).getTime() !== new Date(dueAt ?? 0).getTime())
+        .map(copy => repository.updateProject(copy.id, { submission: { ...copy.submission, dueAt } })));
+
+      await repository.updateProject(projectId, {
+        assignment: { publishedAt: project.assignment?.publishedAt ?? new Date(), dueAt }
+      });
+
+      const { projectMember } = get();
+      if (projectMember) {
+        await get().loadProjects(projectMember);
+      }
+      return students.length;
+    } catch (error) {
+      console.error('Error publishing assignment:', error);
+      // Copies handed out before the failure are listed, so publishing again skips those students
+      const { projectMember } = get();
+      if (projectMember) {
+        await get().loadProjects(projectMember);
+      }
+      set({ error: 'Failed to publish assignment' });
+      return null;
+    }
+  },
+
+  submitAssignment: async (projectId) => {
+    try {
+      const project = get().projects.find(p => p.id === projectId);
+      if (!project?.submission) return;
+
+      await get().updateProject(projectId, {
+        submission: { ...project.submission, status: 'submitted', submittedAt: new Date() }
+      });
+    } catch (error) {
+      console.error('Error submitting assignment:', error);
+      set({ error: 'Failed to submit assignment' });
+    }
+  },
+
+  reopenSubmission: async (projectId) => {
+    try {
+      const project = get().projects.find(p => p.id === projectId);
+      if (!project?.submission) return;
+
+      await get().updateProject(projectId, {
+        submission: { ...project.submission, status: 'assigned', submittedAt: null }
+      });
+    } catch (error) {
+      console.error('Error reopening submission:', error);
+      set({ error: 'Failed to reopen submission' });
+    }
+  },
+
+  updateRubric: async (projectId, rubric) => {
+    try {
+      await get().updateProject(projectId, { rubric });
+    } catch (error) {
+      console.error('Error updating rubric:', error);
+      set({ error: 'Failed to update rubric' });
+    }
+  },
+
+  saveGrade: async (projectId, scores, feedback) => {
+    try {
+      const { projects, projectMember } = get();
+      const project = projects.find(p => p.id === projectId);
+      if (!project?.submission) return false;
+
+      const rubric = projects.find(p => p.id === project.submission?.assignmentId)?.rubric ?? [];
+      // Scores for criteria no longer in the rubric are dropped
+      const rubricScores = Object.fromEntries(rubric
+        .filter(criterion => scores[criterion.id] !== undefined)
+        .map(criterion => [criterion.id, Math.min(Math.max(scores[criterion.id], 0), criterion.maxPoints)]));
+
+      const grade: Grade = {
+        scores: rubricScores,
+        feedback,
+        total: Object.values(rubricScores).reduce((sum, points) => sum + points, 0),
+        maxTotal: rubric.reduce((sum, criterion) => sum + criterion.maxPoints, 0),
+        gradedBy: projectMember?.uid ?? project.teacherId,
+        gradedAt: new Date()
+      };
+      await repository.updateProject(projectId, { grade });
+      set(state => mergeProjectFields(state, projectId, { grade }));
+      return true;
+    } catch (error) {
+      console.error('Error saving grade:', error);
+      set({ error: 'Failed to save grade' });
+      return false;
+    }
+  },
+
+  createViewToken: async (projectId, expiresInDays) => {
+    try {
+      const project = get().projects.find(p => p.id === projectId);
+      if (!project) return null;
+
+      const viewToken = createAccessToken(projectId, 'view', get().projectMember?.uid ?? project.teacherId, expiresInDays);
+      await repository.saveAccessToken(viewToken);
+      set(state => withAccessTokens(state, projectId, tokens => [...tokens, viewToken]));
+      return viewToken;
+    } catch (error) {
+      console.error('Error creating view link:', error);
+      set({ error: 'Failed to create view link' });
+      return null;
+    }
+  },
+
+  revokeViewToken: async (projectId, token) => {
+    try {
+      await repository.revokeAccessToken(token);
+      set(state => withAccessTokens(state, projectId, tokens => revokeToken(tokens, token)));
+    } catch (error) {
+      console.error('Error revoking view link:', error);
+      set({ error: 'Failed to revoke view link' });
+    }
+  },
+
+  openSharedView: async (target) => {
+    set({ error: null });
+    try {
+      const access = await repository.getAccessToken(target.token);
+      const project = access?.kind === 'view' && access.projectId === target.projectId && isInviteActive(access)
+        ? await repository.getProject(target.projectId) as unknown as Project | null
+        : null;
+      if (!project) {
+        throw new Error('This view link has expired or was revoked. Ask whoever shared it for a new one');
+      }
+
+      set({ currentProject: project });
+      return project;
+    } catch (error) {
+      console.error('Error opening shared view:', error);
+      set({ error: error instanceof Error ? error.message : 'Failed to open shared view' });
+      return null;
+    }
+  },
+
   exportProject: async (projectId) => {
     try {
-      // Implementation for exporting project data
-      console.log('Exporting project:', projectId);
+      const project = get().projects.find(p => p.id === projectId);
+      if (!project) return;
+
+      const bundle = await exportProjectBundle(projectId);
+      downloadProjectBundle(bundle);
+      console.log(`Exported project "${project.name}" with ${bundle.objects.length} objects`);
     } catch (error) {
       console.error('Error exporting project:', error);
       set({ error: 'Failed to export project' });
     }
   },
 
-  importProject: async (projectData) => {
+  importProject: async (projectData, teacherId, teacherName) => {
+    set({ loading: true, error: null });
     try {
-      // Implementation for importing project data
-      console.log('Importing project:', projectData);
+      const bundle = validateProjectBundle(projectData);
+      const projectId = await importProjectBundle(bundle, teacherId, teacherName);
+
+      const { projectMember } = get();
+      if (projectMember) {
+        await get().loadProjects(projectMember);
+      }
+      set({ loading: false });
+      return projectId;
     } catch (error) {
       console.error('Error importing project:', error);
-      set({ error: 'Failed to import project' });
+      set({
+        error: error instanceof Error ? error.message : 'Failed to import project',
+        loading: false
+      });
+      return null;
     }
   }
 }));
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { FieldVersions } from '../services/firestoreService';
+import { stableStringify } from './autosave';
+
+type DocumentData = Record<string, unknown>;
+
+// Fields that scope a document or are filled in by the database; they are never merged
+const UNMERGED_FIELDS = new Set(['id', 'userId', 'projectId', 'sceneId', 'fieldVersions', 'createdAt', 'updatedAt']);
+
+// Object fields moved by the transform gizmo
+export const TRANSFORM_FIELDS = ['position', 'rotation', 'scale'];
+// Object fields rewritten by vertex, edge and face edits
+export const GEOMETRY_FIELDS = ['type', 'geometryParams', 'customGeometry', 'children'];
+export const MATERIAL_FIELDS = ['color', 'opacity', 'materialParams'];
+
+// A field both this user and someone else changed at the same time
+export interface EditConflict {
+  id: string;
+  collection: 'objects' | 'groups' | 'lights';
+  name: string;
+  fields: string[];
+  detectedAt: Date;
+}
+
+export interface FieldMerge {
+  // The remote document with the local edits laid over it
+  merged: DocumentData;
+  // Remote changes taken into the local version
+  applied: string[];
+  // Fields both sides changed; the local value is kept and overwrites the remote one on the next save
+  conflicts: string[];
+}
+
+const contentFields = (data: DocumentData) => Object.keys(data).filter(key => !UNMERGED_FIELDS.has(key));
+
+// Missing and null fields mean the same thing in a merge-written document
+const sameValue = (a: unknown, b: unknown) => stableStringify(a ?? null) === stableStringify(b ?? null);
+
+// Helper function to list the fields whose value differs between two versions of a document.
+// Without a base every field counts as changed
+export const diffFields = (base: DocumentData | undefined, next: DocumentData): string[] => {
+  if (!base) return contentFields(next);
+  const keys = new Set([...contentFields(base), ...contentFields(next)]);
+  return Array.from(keys).filter(key => !sameValue(base[key], next[key]));
+};
+
+// Helper function to list the fields someone else saved since the base. Field versions catch a
+// save that set a value back to what it was; documents saved before versions existed fall back to
+// comparing values
+const remoteChangedFields = (base: DocumentData | undefined, remote: DocumentData): string[] => {
+  const baseVersions = (base?.fieldVersions ?? {}) as FieldVersions;
+  const remoteVersions = (remote.fieldVersions ?? {}) as FieldVersions;
+  const bumped = Object.keys(remoteVersions).filter(field => remoteVersions[field] > (baseVersions[field] ?? 0));
+  return Array.from(new Set([...bumped, ...diffFields(base, remote)]));
+};
+
+// Helper function to combine a remote document with local edits made since the base (the last
+// version this session received). Fields only the remote side changed are taken, fields only the
+// local side changed - or that are mid-edit, like a gizmo drag - are kept
+export const mergeFields = (
+  base: DocumentData | undefined,
+  remote: DocumentData,
+  local: DocumentData,
+  inFlight: string[]
+): FieldMerge => {
+  const localChanged = new Set([...diffFields(base, local), ...inFlight]);
+  const remoteChanged = remoteChangedFields(base, remote);
+
+  const merged: DocumentData = { ...remote };
+  localChanged.forEach((field) => {
+    merged[field] = local[field];
+  });
+
+  return {
+    merged,
+    applied: remoteChanged.filter(field => !localChanged.has(field)),
+    conflicts: remoteChanged.filter(field => localChanged.has(field) && !sameValue(remote[field], local[field]))
+  };
+};
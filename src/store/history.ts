@@ -0,0 +1,105 @@
+import * as THREE from 'three';
+
+// How many commands undo can step back through. Commands only hold the data that
+// changed, so this can be far deeper than the old 50 full-scene snapshots.
+export const HISTORY_LIMIT = 200;
+
+export interface HistoryObjectEntry {
+  id: string;
+  object: THREE.Object3D;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  groupId?: string;
+  firestoreId?: string;
+}
+
+export interface TransformSnapshot {
+  position: [number, number, number];
+  rotation: [number, number, number];
+  scale: [number, number, number];
+}
+
+// Group list plus each object's membership, so group edits can be restored as a whole
+export interface GroupsSnapshot<G> {
+  groups: G[];
+  objectGroupIds: Record<string, string | undefined>;
+}
+
+export interface TransformCommand {
+  type: 'transform';
+  changes: Array<{ id: string; before: TransformSnapshot; after: TransformSnapshot }>;
+}
+
+export type HistoryCommand<G, L> =
+  | { type: 'add'; entries: HistoryObjectEntry[] }
+  | { type: 'remove'; entries: HistoryObjectEntry[] }
+  | TransformCommand
+  | { type: 'rename'; id: string; before: string; after: string }
+  | { type: 'vertices'; id: string; before: Float32Array; after: Float32Array }
+  | { type: 'geometry'; id: string; before: THREE.BufferGeometry; after: THREE.BufferGeometry }
+  | { type: 'groups'; before: GroupsSnapshot<G>; after: GroupsSnapshot<G> }
+  | { type: 'lights'; before: L[]; after: L[] };
+
+// Helper function to record an object's transform
+export const captureTransform = (object: THREE.Object3D): TransformSnapshot => ({
+  position: [object.position.x, object.position.y, object.position.z],
+  rotation: [object.rotation.x, object.rotation.y, object.rotation.z],
+  scale: [object.scale.x, object.scale.y, object.scale.z]
+});
+
+// Helper function to put an object back into a recorded transform
+export const applyTransform = (object: THREE.Object3D, snapshot: TransformSnapshot) => {
+  object.position.fromArray(snapshot.position);
+  object.rotation.set(...snapshot.rotation);
+  object.scale.fromArray(snapshot.scale);
+  object.updateMatrix();
+};
+
+const transformsEqual = (a: TransformSnapshot, b: TransformSnapshot) =>
+  [...a.position, ...a.rotation, ...a.scale].every((value, i) =>
+    Math.abs(value - [...b.position, ...b.rotation, ...b.scale][i]) < 1e-9
+  );
+
+// Helper function to build a transform command, dropping objects that didn't move.
+// Returns null when nothing changed so clicks on the gizmo don't fill the history.
+export const createTransformCommand = (
+  before: Map<string, TransformSnapshot>,
+  objects: HistoryObjectEntry[]
+): TransformCommand | null => {
+  const changes = objects.flatMap((entry) => {
+    const start = before.get(entry.id);
+    if (!start) return [];
+    const end = captureTransform(entry.object);
+    return transformsEqual(start, end) ? [] : [{ id: entry.id, before: start, after: end }];
+  });
+
+  return changes.length > 0 ? { type: 'transform', changes } : null;
+};
+
+// Helper function to copy a mesh's vertex positions for a vertices command
+export const capturePositions = (object: THREE.Object3D): Float32Array | null => {
+  if (!(object instanceof THREE.Mesh) || !object.geometry.attributes.position) return null;
+  return Float32Array.from(object.geometry.attributes.position.array as ArrayLike<number>);
+};
+
+// Every command has an exact opposite: undo applies the inverse, redo applies the command
+export const invertCommand = <G, L>(command: HistoryCommand<G, L>): HistoryCommand<G, L> => {
+  switch (command.type) {
+    case 'add':
+      return { type: 'remove', entries: command.entries };
+    case 'remove':
+      return { type: 'add', entries: command.entries };
+    case 'transform':
+      return {
+        type: 'transform',
+        changes: command.changes.map(({ id, before, after }) => ({ id, before: after, after: before }))
+      };
+    case 'rename':
+    case 'vertices':
+    case 'geometry':
+    case 'groups':
+    case 'lights':
+      return { ...command, before: command.after, after: command.before } as HistoryCommand<G, L>;
+  }
+};
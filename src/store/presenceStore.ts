@@ -0,0 +1,199 @@
+import { create } from 'zustand';
+import * as THREE from 'three';
+import {
+  PresenceCamera,
+  PresenceData,
+  updatePresence,
+  removePresence,
+  subscribeToPresence
+} from '../services/presenceService';
+import { useSceneStore } from './sceneStore';
+
+// Presence changes are sent at most this often (Firestore sustains about one write per second per document)
+const PRESENCE_WRITE_INTERVAL = 1000;
+// The heartbeat is rewritten this often even when nothing changed
+const HEARTBEAT_INTERVAL = 10000;
+// Presence older than this belongs to a closed tab or a lost connection
+const STALE_AFTER = 30000;
+
+const PEER_COLORS = ['#f97316', '#22c55e', '#ec4899', '#eab308', '#06b6d4', '#a855f7', '#ef4444', '#14b8a6'];
+
+// Helper function to give every user the same color in every session
+export const colorForUser = (userId: string) => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+};
+
+interface PresenceSession {
+  projectId: string;
+  local: PresenceData;
+  // Everyone's presence documents as last received, including our own
+  received: PresenceData[];
+  lastWrite: number;
+  writeTimer: ReturnType<typeof setTimeout> | null;
+  cleanup: Array<() => void>;
+}
+
+interface PresenceState {
+  // Other users with the project open right now
+  peers: PresenceData[];
+  startPresence: (projectId: string, user: { uid: string; displayName?: string | null; email?: string | null }) => void;
+  stopPresence: () => void;
+  // Called every frame by the scene; only sent when the camera moved
+  reportCamera: (camera: THREE.Camera) => void;
+}
+
+let session: PresenceSession | null = null;
+
+const isFresh = (presence: PresenceData) =>
+  // Our own write echoes back before the server fills in lastSeen
+  !presence.lastSeen || Date.now() - presence.lastSeen.toMillis() < STALE_AFTER;
+
+// Helper function to work out which peers are around and which objects they are holding
+const refreshPeers = () => {
+  if (!session) return;
+  const { local, received } = session;
+
+  const peers = received.filter(presence => presence.userId !== local.userId && isFresh(presence));
+  usePresenceStore.setState({ peers });
+
+  // Objects on another user's transform gizmo can't be grabbed until they let go
+  useSceneStore.getState().setSoftLockedObjects(
+    peers
+      .filter(peer => peer.sceneId === local.sceneId)
+      .flatMap(peer => peer.heldObjectIds)
+  );
+};
+
+const writePresence = () => {
+  if (!session) return;
+  session.lastWrite = Date.now();
+  updatePresence(session.projectId, session.local).catch(() => undefined);
+};
+
+// Helper function to send the local presence, throttled to the write interval
+const scheduleWrite = () => {
+  if (!session || session.writeTimer) return;
+
+  const wait = session.lastWrite + PRESENCE_WRITE_INTERVAL - Date.now();
+  if (wait <= 0) {
+    writePresence();
+    return;
+  }
+
+  session.writeTimer = setTimeout(() => {
+    if (!session) return;
+    session.writeTimer = null;
+    writePresence();
+  }, wait);
+};
+
+// Helper function to read what the studio shows this user into their presence
+const localSceneFields = () => {
+  const { currentSceneId, selectedObjects, transformStart } = useSceneStore.getState();
+  return {
+    sceneId: currentSceneId,
+    selectedObjectIds: Array.from(selectedObjects),
+    heldObjectIds: transformStart ? Array.from(transformStart.keys()) : []
+  };
+};
+
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+const cameraMoved = (a: PresenceCamera | null, b: PresenceCamera) =>
+  !a || [...a.position, ...a.quaternion, a.fov, a.aspect].some((value, i) =>
+    Math.abs(value - [...b.position, ...b.quaternion, b.fov, b.aspect][i]) > 1e-3
+  );
+
+export const usePresenceStore = create<PresenceState>((set, get) => ({
+  peers: [],
+
+  startPresence: (projectId, user) => {
+    get().stopPresence();
+
+    const current: PresenceSession = {
+      projectId,
+      local: {
+        userId: user.uid,
+        displayName: user.displayName || user.email || 'Anonymous',
+        color: colorForUser(user.uid),
+        camera: null,
+        ...localSceneFields()
+      },
+      received: [],
+      lastWrite: 0,
+      writeTimer: null,
+      cleanup: []
+    };
+    session = current;
+
+    current.cleanup.push(subscribeToPresence(projectId, (presence) => {
+      current.received = presence;
+      refreshPeers();
+    }));
+
+    // Follow the selection, scene and gizmo so collaborators see them
+    current.cleanup.push(useSceneStore.subscribe((state, previous) => {
+      if (state.selectedObjects === previous.selectedObjects &&
+          state.currentSceneId === previous.currentSceneId &&
+          state.transformStart === previous.transformStart) return;
+
+      const fields = localSceneFields();
+      const sceneChanged = fields.sceneId !== current.local.sceneId;
+      if (!sceneChanged &&
+          sameIds(fields.selectedObjectIds, current.local.selectedObjectIds) &&
+          sameIds(fields.heldObjectIds, current.local.heldObjectIds)) return;
+
+      current.local = { ...current.local, ...fields };
+      scheduleWrite();
+      if (sceneChanged) refreshPeers();
+    }));
+
+    // Keep the heartbeat alive and let go of peers whose heartbeat stopped
+    const heartbeat = setInterval(() => {
+      writePresence();
+      refreshPeers();
+    }, HEARTBEAT_INTERVAL);
+    current.cleanup.push(() => clearInterval(heartbeat));
+
+    // Leave right away when the tab closes instead of waiting to go stale
+    const handlePageHide = () => {
+      removePresence(projectId, user.uid).catch(() => undefined);
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    current.cleanup.push(() => window.removeEventListener('pagehide', handlePageHide));
+
+    writePresence();
+  },
+
+  stopPresence: () => {
+    if (!session) return;
+    const { projectId, local, writeTimer, cleanup } = session;
+    session = null;
+
+    if (writeTimer) clearTimeout(writeTimer);
+    cleanup.forEach(fn => fn());
+    removePresence(projectId, local.userId).catch(() => undefined);
+
+    set({ peers: [] });
+    useSceneStore.getState().setSoftLockedObjects([]);
+  },
+
+  reportCamera: (camera) => {
+    if (!session) return;
+
+    const pose: PresenceCamera = {
+      position: camera.position.toArray() as [number, number, number],
+      quaternion: camera.quaternion.toArray() as [number, number, number, number],
+      fov: camera instanceof THREE.PerspectiveCamera ? camera.fov : 50,
+      aspect: camera instanceof THREE.PerspectiveCamera ? camera.aspect : 1
+    };
+    if (!cameraMoved(session.local.camera, pose)) return;
+
+    session.local = { ...session.local, camera: pose };
+    scheduleWrite();
+  }
+}));
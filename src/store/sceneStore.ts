@@ -1,29 +1,62 @@
-import { create } from 'zustand';
+import { create, StoreApi } from 'zustand';
 import * as THREE from 'three';
 import {
-  saveObject,
-  updateObject,
-  deleteObject,
-  saveGroup,
-  updateGroup,
-  deleteGroup,
-  saveLight,
-  updateLight,
-  deleteLight,
-  getObjects,
-  getGroups,
-  getLights,
-  subscribeToObjects,
-  subscribeToGroups,
-  subscribeToLights,
   objectToFirestore,
   firestoreToObject,
   FirestoreObject,
   FirestoreGroup,
-  FirestoreLight
+  FirestoreLight,
+  FirestoreScene,
+  DocumentWrite,
+  ProjectCollection
 } from '../services/firestoreService';
-
-type EditMode = 'vertex' | 'edge' | null;
+import { repository } from '../services/repository';
+import {
+  QueuedWrite,
+  queueWrites,
+  getQueuedWrites,
+  removeQueuedWrites,
+  replayQueuedWrites
+} from '../services/offlineQueue';
+import {
+  getFaceVertices,
+  extrudeFaces,
+  bevelEdge as bevelGeometryEdge,
+  createNURBSCurveGeometry,
+  createNURBSSurfaceGeometry
+} from '../utils/meshEditing';
+import {
+  HISTORY_LIMIT,
+  HistoryCommand,
+  GroupsSnapshot,
+  TransformSnapshot,
+  captureTransform,
+  applyTransform,
+  createTransformCommand,
+  capturePositions,
+  invertCommand
+} from './history';
+import {
+  SaveStatus,
+  PendingChanges,
+  EntityChanges,
+  createPendingChanges,
+  mergePendingChanges,
+  hasPendingChanges,
+  documentSignature,
+  createAutosave
+} from './autosave';
+import {
+  EditConflict,
+  TRANSFORM_FIELDS,
+  GEOMETRY_FIELDS,
+  MATERIAL_FIELDS,
+  diffFields,
+  mergeFields
+} from './fieldMerge';
+import { ProjectSettings } from './classroomStore';
+
+type EditMode = 'vertex' | 'edge' | 'face' | 'extrude' | 'bevel' | 'nurbs' | 'curve' | null;
 type CameraPerspective = 'perspective' | 'front' | 'back' | 'left' | 'right' | 'top' | 'bottom';
 
 interface Light {
@@ -62,20 +95,47 @@ interface SceneSettings {
   hideAllMenus: boolean;
 }
 
-interface HistoryState {
-  objects: Array<{
-    id: string;
-    object: THREE.Object3D;
-    name: string;
-    visible: boolean;
-    locked: boolean;
-    groupId?: string;
-    firestoreId?: string;
-  }>;
-  groups: Group[];
-  lights: Light[];
+const DEFAULT_SCENE_SETTINGS: SceneSettings = {
+  backgroundColor: '#0f0f23',
+  showGrid: true,
+  gridSize: 10,
+  gridDivisions: 10,
+  hideAllMenus: false
+};
+
+// View settings each scene of a project keeps for itself
+interface SceneView {
+  backgroundColor: string;
+  showGrid: boolean;
+  gridSize: number;
+  gridDivisions: number;
+  cameraPerspective: CameraPerspective;
+  cameraZoom: number;
 }
 
+const DEFAULT_SCENE_VIEW: SceneView = {
+  backgroundColor: DEFAULT_SCENE_SETTINGS.backgroundColor,
+  showGrid: DEFAULT_SCENE_SETTINGS.showGrid,
+  gridSize: DEFAULT_SCENE_SETTINGS.gridSize,
+  gridDivisions: DEFAULT_SCENE_SETTINGS.gridDivisions,
+  cameraPerspective: 'perspective',
+  cameraZoom: 1
+};
+
+const DEFAULT_SCENE_NAME = 'Main Scene';
+
+// A scene of the open project. Only the current scene's objects, groups and lights are loaded
+interface ProjectScene {
+  id: string;
+  name: string;
+  order: number;
+  // Last known view; the current scene's live view is in sceneSettings and the camera fields
+  view: SceneView;
+  firestoreId?: string;
+}
+
+type SceneHistoryCommand = HistoryCommand<Group, Light>;
+
 interface SceneState {
   objects: Array<{
     id: string;
@@ -90,11 +150,16 @@ interface SceneState {
   lights: Light[];
   selectedLight: Light | null;
   selectedObject: THREE.Object3D | null;
+  // Ids of every selected object; selectedObject is the primary (last picked) one
+  selectedObjects: Set<string>;
   transformMode: 'translate' | 'rotate' | 'scale' | null;
   editMode: EditMode;
   cameraPerspective: CameraPerspective;
   cameraZoom: number;
   sceneSettings: SceneSettings;
+  // Scenes of the open project in switcher order
+  scenes: ProjectScene[];
+  currentSceneId: string | null;
   // New persistent mode settings
   persistentTransformMode: 'translate' | 'rotate' | 'scale' | null;
   persistentEditMode: EditMode;
@@ -116,10 +181,23 @@ interface SceneState {
     midpoint: THREE.Vector3;
   } | null;
   isDraggingEdge: boolean;
-  history: HistoryState[];
+  draggedFaces: {
+    indices: number[];
+    initialPositions: THREE.Vector3[];
+    normal: THREE.Vector3;
+    center: THREE.Vector3;
+    offset: number;
+  } | null;
+  // Control points placed in the scene for NURBS curves and surfaces
+  controlPoints: THREE.Vector3[];
+  history: SceneHistoryCommand[];
   historyIndex: number;
   canUndo: boolean;
   canRedo: boolean;
+  // Transforms of the selected objects when a gizmo drag or property edit started
+  transformStart: Map<string, TransformSnapshot> | null;
+  // Vertex positions of the edited mesh when a vertex, edge or face drag started
+  vertexEditStart: { id: string; positions: Float32Array } | null;
   // New placement state
   placementMode: boolean;
   pendingObject: {
@@ -130,9 +208,23 @@ interface SceneState {
   // Save state and project context
   lastSaved: Date | null;
   hasUnsavedChanges: boolean;
+  // Ids of entities changed since the last save, written by the autosave engine
+  pendingChanges: PendingChanges;
+  saveStatus: SaveStatus;
   currentProjectId: string | null;
   currentUserId: string | null;
   isLoading: boolean;
+  // Settings of the open classroom project and whether this user may only look at it
+  projectSettings: ProjectSettings | null;
+  isReadOnly: boolean;
+  // Explains why the last action was refused (e.g. the object limit), shown as a toast
+  studioNotice: string | null;
+  // Objects a collaborator is transforming right now; they can't be grabbed until released
+  softLockedObjects: Set<string>;
+  // Fields a collaborator changed while this user was editing them; this user's version was kept
+  editConflicts: EditConflict[];
+  // Writes left on this device by an earlier session that ended before they were saved
+  recoverableWrites: QueuedWrite[];
   // Real-time sync state
   unsubscribeObjects?: () => void;
   unsubscribeGroups?: () => void;
@@ -143,10 +235,26 @@ interface SceneState {
   loadProjectData: () => Promise<void>;
   saveProjectData: () => Promise<void>;
   clearProjectData: () => void;
+  setProjectAccess: (settings: ProjectSettings | null, readOnly: boolean) => void;
+  setStudioNotice: (message: string | null) => void;
+  setSoftLockedObjects: (ids: string[]) => void;
+  dismissConflict: (id: string) => void;
+  dismissAllConflicts: () => void;
+  restoreRecoverableWrites: () => Promise<void>;
+  discardRecoverableWrites: () => Promise<void>;
+  // Scene management
+  switchScene: (sceneId: string) => Promise<void>;
+  createScene: (name?: string) => Promise<void>;
+  renameScene: (sceneId: string, name: string) => void;
+  moveScene: (sceneId: string, direction: 'up' | 'down') => void;
+  duplicateScene: (sceneId: string) => Promise<void>;
   
   addObject: (object: THREE.Object3D, name: string) => Promise<void>;
   removeObject: (id: string) => Promise<void>;
+  removeObjects: (ids: string[]) => Promise<void>;
   setSelectedObject: (object: THREE.Object3D | null) => void;
+  toggleObjectSelection: (object: THREE.Object3D) => void;
+  setSelectedObjects: (ids: string[]) => void;
   setTransformMode: (mode: 'translate' | 'rotate' | 'scale' | null) => void;
   setEditMode: (mode: EditMode) => void;
   setCameraPerspective: (perspective: CameraPerspective) => void;
@@ -165,8 +273,18 @@ interface SceneState {
   updateEdgeDrag: (position: THREE.Vector3) => void;
   endEdgeDrag: () => void;
   setIsDraggingEdge: (isDragging: boolean) => void;
+  startFaceDrag: () => void;
+  updateFaceDrag: (offset: number) => void;
+  endFaceDrag: () => void;
   updateCylinderVertices: (vertexCount: number) => void;
   updateSphereVertices: (vertexCount: number) => void;
+  // Modelling operations
+  extrudeFace: (distance: number) => void;
+  bevelEdge: (segments: number, width: number) => void;
+  addControlPoint: (point: THREE.Vector3) => void;
+  clearControlPoints: () => void;
+  createNURBSCurve: () => Promise<void>;
+  createNURBSSurface: (pointsPerRow?: number) => Promise<void>;
   // Group management
   createGroup: (name: string, objectIds?: string[]) => Promise<void>;
   removeGroup: (groupId: string) => Promise<void>;
@@ -197,10 +315,12 @@ interface SceneState {
   // Helper functions
   isObjectLocked: (objectId: string) => boolean;
   canSelectObject: (object: THREE.Object3D) => boolean;
-  saveToHistory: () => void;
+  pushHistory: (command: SceneHistoryCommand) => void;
+  startTransform: () => void;
+  endTransform: () => Promise<void>;
   // Save functions
   markSaved: () => void;
-  markUnsavedChanges: () => void;
+  markUnsavedChanges: (changes?: EntityChanges) => void;
 }
 
 const cloneObject = (obj: THREE.Object3D): THREE.Object3D => {
@@ -247,23 +367,676 @@ const createLight = (type: 'directional' | 'point' | 'spot', position: number[],
   return light;
 };
 
+// Helper function to capture the group list and memberships for a groups command
+const captureGroups = (state: SceneState): GroupsSnapshot<Group> => ({
+  groups: state.groups.map(group => ({ ...group, objectIds: [...group.objectIds] })),
+  objectGroupIds: Object.fromEntries(state.objects.map(obj => [obj.id, obj.groupId]))
+});
+
+// Helper function to capture the light list for a lights command (the THREE.js lights are rebuilt on restore)
+const captureLights = (state: SceneState): Light[] =>
+  state.lights.map(light => ({ ...light, object: undefined }));
+
+// Helper function to turn the positions saved when a vertex, edge or face drag started into a command
+const finishVertexEdit = (state: SceneState): SceneHistoryCommand | null => {
+  const start = state.vertexEditStart;
+  if (!start) return null;
+
+  const entry = state.objects.find(obj => obj.id === start.id);
+  const after = entry ? capturePositions(entry.object) : null;
+  if (!after || after.length !== start.positions.length) return null;
+  if (after.every((value, i) => value === start.positions[i])) return null;
+
+  return { type: 'vertices', id: start.id, before: start.positions, after };
+};
+
+// Helper function to build the document a scene object is saved as. Saves merge into the
+// existing document, so optional fields the object no longer uses are nulled
+const objectDocument = (entry: SceneState['objects'][number], userId: string, projectId: string): FirestoreObject => ({
+  // null clears the field in Firestore
+  ...({ groupId: null, geometryParams: null, customGeometry: null, materialParams: null } as unknown as Partial<FirestoreObject>),
+  ...objectToFirestore(entry.object, entry.name, entry.firestoreId, userId, projectId),
+  visible: entry.visible,
+  locked: entry.locked,
+  ...(entry.groupId ? { groupId: entry.groupId } : {})
+});
+
+const groupDocument = (group: Group): FirestoreGroup => ({
+  name: group.name,
+  expanded: group.expanded,
+  visible: group.visible,
+  locked: group.locked,
+  objectIds: group.objectIds
+});
+
+// Helper function to pick the id of a new object, group, light or scene. Inside a project it is the id
+// its database document will get, so local and stored ids always match
+const createEntityId = (state: SceneState, collectionName: ProjectCollection) =>
+  state.currentProjectId ? repository.createDocumentId(state.currentProjectId, collectionName) : crypto.randomUUID();
+
+// Content of the documents this session last wrote, by id, to recognise our own writes in snapshots
+const savedSignatures = new Map<string, string>();
+
+// Each document as this session last received it, by id: the common base when local and remote edits are merged
+const remoteDocuments = new Map<string, Record<string, unknown>>();
+
+interface SnapshotMerge<D, T> {
+  // Builds the local entry for a document. `existing` is the entry it replaces and `fields` the fields that changed
+  build: (data: D, existing: T | undefined, fields: Set<string>) => T | null;
+  // The document the local entry would be saved as
+  toDocument: (entry: T) => D;
+  // Fields of an entry being edited right now (e.g. by a gizmo drag) whose edit isn't queued for saving yet
+  inFlightFields: (id: string) => string[];
+  nameOf: (entry: T) => string;
+}
+
+// Helper function to fold a database snapshot into the local entries. Entries whose document didn't
+// change or came back exactly as we wrote it keep their local version (and THREE.js object). Entries
+// with local edits take the remote changes to other fields and keep their own; fields both sides
+// changed are reported as conflicts. Everything else is rebuilt from the database
+const reconcileSnapshot = <D extends { id?: string }, T extends { id: string }>(
+  local: T[],
+  documents: D[],
+  changedIds: Set<string>,
+  pending: Set<string>,
+  collectionName: EditConflict['collection'],
+  { build, toDocument, inFlightFields, nameOf }: SnapshotMerge<D, T>
+): { entries: T[]; conflicts: EditConflict[] } => {
+  const localById = new Map(local.map(entry => [entry.id, entry]));
+  const documentIds = new Set(documents.map(data => data.id));
+  const conflicts: EditConflict[] = [];
+
+  const entries = documents.flatMap((data) => {
+    const id = data.id as string;
+    const existing = localById.get(id);
+    const base = remoteDocuments.get(id);
+    remoteDocuments.set(id, data as Record<string, unknown>);
+
+    if (existing && (!changedIds.has(id) || savedSignatures.get(id) === documentSignature(data))) {
+      return [existing];
+    }
+    if (!existing && pending.has(id)) {
+      // Deleted locally but the deletion isn't saved yet
+      return [];
+    }
+
+    const inFlight = existing ? inFlightFields(id) : [];
+    if (existing && (pending.has(id) || inFlight.length > 0)) {
+      const merge = mergeFields(
+        base,
+        data as Record<string, unknown>,
+        toDocument(existing) as Record<string, unknown>,
+        inFlight
+      );
+      if (merge.conflicts.length > 0) {
+        conflicts.push({ id, collection: collectionName, name: nameOf(existing), fields: merge.conflicts, detectedAt: new Date() });
+      }
+      if (merge.applied.length === 0) return [existing];
+
+      const merged = build(merge.merged as D, existing, new Set(merge.applied));
+      return [merged ?? existing];
+    }
+
+    const built = build(data, existing, new Set(diffFields(base, data as Record<string, unknown>)));
+    return built ? [built] : [];
+  });
+
+  // Entries created locally that haven't reached the database yet
+  const unsaved = local.filter(entry => pending.has(entry.id) && !documentIds.has(entry.id));
+  return { entries: [...entries, ...unsaved], conflicts };
+};
+
+// Helper function to move a rebuilt object's changed parts into the object already in the scene, so
+// the selection, gizmo and history keep pointing at it. Returns false when the object changed kind
+// and has to be replaced
+const adoptObject = (target: THREE.Object3D, source: THREE.Object3D, fields: Set<string>): boolean => {
+  if (target.type !== source.type) return false;
+
+  if (fields.has('position')) target.position.copy(source.position);
+  if (fields.has('rotation')) target.rotation.copy(source.rotation);
+  if (fields.has('scale')) target.scale.copy(source.scale);
+  if (fields.has('visible')) target.visible = source.visible;
+
+  if (target instanceof THREE.Mesh && source instanceof THREE.Mesh) {
+    // The old geometry isn't disposed; undo history may still hold it
+    if (GEOMETRY_FIELDS.some(field => fields.has(field))) target.geometry = source.geometry;
+    if (MATERIAL_FIELDS.some(field => fields.has(field))) target.material = source.material;
+  }
+  if (fields.has('children')) {
+    target.clear();
+    target.add(...source.children);
+  }
+
+  target.updateMatrix();
+  return true;
+};
+
+// Helper function to drop objects from the selection, promoting the most recently
+// picked remaining object when the primary one is dropped
+const deselectObjects = (state: SceneState, ids: string[]) => {
+  const selectedObjects = new Set(state.selectedObjects);
+  ids.forEach(id => selectedObjects.delete(id));
+
+  const primary = state.objects.find(obj => obj.object === state.selectedObject);
+  if (primary && selectedObjects.has(primary.id)) {
+    return { selectedObject: state.selectedObject, selectedObjects };
+  }
+
+  const fallbackId = Array.from(selectedObjects).pop();
+  const fallback = state.objects.find(obj => obj.id === fallbackId);
+  return fallback
+    ? { selectedObject: fallback.object, selectedObjects }
+    : { selectedObject: null, selectedObjects: new Set<string>() };
+};
+
+// Helper function to build a selection holding a single object (or nothing)
+const selectOnly = (state: SceneState, object: THREE.Object3D | null) => {
+  const entry = object ? state.objects.find(obj => obj.object === object) : undefined;
+  return {
+    selectedObject: object,
+    selectedObjects: new Set<string>(entry ? [entry.id] : [])
+  };
+};
+
+// Helper function to explain why adding objects would go past the project's object limit
+const objectLimitMessage = (state: SceneState, adding: number): string | null => {
+  const maxObjects = state.projectSettings?.maxObjects;
+  if (!maxObjects || state.objects.length + adding <= maxObjects) return null;
+
+  return `This project is limited to ${maxObjects} objects. Delete some before adding more.`;
+};
+
+// Helper function to build the database form of a light
+const toFirestoreLight = (light: Light): FirestoreLight => ({
+  name: light.name,
+  type: light.type,
+  position: light.position,
+  target: light.target,
+  intensity: light.intensity,
+  color: light.color,
+  visible: light.visible,
+  castShadow: light.castShadow,
+  distance: light.distance,
+  decay: light.decay,
+  angle: light.angle,
+  penumbra: light.penumbra
+});
+
+// Helper function to capture the live view of the current scene.
+// hideAllMenus is left out because it only changes this user's interface
+const captureView = (state: SceneState): SceneView => ({
+  backgroundColor: state.sceneSettings.backgroundColor,
+  showGrid: state.sceneSettings.showGrid,
+  gridSize: state.sceneSettings.gridSize,
+  gridDivisions: state.sceneSettings.gridDivisions,
+  cameraPerspective: state.cameraPerspective,
+  cameraZoom: state.cameraZoom
+});
+
+// Helper function to turn a scene's view back into store state
+const viewState = (view: SceneView, state: SceneState): Partial<SceneState> => ({
+  sceneSettings: {
+    backgroundColor: view.backgroundColor,
+    showGrid: view.showGrid,
+    gridSize: view.gridSize,
+    gridDivisions: view.gridDivisions,
+    hideAllMenus: state.sceneSettings.hideAllMenus
+  },
+  cameraPerspective: view.cameraPerspective,
+  cameraZoom: view.cameraZoom
+});
+
+const sceneDocument = (scene: ProjectScene, view: SceneView): FirestoreScene => ({
+  name: scene.name,
+  order: scene.order,
+  ...view
+});
+
+// Helper function to read a stored scene; older documents have no order and fall back to their position
+const sceneFromDocument = (data: FirestoreScene, index: number): ProjectScene => ({
+  id: data.id as string,
+  name: data.name || DEFAULT_SCENE_NAME,
+  order: data.order ?? index,
+  view: {
+    backgroundColor: data.backgroundColor ?? DEFAULT_SCENE_VIEW.backgroundColor,
+    showGrid: data.showGrid ?? DEFAULT_SCENE_VIEW.showGrid,
+    gridSize: data.gridSize ?? DEFAULT_SCENE_VIEW.gridSize,
+    gridDivisions: data.gridDivisions ?? DEFAULT_SCENE_VIEW.gridDivisions,
+    cameraPerspective: (data.cameraPerspective as CameraPerspective | undefined) ?? DEFAULT_SCENE_VIEW.cameraPerspective,
+    cameraZoom: data.cameraZoom ?? DEFAULT_SCENE_VIEW.cameraZoom
+  },
+  firestoreId: data.id
+});
+
+const sortScenes = (scenes: ProjectScene[]) => [...scenes].sort((a, b) => a.order - b.order);
+
+// Helper function to store the current scene's live view in the scene list before leaving it
+const scenesWithCurrentView = (state: SceneState): ProjectScene[] =>
+  state.scenes.map(scene => scene.id === state.currentSceneId ? { ...scene, view: captureView(state) } : scene);
+
+// Helper function to queue the current scene's document (name, order and view) for saving.
+// Viewers can still look around without saving
+const markSceneChanged = (get: StoreApi<SceneState>['getState']) => {
+  const state = get();
+  if (state.isReadOnly || !state.currentSceneId) return;
+  state.markUnsavedChanges({ scenes: [state.currentSceneId] });
+};
+
+// Objects, groups and lights saved before projects had scenes belong to the project's first scene
+let legacySceneId: string | null = null;
+
+const belongsToScene = (data: { sceneId?: string }, sceneId: string) =>
+  (data.sceneId ?? legacySceneId) === sceneId;
+
+// Helper function to queue documents that predate scenes, so they get their scene id on the next save
+const migrateLegacyDocuments = (
+  get: StoreApi<SceneState>['getState'],
+  collectionName: 'objects' | 'groups' | 'lights',
+  documents: Array<{ id?: string; sceneId?: string }>
+) => {
+  const legacyIds = documents.flatMap(data => !data.sceneId && data.id ? [data.id] : []);
+  if (legacyIds.length > 0 && !get().isReadOnly) {
+    get().markUnsavedChanges({ [collectionName]: legacyIds });
+  }
+};
+
+// Helper function to follow the objects, groups and lights of one scene in real time.
+// The project's documents are filtered client-side so documents without a scene id still match
+const subscribeToSceneContent = (
+  set: StoreApi<SceneState>['setState'],
+  get: StoreApi<SceneState>['getState'],
+  projectId: string,
+  sceneId: string
+) => {
+  const state = get();
+  if (state.unsubscribeObjects) state.unsubscribeObjects();
+  if (state.unsubscribeGroups) state.unsubscribeGroups();
+  if (state.unsubscribeLights) state.unsubscribeLights();
+
+  const unsubObjects = repository.subscribeToObjects(projectId, (projectObjects, changedIds) => {
+    const firestoreObjects = projectObjects.filter(data => belongsToScene(data, sceneId));
+    console.log(`Received ${firestoreObjects.length} objects from Firestore`);
+
+    const state = get();
+    const { entries, conflicts } = reconcileSnapshot(state.objects, firestoreObjects, changedIds, state.pendingChanges.objects, 'objects', {
+      build: (firestoreObj, existing, fields) => {
+        const threeObject = firestoreToObject(firestoreObj);
+        if (!threeObject || !firestoreObj.id) return null;
+
+        // Local ids are the document ids, so selection and history survive reloads
+        return {
+          id: firestoreObj.id,
+          object: existing && adoptObject(existing.object, threeObject, fields) ? existing.object : threeObject,
+          name: firestoreObj.name,
+          visible: firestoreObj.visible,
+          locked: firestoreObj.locked,
+          groupId: firestoreObj.groupId ?? undefined,
+          firestoreId: firestoreObj.id
+        };
+      },
+      toDocument: (entry) => objectDocument(entry, '', projectId),
+      // A gizmo or vertex drag in progress keeps the fields it is changing
+      inFlightFields: (id) => {
+        const { transformStart, vertexEditStart } = get();
+        return [
+          ...(transformStart?.has(id) ? TRANSFORM_FIELDS : []),
+          ...(vertexEditStart?.id === id ? GEOMETRY_FIELDS : [])
+        ];
+      },
+      nameOf: (entry) => entry.name
+    });
+
+    set({ objects: entries, isLoading: false });
+    reportConflicts(set, get, conflicts);
+    migrateLegacyDocuments(get, 'objects', firestoreObjects);
+  });
+
+  const unsubGroups = repository.subscribeToGroups(projectId, (projectGroups, changedIds) => {
+    const firestoreGroups = projectGroups.filter(data => belongsToScene(data, sceneId));
+    console.log(`Received ${firestoreGroups.length} groups from Firestore`);
+
+    const state = get();
+    const { entries, conflicts } = reconcileSnapshot(state.groups, firestoreGroups, changedIds, state.pendingChanges.groups, 'groups', {
+      build: (group) => group.id ? { ...group, id: group.id, firestoreId: group.id } : null,
+      toDocument: groupDocument,
+      inFlightFields: () => [],
+      nameOf: (group) => group.name
+    });
+
+    set({ groups: entries });
+    reportConflicts(set, get, conflicts);
+    migrateLegacyDocuments(get, 'groups', firestoreGroups);
+  });
+
+  const unsubLights = repository.subscribeToLights(projectId, (projectLights, changedIds) => {
+    const firestoreLights = projectLights.filter(data => belongsToScene(data, sceneId));
+    console.log(`Received ${firestoreLights.length} lights from Firestore`);
+
+    const state = get();
+    const { entries, conflicts } = reconcileSnapshot(state.lights, firestoreLights, changedIds, state.pendingChanges.lights, 'lights', {
+      build: (light) => light.id
+        ? { ...light, id: light.id, object: createLight(light.type, light.position, light.target), firestoreId: light.id }
+        : null,
+      toDocument: toFirestoreLight,
+      inFlightFields: () => [],
+      nameOf: (light) => light.name
+    });
+
+    set({
+      lights: entries,
+      selectedLight: entries.find(light => light.id === get().selectedLight?.id) ?? null
+    });
+    reportConflicts(set, get, conflicts);
+    migrateLegacyDocuments(get, 'lights', firestoreLights);
+  });
+
+  set({
+    unsubscribeObjects: unsubObjects,
+    unsubscribeGroups: unsubGroups,
+    unsubscribeLights: unsubLights
+  });
+};
+
+// Helper function to show conflicts from a snapshot and queue the kept local versions for saving,
+// so everyone ends up with the same content even when the local edit itself made no change
+const reportConflicts = (
+  set: StoreApi<SceneState>['setState'],
+  get: StoreApi<SceneState>['getState'],
+  conflicts: EditConflict[]
+) => {
+  if (conflicts.length === 0) return;
+
+  const ids = new Set(conflicts.map(conflict => conflict.id));
+  set((state) => ({
+    editConflicts: [...state.editConflicts.filter(conflict => !ids.has(conflict.id)), ...conflicts]
+  }));
+  get().markUnsavedChanges({ [conflicts[0].collection]: Array.from(ids) });
+};
+
+// Scene content, selection and history; cleared whenever another project or scene is opened
+const emptySceneContent = () => ({
+  objects: [],
+  groups: [],
+  lights: [],
+  selectedObject: null,
+  selectedObjects: new Set<string>(),
+  selectedLight: null,
+  history: [],
+  historyIndex: -1,
+  canUndo: false,
+  canRedo: false,
+  editConflicts: [] as EditConflict[]
+});
+
+// Apply a history command to the scene and queue the touched entities for saving,
+// so undo and redo survive a reload
+const applyHistoryCommand = (
+  command: SceneHistoryCommand,
+  set: StoreApi<SceneState>['setState'],
+  get: StoreApi<SceneState>['getState']
+) => {
+  const findEntry = (id: string) => get().objects.find(obj => obj.id === id);
+
+  switch (command.type) {
+    case 'add': {
+      // Objects come back under their old ids, so their documents are simply written again
+      const groupIds = new Set(get().groups.map(group => group.id));
+      const entries = command.entries.map(entry => ({
+        ...entry,
+        groupId: entry.groupId && groupIds.has(entry.groupId) ? entry.groupId : undefined,
+        firestoreId: undefined
+      }));
+      const touchedGroups = Array.from(new Set(entries.flatMap(entry => entry.groupId ? [entry.groupId] : [])));
+
+      set((state) => ({
+        objects: [...state.objects, ...entries],
+        groups: state.groups.map((group) => {
+          const restoredIds = entries.filter(entry => entry.groupId === group.id).map(entry => entry.id);
+          return restoredIds.length > 0
+            ? { ...group, objectIds: [...group.objectIds, ...restoredIds] }
+            : group;
+        })
+      }));
+      get().markUnsavedChanges({ objects: entries.map(entry => entry.id), groups: touchedGroups });
+      break;
+    }
+
+    case 'remove': {
+      const ids = command.entries.map(entry => entry.id);
+      const touchedGroups = get().groups
+        .filter(group => group.objectIds.some(objId => ids.includes(objId)))
+        .map(group => group.id);
+
+      set((state) => ({
+        objects: state.objects.filter(obj => !ids.includes(obj.id)),
+        groups: state.groups.map(group => ({
+          ...group,
+          objectIds: group.objectIds.filter(objId => !ids.includes(objId))
+        })),
+        ...deselectObjects(state, ids)
+      }));
+      get().markUnsavedChanges({ objects: ids, groups: touchedGroups });
+      break;
+    }
+
+    case 'transform': {
+      const ids = command.changes.flatMap(({ id, after }) => {
+        const entry = findEntry(id);
+        if (!entry) return [];
+        applyTransform(entry.object, after);
+        return [id];
+      });
+
+      set((state) => ({ objects: [...state.objects] }));
+      get().markUnsavedChanges({ objects: ids });
+      break;
+    }
+
+    case 'rename': {
+      if (!findEntry(command.id)) return;
+
+      set((state) => ({
+        objects: state.objects.map(obj =>
+          obj.id === command.id ? { ...obj, name: command.after } : obj
+        )
+      }));
+      get().markUnsavedChanges({ objects: [command.id] });
+      break;
+    }
+
+    case 'vertices':
+    case 'geometry': {
+      const entry = findEntry(command.id);
+      if (!entry || !(entry.object instanceof THREE.Mesh)) return;
+
+      if (command.type === 'geometry') {
+        entry.object.geometry = command.after;
+      } else {
+        const positions = entry.object.geometry.attributes.position;
+        if (positions.array.length !== command.after.length) return;
+        (positions.array as Float32Array).set(command.after);
+        positions.needsUpdate = true;
+        entry.object.geometry.computeVertexNormals();
+        entry.object.geometry.computeBoundingSphere();
+      }
+
+      // Element picks refer to the geometry as it was
+      set((state) => ({
+        objects: [...state.objects],
+        selectedElements: { vertices: [], edges: [], faces: [] }
+      }));
+      get().markUnsavedChanges({ objects: [entry.id] });
+      break;
+    }
+
+    case 'groups': {
+      const current = get();
+      const firestoreIds = new Map(current.groups.map(group => [group.id, group.firestoreId]));
+      const restoredGroups = command.after.groups.map(group => ({
+        ...group,
+        objectIds: [...group.objectIds],
+        firestoreId: firestoreIds.get(group.id)
+      }));
+      const { objectGroupIds } = command.after;
+      const movedIds = current.objects
+        .filter(obj => obj.id in objectGroupIds && obj.groupId !== objectGroupIds[obj.id])
+        .map(obj => obj.id);
+
+      set((state) => ({
+        groups: restoredGroups,
+        objects: state.objects.map(obj =>
+          obj.id in objectGroupIds ? { ...obj, groupId: objectGroupIds[obj.id] } : obj
+        )
+      }));
+
+      // Groups that disappear are deleted when saved, restored ones are written again
+      get().markUnsavedChanges({
+        objects: movedIds,
+        groups: [...current.groups, ...restoredGroups].map(group => group.id)
+      });
+      break;
+    }
+
+    case 'lights': {
+      const current = get();
+      const firestoreIds = new Map(current.lights.map(light => [light.id, light.firestoreId]));
+      const restoredLights = command.after.map((light) => {
+        const object = createLight(light.type, light.position, light.target);
+        object.intensity = light.intensity;
+        object.color.setStyle(light.color);
+        object.visible = light.visible;
+        return { ...light, object, firestoreId: firestoreIds.get(light.id) };
+      });
+
+      set((state) => ({
+        lights: restoredLights,
+        selectedLight: restoredLights.find(light => light.id === state.selectedLight?.id) ?? null
+      }));
+      get().markUnsavedChanges({
+        lights: [...current.lights, ...restoredLights].map(light => light.id)
+      });
+      break;
+    }
+  }
+};
+
+// Helper function to build the writes for the pending objects, groups, lights and scenes.
+// Entities that no longer exist locally are deleted
+const buildPendingWrites = (
+  state: SceneState,
+  pendingChanges: PendingChanges,
+  currentUserId: string,
+  currentProjectId: string
+): DocumentWrite[] => {
+  const scene = state.currentSceneId ? { sceneId: state.currentSceneId } : {};
+  // Bump the version of every field that differs from the document as last received
+  const versioned = (write: DocumentWrite): DocumentWrite => write.data
+    ? { ...write, changedFields: diffFields(remoteDocuments.get(write.id), write.data as unknown as Record<string, unknown>) }
+    : write;
+  const entityWrites: DocumentWrite[] = [
+    ...Array.from(pendingChanges.objects).map((id): DocumentWrite => {
+      const entry = state.objects.find(obj => obj.id === id);
+      return versioned({ collection: 'objects', id, data: entry ? { ...objectDocument(entry, currentUserId, currentProjectId), ...scene } : null });
+    }),
+    ...Array.from(pendingChanges.groups).map((id): DocumentWrite => {
+      const group = state.groups.find(g => g.id === id);
+      return versioned({ collection: 'groups', id, data: group ? { ...groupDocument(group), ...scene } : null });
+    }),
+    ...Array.from(pendingChanges.lights).map((id): DocumentWrite => {
+      const light = state.lights.find(l => l.id === id);
+      return versioned({ collection: 'lights', id, data: light ? { ...toFirestoreLight(light), ...scene } : null });
+    })
+  ];
+
+  // Content can't be saved into a scene that doesn't exist in the database yet
+  const sceneIds = new Set(pendingChanges.scenes);
+  const currentScene = state.scenes.find(s => s.id === state.currentSceneId);
+  if (entityWrites.length > 0 && currentScene && !currentScene.firestoreId) {
+    sceneIds.add(currentScene.id);
+  }
+
+  return [
+    ...entityWrites,
+    ...Array.from(sceneIds).map((id): DocumentWrite => {
+      const projectScene = state.scenes.find(s => s.id === id);
+      const view = id === state.currentSceneId ? captureView(state) : projectScene?.view;
+      return { collection: 'scenes', id, data: projectScene && view ? sceneDocument(projectScene, view) : null };
+    })
+  ];
+};
+
+// Keep the pending writes on this device, so they survive going offline, a crash or a reload
+const stashPendingChanges = async (get: StoreApi<SceneState>['getState']): Promise<void> => {
+  const state = get();
+  const { pendingChanges, currentProjectId, currentUserId, isReadOnly } = state;
+  if (!currentProjectId || !currentUserId || isReadOnly || !hasPendingChanges(pendingChanges)) return;
+
+  await queueWrites(currentProjectId, currentUserId, buildPendingWrites(state, pendingChanges, currentUserId, currentProjectId));
+};
+
+// Write every pending change in one batch. The writes are queued on the device first and
+// removed once the database has them. If the write fails the changes are pending again for the retry
+const flushPendingChanges = async (
+  set: StoreApi<SceneState>['setState'],
+  get: StoreApi<SceneState>['getState']
+): Promise<void> => {
+  const { pendingChanges, currentProjectId, currentUserId, isReadOnly } = get();
+  if (!currentProjectId || !currentUserId || isReadOnly || !hasPendingChanges(pendingChanges)) return;
+
+  set({ pendingChanges: createPendingChanges() });
+
+  const writes = buildPendingWrites(get(), pendingChanges, currentUserId, currentProjectId);
+
+  try {
+    // Saving still works where the device can't store anything (e.g. some private windows)
+    const queued = await queueWrites(currentProjectId, currentUserId, writes).catch(() => []);
+    await repository.saveDocumentsBatch(writes, currentUserId, currentProjectId);
+    await removeQueuedWrites(queued).catch(() => undefined);
+  } catch (error) {
+    // Skip the requeue if the user has moved on to another project meanwhile
+    if (get().currentProjectId === currentProjectId) {
+      set((current) => ({ pendingChanges: mergePendingChanges(current.pendingChanges, pendingChanges) }));
+    }
+    throw error;
+  }
+
+  writes.forEach(({ id, data }) => {
+    if (data) {
+      savedSignatures.set(id, documentSignature(data));
+    } else {
+      savedSignatures.delete(id);
+    }
+  });
+
+  const savedIds = new Set(writes.filter(write => write.data).map(write => write.id));
+  const markStored = <T extends { id: string; firestoreId?: string }>(entries: T[]) =>
+    entries.map(entry => savedIds.has(entry.id) && !entry.firestoreId ? { ...entry, firestoreId: entry.id } : entry);
+
+  set((current) => ({
+    objects: markStored(current.objects),
+    groups: markStored(current.groups),
+    lights: markStored(current.lights),
+    scenes: markStored(current.scenes),
+    lastSaved: new Date(),
+    hasUnsavedChanges: hasPendingChanges(current.pendingChanges)
+  }));
+  console.log(`Saved ${writes.length} change(s) to the database`);
+};
+
 export const useSceneStore = create<SceneState>((set, get) => ({
   objects: [],
   groups: [],
   lights: [],
   selectedLight: null,
   selectedObject: null,
+  selectedObjects: new Set<string>(),
   transformMode: null,
   editMode: null,
   cameraPerspective: 'perspective',
   cameraZoom: 1,
-  sceneSettings: {
-    backgroundColor: '#0f0f23',
-    showGrid: true,
-    gridSize: 10,
-    gridDivisions: 10,
-    hideAllMenus: false
-  },
+  sceneSettings: DEFAULT_SCENE_SETTINGS,
+  scenes: [],
+  currentSceneId: null,
   // New persistent mode settings
   persistentTransformMode: null,
   persistentEditMode: null,
@@ -275,19 +1048,31 @@ export const useSceneStore = create<SceneState>((set, get) => ({
   draggedVertex: null,
   draggedEdge: null,
   isDraggingEdge: false,
+  draggedFaces: null,
+  controlPoints: [],
   history: [],
   historyIndex: -1,
   canUndo: false,
   canRedo: false,
+  transformStart: null,
+  vertexEditStart: null,
   // New placement state
   placementMode: false,
   pendingObject: null,
   // Save state and project context
   lastSaved: null,
   hasUnsavedChanges: false,
+  pendingChanges: createPendingChanges(),
+  saveStatus: 'idle',
   currentProjectId: null,
   currentUserId: null,
   isLoading: false,
+  projectSettings: null,
+  isReadOnly: false,
+  studioNotice: null,
+  softLockedObjects: new Set(),
+  editConflicts: [],
+  recoverableWrites: [],
 
   // Project management functions
   setCurrentProject: async (projectId, userId) => {
@@ -297,14 +1082,24 @@ export const useSceneStore = create<SceneState>((set, get) => ({
     if (state.unsubscribeObjects) state.unsubscribeObjects();
     if (state.unsubscribeGroups) state.unsubscribeGroups();
     if (state.unsubscribeLights) state.unsubscribeLights();
+
+    // Changes not written yet stay on the device and are offered again when the project is reopened
+    stashPendingChanges(get).catch(() => undefined);
+    autosave.cancel();
+    savedSignatures.clear();
+    remoteDocuments.clear();
+    legacySceneId = null;
     
     // Clear current data
     set({
-      objects: [],
-      groups: [],
-      lights: [],
-      selectedObject: null,
-      selectedLight: null,
+      ...emptySceneContent(),
+      pendingChanges: createPendingChanges(),
+      hasUnsavedChanges: false,
+      saveStatus: 'idle',
+      recoverableWrites: [],
+      scenes: [],
+      currentSceneId: null,
+      ...viewState(DEFAULT_SCENE_VIEW, state),
       currentProjectId: projectId,
       currentUserId: userId,
       isLoading: !!projectId,
@@ -313,76 +1108,34 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       unsubscribeLights: undefined
     });
 
-    if (projectId && userId) {
+    // Without a user the project is only being viewed, e.g. through a shared view link
+    if (projectId) {
       try {
         console.log(`Loading project data for project: ${projectId}`);
-        
-        // Set up real-time subscriptions
-        const unsubObjects = subscribeToObjects(userId, projectId, (firestoreObjects) => {
-          console.log(`Received ${firestoreObjects.length} objects from Firestore`);
-          
-          const threeObjects = firestoreObjects.map(firestoreObj => {
-            const threeObject = firestoreToObject(firestoreObj);
-            if (threeObject && firestoreObj.id) {
-              return {
-                id: crypto.randomUUID(), // Local ID for scene management
-                object: threeObject,
-                name: firestoreObj.name,
-                visible: firestoreObj.visible,
-                locked: firestoreObj.locked,
-                groupId: firestoreObj.groupId,
-                firestoreId: firestoreObj.id // Track Firestore document ID
-              };
-            }
-            return null;
-          }).filter(Boolean) as Array<{
-            id: string;
-            object: THREE.Object3D;
-            name: string;
-            visible: boolean;
-            locked: boolean;
-            groupId?: string;
-            firestoreId?: string;
-          }>;
-
-          set(state => ({ 
-            ...state, 
-            objects: threeObjects,
-            isLoading: false 
-          }));
-        });
 
-        const unsubGroups = subscribeToGroups(userId, projectId, (firestoreGroups) => {
-          console.log(`Received ${firestoreGroups.length} groups from Firestore`);
-          
-          const groups = firestoreGroups.map(group => ({
-            ...group,
-            id: group.id || crypto.randomUUID(),
-            firestoreId: group.id
-          }));
+        const firestoreScenes = await repository.getScenes(projectId);
+        if (get().currentProjectId !== projectId) return;
 
-          set(state => ({ ...state, groups }));
-        });
-
-        const unsubLights = subscribeToLights(userId, projectId, (firestoreLights) => {
-          console.log(`Received ${firestoreLights.length} lights from Firestore`);
-          
-          const lights = firestoreLights.map(light => ({
-            ...light,
-            id: light.id || crypto.randomUUID(),
-            object: createLight(light.type, light.position, light.target),
-            firestoreId: light.id
-          }));
-
-          set(state => ({ ...state, lights }));
-        });
+        // Projects from before scenes existed start with one scene, saved along with the first change
+        const scenes = firestoreScenes.length > 0
+          ? sortScenes(firestoreScenes.map(sceneFromDocument))
+          : [{ id: createEntityId(get(), 'scenes'), name: DEFAULT_SCENE_NAME, order: 0, view: DEFAULT_SCENE_VIEW }];
+        legacySceneId = scenes[0].id;
 
         set({
-          unsubscribeObjects: unsubObjects,
-          unsubscribeGroups: unsubGroups,
-          unsubscribeLights: unsubLights
+          scenes,
+          currentSceneId: scenes[0].id,
+          ...viewState(scenes[0].view, get())
         });
 
+        // Set up real-time subscriptions
+        subscribeToSceneContent(set, get, projectId, scenes[0].id);
+
+        // Changes from an earlier session that never reached the database, e.g. after a crash
+        if (!userId) return;
+        const leftovers = await getQueuedWrites(projectId).catch(() => []);
+        if (get().currentProjectId !== projectId) return;
+        set({ recoverableWrites: leftovers.filter(entry => entry.userId === userId) });
       } catch (error) {
         console.error('Failed to load project data:', error);
         set({ isLoading: false });
@@ -397,23 +1150,28 @@ export const useSceneStore = create<SceneState>((set, get) => ({
     set({ isLoading: true });
     
     try {
-      const [firestoreObjects, firestoreGroups, firestoreLights] = await Promise.all([
-        getObjects(currentUserId, currentProjectId),
-        getGroups(currentUserId, currentProjectId),
-        getLights(currentUserId, currentProjectId)
+      const [firestoreObjects, firestoreGroups, firestoreLights, firestoreScenes] = await Promise.all([
+        repository.getObjects(currentProjectId),
+        repository.getGroups(currentProjectId),
+        repository.getLights(currentProjectId),
+        repository.getScenes(currentProjectId)
       ]);
 
+      // Only the current scene's content is loaded
+      const sceneId = get().currentSceneId;
+      const inCurrentScene = (data: { sceneId?: string }) => !sceneId || belongsToScene(data, sceneId);
+
       // Convert Firestore objects to THREE.js objects
-      const threeObjects = firestoreObjects.map(firestoreObj => {
+      const threeObjects = firestoreObjects.filter(inCurrentScene).map(firestoreObj => {
         const threeObject = firestoreToObject(firestoreObj);
         if (threeObject && firestoreObj.id) {
           return {
-            id: crypto.randomUUID(),
+            id: firestoreObj.id,
             object: threeObject,
             name: firestoreObj.name,
             visible: firestoreObj.visible,
             locked: firestoreObj.locked,
-            groupId: firestoreObj.groupId,
+            groupId: firestoreObj.groupId ?? undefined,
             firestoreId: firestoreObj.id
           };
         }
@@ -429,14 +1187,14 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       }>;
 
       // Convert Firestore groups
-      const groups = firestoreGroups.map(group => ({
+      const groups = firestoreGroups.filter(inCurrentScene).map(group => ({
         ...group,
         id: group.id || crypto.randomUUID(),
         firestoreId: group.id
       }));
 
       // Convert Firestore lights
-      const lights = firestoreLights.map(light => ({
+      const lights = firestoreLights.filter(inCurrentScene).map(light => ({
         ...light,
         id: light.id || crypto.randomUUID(),
         object: createLight(light.type, light.position, light.target),
@@ -449,7 +1207,11 @@ export const useSceneStore = create<SceneState>((set, get) => ({
         lights,
         isLoading: false,
         lastSaved: new Date(),
-        hasUnsavedChanges: false
+        hasUnsavedChanges: false,
+        pendingChanges: createPendingChanges(),
+        ...(firestoreScenes.some(scene => scene.id === sceneId)
+          ? { scenes: sortScenes(firestoreScenes.map(sceneFromDocument)) }
+          : {})
       });
 
       console.log(`Loaded project data: ${threeObjects.length} objects, ${groups.length} groups, ${lights.length} lights`);
@@ -460,99 +1222,15 @@ export const useSceneStore = create<SceneState>((set, get) => ({
   },
 
   saveProjectData: async () => {
-    const { objects, groups, lights, currentProjectId, currentUserId } = get();
+    const { currentProjectId, currentUserId } = get();
     
     if (!currentProjectId || !currentUserId) {
       throw new Error('No project or user context for saving');
     }
+    if (get().isReadOnly) return;
 
-    try {
-      // Save all objects
-      const objectPromises = objects.map(async (obj) => {
-        const firestoreData = objectToFirestore(obj.object, obj.name, obj.firestoreId, currentUserId, currentProjectId);
-        firestoreData.visible = obj.visible;
-        firestoreData.locked = obj.locked;
-        if (obj.groupId !== undefined) {
-          firestoreData.groupId = obj.groupId;
-        }
-
-        if (obj.firestoreId) {
-          // Update existing object
-          await updateObject(obj.firestoreId, firestoreData, currentUserId, currentProjectId);
-          return obj.firestoreId;
-        } else {
-          // Create new object
-          const newId = await saveObject(firestoreData, currentUserId, currentProjectId);
-          // Update local object with Firestore ID
-          obj.firestoreId = newId;
-          return newId;
-        }
-      });
-
-      // Save all groups
-      const groupPromises = groups.map(async (group) => {
-        const firestoreGroup: FirestoreGroup = {
-          name: group.name,
-          expanded: group.expanded,
-          visible: group.visible,
-          locked: group.locked,
-          objectIds: group.objectIds
-        };
-
-        if (group.firestoreId) {
-          await updateGroup(group.firestoreId, firestoreGroup, currentUserId, currentProjectId);
-          return group.firestoreId;
-        } else {
-          const newId = await saveGroup(firestoreGroup, currentUserId, currentProjectId);
-          group.firestoreId = newId;
-          return newId;
-        }
-      });
-
-      // Save all lights
-      const lightPromises = lights.map(async (light) => {
-        const firestoreLight: FirestoreLight = {
-          name: light.name,
-          type: light.type,
-          position: light.position,
-          target: light.target,
-          intensity: light.intensity,
-          color: light.color,
-          visible: light.visible,
-          castShadow: light.castShadow,
-          distance: light.distance,
-          decay: light.decay,
-          angle: light.angle,
-          penumbra: light.penumbra
-        };
-
-        if (light.firestoreId) {
-          await updateLight(light.firestoreId, firestoreLight, currentUserId, currentProjectId);
-          return light.firestoreId;
-        } else {
-          const newId = await saveLight(firestoreLight, currentUserId, currentProjectId);
-          light.firestoreId = newId;
-          return newId;
-        }
-      });
-
-      // Wait for all saves to complete
-      await Promise.all([
-        ...objectPromises,
-        ...groupPromises,
-        ...lightPromises
-      ]);
-
-      set({
-        lastSaved: new Date(),
-        hasUnsavedChanges: false
-      });
-
-      console.log(`Saved project data: ${objects.length} objects, ${groups.length} groups, ${lights.length} lights`);
-    } catch (error) {
-      console.error('Error saving project data:', error);
-      throw error;
-    }
+    // Only what changed since the last save is written
+    await autosave.flushNow();
   },
 
   clearProjectData: () => {
@@ -562,51 +1240,265 @@ export const useSceneStore = create<SceneState>((set, get) => ({
     if (state.unsubscribeObjects) state.unsubscribeObjects();
     if (state.unsubscribeGroups) state.unsubscribeGroups();
     if (state.unsubscribeLights) state.unsubscribeLights();
+
+    stashPendingChanges(get).catch(() => undefined);
+    autosave.cancel();
+    savedSignatures.clear();
+    remoteDocuments.clear();
+    legacySceneId = null;
     
     set({
-      objects: [],
-      groups: [],
-      lights: [],
-      selectedObject: null,
-      selectedLight: null,
+      ...emptySceneContent(),
+      recoverableWrites: [],
+      scenes: [],
+      currentSceneId: null,
       currentProjectId: null,
       currentUserId: null,
+      projectSettings: null,
+      isReadOnly: false,
+      studioNotice: null,
       lastSaved: null,
       hasUnsavedChanges: false,
+      pendingChanges: createPendingChanges(),
+      saveStatus: 'idle',
+      ...viewState(DEFAULT_SCENE_VIEW, state),
       unsubscribeObjects: undefined,
       unsubscribeGroups: undefined,
       unsubscribeLights: undefined
     });
   },
 
-  updateSceneSettings: (settings) =>
-    set((state) => {
-      get().markUnsavedChanges();
-      return {
-        sceneSettings: { ...state.sceneSettings, ...settings }
-      };
-    }),
+  setProjectAccess: (settings, readOnly) => {
+    set({ projectSettings: settings, isReadOnly: readOnly });
+
+    // Viewers can't transform or edit, so drop any tool they had active
+    if (readOnly) {
+      get().cancelObjectPlacement();
+      set({
+        transformMode: null,
+        editMode: null,
+        persistentTransformMode: null,
+        persistentEditMode: null
+      });
+    }
+  },
+
+  setStudioNotice: (message) => set({ studioNotice: message }),
+
+  dismissConflict: (id) => set((state) => ({
+    editConflicts: state.editConflicts.filter(conflict => conflict.id !== id)
+  })),
+
+  dismissAllConflicts: () => set({ editConflicts: [] }),
+
+  restoreRecoverableWrites: async () => {
+    const { recoverableWrites, isReadOnly } = get();
+    if (recoverableWrites.length === 0) return;
+    if (isReadOnly) {
+      set({ studioNotice: 'You can only view this project, so the recovered changes can\'t be restored.' });
+      return;
+    }
+
+    try {
+      // The restored documents come back in through the real-time subscriptions
+      await replayQueuedWrites(recoverableWrites);
+      set({ recoverableWrites: [] });
+    } catch (error) {
+      console.error('Failed to restore recovered changes:', error);
+      set({ studioNotice: 'The recovered changes could not be restored. Check your connection and try again.' });
+    }
+  },
+
+  discardRecoverableWrites: async () => {
+    const { recoverableWrites } = get();
+    set({ recoverableWrites: [] });
+    await removeQueuedWrites(recoverableWrites).catch(() => undefined);
+  },
+
+  setSoftLockedObjects: (ids) => {
+    const current = get().softLockedObjects;
+    if (ids.length === current.size && ids.every(id => current.has(id))) return;
+
+    const softLockedObjects = new Set(ids);
+    // Drop the gizmo if a collaborator grabbed something we have selected
+    set((state) => ({
+      softLockedObjects,
+      ...deselectObjects(state, Array.from(softLockedObjects))
+    }));
+  },
 
-  saveToHistory: () => {
+  switchScene: async (sceneId) => {
     const state = get();
-    const currentState: HistoryState = {
-      objects: state.objects.map(obj => ({
-        ...obj,
-        object: cloneObject(obj.object)
-      })),
-      groups: JSON.parse(JSON.stringify(state.groups)),
-      lights: JSON.parse(JSON.stringify(state.lights.map(light => ({
-        ...light,
-        object: undefined // Don't clone the THREE.js object
-      }))))
+    const { currentProjectId } = state;
+    const target = state.scenes.find(scene => scene.id === sceneId);
+    // Viewers opened from a view link have no account, and can still look through the scenes
+    if (!target || sceneId === state.currentSceneId || !currentProjectId) return;
+
+    // Pending changes are saved into the current scene, so write them before leaving it
+    if (!state.isReadOnly && hasPendingChanges(state.pendingChanges)) {
+      try {
+        await get().saveProjectData();
+      } catch (error) {
+        console.error('Failed to save scene before switching:', error);
+      }
+      if (hasPendingChanges(get().pendingChanges)) {
+        set({ studioNotice: 'This scene has changes that are not saved yet. Switch again once they are saved.' });
+        return;
+      }
+    }
+
+    get().cancelObjectPlacement();
+    set((current) => ({
+      ...emptySceneContent(),
+      scenes: scenesWithCurrentView(current),
+      currentSceneId: sceneId,
+      isLoading: true,
+      ...viewState(target.view, current)
+    }));
+    subscribeToSceneContent(set, get, currentProjectId, sceneId);
+  },
+
+  createScene: async (name) => {
+    const state = get();
+    if (state.isReadOnly || !state.currentProjectId) return;
+
+    const scene: ProjectScene = {
+      id: createEntityId(state, 'scenes'),
+      name: name?.trim() || `Scene ${state.scenes.length + 1}`,
+      order: Math.max(-1, ...state.scenes.map(s => s.order)) + 1,
+      view: DEFAULT_SCENE_VIEW
     };
 
-    const newHistory = state.history.slice(0, state.historyIndex + 1);
-    newHistory.push(currentState);
+    set({ scenes: [...state.scenes, scene] });
+    // A project that never saved its first scene needs it written too, or its content would be orphaned
+    get().markUnsavedChanges({
+      scenes: get().scenes.filter(s => !s.firestoreId).map(s => s.id)
+    });
+    await get().switchScene(scene.id);
+  },
+
+  renameScene: (sceneId, name) => {
+    const trimmed = name.trim();
+    if (get().isReadOnly || !trimmed) return;
+
+    set((state) => ({
+      scenes: state.scenes.map(scene => scene.id === sceneId ? { ...scene, name: trimmed } : scene)
+    }));
+    get().markUnsavedChanges({ scenes: [sceneId] });
+  },
+
+  moveScene: (sceneId, direction) => {
+    const state = get();
+    if (state.isReadOnly) return;
+
+    const index = state.scenes.findIndex(scene => scene.id === sceneId);
+    const neighbourIndex = direction === 'up' ? index - 1 : index + 1;
+    if (index < 0 || neighbourIndex < 0 || neighbourIndex >= state.scenes.length) return;
+
+    // Swap positions with the neighbour; orders are renumbered so older documents without one line up
+    const reordered = [...state.scenes];
+    [reordered[index], reordered[neighbourIndex]] = [reordered[neighbourIndex], reordered[index]];
+    const scenes = reordered.map((scene, order) => ({ ...scene, order }));
+
+    set({ scenes });
+    get().markUnsavedChanges({
+      scenes: scenes.filter(scene => state.scenes.find(s => s.id === scene.id)?.order !== scene.order).map(scene => scene.id)
+    });
+  },
+
+  duplicateScene: async (sceneId) => {
+    const state = get();
+    const { currentProjectId, currentUserId } = state;
+    const source = state.scenes.find(scene => scene.id === sceneId);
+    if (state.isReadOnly || !currentProjectId || !currentUserId || !source) return;
+
+    try {
+      // The copy is made from the database, so everything pending has to be written first
+      await get().saveProjectData();
+      if (hasPendingChanges(get().pendingChanges)) {
+        set({ studioNotice: 'Save your changes before duplicating this scene.' });
+        return;
+      }
+
+      const [firestoreObjects, firestoreGroups, firestoreLights] = await Promise.all([
+        repository.getObjects(currentProjectId),
+        repository.getGroups(currentProjectId),
+        repository.getLights(currentProjectId)
+      ]);
+      const sourceObjects = firestoreObjects.filter(data => data.id && belongsToScene(data, sceneId));
+      const sourceGroups = firestoreGroups.filter(data => data.id && belongsToScene(data, sceneId));
+      const sourceLights = firestoreLights.filter(data => belongsToScene(data, sceneId));
+
+      const copy: ProjectScene = {
+        id: repository.createDocumentId(currentProjectId, 'scenes'),
+        name: `${source.name} Copy`,
+        order: Math.max(...get().scenes.map(s => s.order)) + 1,
+        view: sceneId === get().currentSceneId ? captureView(get()) : source.view
+      };
+
+      // Copies get new ids, so group memberships are remapped to the copied objects and groups
+      const objectIds = new Map(sourceObjects.map(data => [data.id as string, repository.createDocumentId(currentProjectId, 'objects')]));
+      const groupIds = new Map(sourceGroups.map(data => [data.id as string, repository.createDocumentId(currentProjectId, 'groups')]));
+
+      const writes: DocumentWrite[] = [
+        { collection: 'scenes', id: copy.id, data: sceneDocument(copy, copy.view) },
+        ...sourceObjects.map(({ groupId, ...data }): DocumentWrite => {
+          const copiedGroupId = groupId ? groupIds.get(groupId) : undefined;
+          return {
+            collection: 'objects',
+            id: objectIds.get(data.id as string) as string,
+            data: { ...data, ...(copiedGroupId ? { groupId: copiedGroupId } : {}), sceneId: copy.id }
+          };
+        }),
+        ...sourceGroups.map((data): DocumentWrite => ({
+          collection: 'groups',
+          id: groupIds.get(data.id as string) as string,
+          data: {
+            ...data,
+            objectIds: data.objectIds.flatMap(id => objectIds.has(id) ? [objectIds.get(id) as string] : []),
+            sceneId: copy.id
+          }
+        })),
+        ...sourceLights.map((data): DocumentWrite => ({
+          collection: 'lights',
+          id: repository.createDocumentId(currentProjectId, 'lights'),
+          data: { ...data, sceneId: copy.id }
+        }))
+      ];
+
+      await repository.saveDocumentsBatch(writes, currentUserId, currentProjectId);
+      console.log(`Scene "${source.name}" duplicated with ${sourceObjects.length} objects`);
+
+      set((current) => ({ scenes: [...current.scenes, { ...copy, firestoreId: copy.id }] }));
+      await get().switchScene(copy.id);
+    } catch (error) {
+      console.error('Failed to duplicate scene:', error);
+      set({ studioNotice: 'The scene could not be duplicated. Please try again.' });
+    }
+  },
+
+  updateSceneSettings: (settings) => {
+    set((state) => ({
+      sceneSettings: { ...state.sceneSettings, ...settings }
+    }));
+
+    if (Object.keys(settings).some(key => key !== 'hideAllMenus')) {
+      markSceneChanged(get);
+    }
+  },
+
+  pushHistory: (command) => {
+    const state = get();
+
+    // Redo is no longer possible, so free geometry that only the discarded commands referenced
+    state.history.slice(state.historyIndex + 1).forEach((discarded) => {
+      if (discarded.type === 'geometry') discarded.after.dispose();
+    });
 
-    // Limit history to 50 states
-    if (newHistory.length > 50) {
-      newHistory.shift();
+    const newHistory = [...state.history.slice(0, state.historyIndex + 1), command];
+    while (newHistory.length > HISTORY_LIMIT) {
+      const dropped = newHistory.shift();
+      if (dropped?.type === 'geometry') dropped.before.dispose();
     }
 
     set({
@@ -615,96 +1507,87 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       canUndo: true,
       canRedo: false
     });
-    
-    get().markUnsavedChanges();
+  },
+
+  startTransform: () => {
+    if (get().isReadOnly) return;
+    const { objects, selectedObject, selectedObjects } = get();
+    set({
+      transformStart: new Map(
+        objects
+          .filter(obj => obj.object === selectedObject || selectedObjects.has(obj.id))
+          .map(obj => [obj.id, captureTransform(obj.object)])
+      )
+    });
+  },
+
+  endTransform: async () => {
+    const { transformStart, objects } = get();
+    if (!transformStart) return;
+    set({ transformStart: null });
+
+    const command = createTransformCommand(transformStart, objects);
+    if (!command) return;
+
+    get().pushHistory(command);
+    await get().updateObjectProperties(); // Queues the moved objects for saving
   },
 
   addObject: async (object, name) => {
-    const { currentProjectId, currentUserId } = get();
+    if (get().isReadOnly) return;
+
+    const limitMessage = objectLimitMessage(get(), 1);
+    if (limitMessage) {
+      set({ studioNotice: limitMessage });
+      return;
+    }
     
     const newObject = { 
-      id: crypto.randomUUID(), 
+      id: createEntityId(get(), 'objects'), 
       object, 
       name, 
       visible: true, 
       locked: false 
     };
 
-    // Add to local state immediately
+    // Add to local state immediately; autosave writes it to the database
     set((state) => ({
       objects: [...state.objects, newObject]
     }));
-
-    // Save to database if we have project context
-    if (currentProjectId && currentUserId) {
-      try {
-        const firestoreData = objectToFirestore(object, name, undefined, currentUserId, currentProjectId);
-        firestoreData.visible = true;
-        firestoreData.locked = false;
-        
-        const firestoreId = await saveObject(firestoreData, currentUserId, currentProjectId);
-        
-        // Update local object with Firestore ID
-        set((state) => ({
-          objects: state.objects.map(obj => 
-            obj.id === newObject.id 
-              ? { ...obj, firestoreId }
-              : obj
-          )
-        }));
-        
-        console.log(`Object "${name}" saved to database with ID: ${firestoreId}`);
-      } catch (error) {
-        console.error('Failed to save object to database:', error);
-        // Object remains in local state even if database save fails
-      }
-    }
-
-    // Save to history after adding
-    setTimeout(() => get().saveToHistory(), 0);
+    get().pushHistory({ type: 'add', entries: [newObject] });
+    get().markUnsavedChanges({ objects: [newObject.id] });
   },
 
   removeObject: async (id) => {
+    await get().removeObjects([id]);
+  },
+
+  removeObjects: async (ids) => {
+    if (get().isReadOnly) return;
     const state = get();
-    const objectToRemove = state.objects.find(obj => obj.id === id);
-    
-    if (!objectToRemove) return;
 
-    // Check if object is locked
-    if (objectToRemove.locked) return;
+    // Locked objects and objects in locked groups are left in place
+    const objectsToRemove = state.objects.filter(obj => ids.includes(obj.id) && !state.isObjectLocked(obj.id));
+    if (objectsToRemove.length === 0) return;
 
-    // Check if object is in a locked group
-    if (objectToRemove.groupId) {
-      const group = state.groups.find(g => g.id === objectToRemove.groupId);
-      if (group?.locked) return;
-    }
+    const removedIds = objectsToRemove.map(obj => obj.id);
+    const touchedGroups = state.groups
+      .filter(group => group.objectIds.some(objId => removedIds.includes(objId)))
+      .map(group => group.id);
+    get().pushHistory({ type: 'remove', entries: objectsToRemove });
 
-    // Remove from database immediately if we have Firestore ID and project context
-    if (objectToRemove.firestoreId && state.currentProjectId) {
-      try {
-        await deleteObject(objectToRemove.firestoreId, state.currentProjectId);
-        console.log(`Object "${objectToRemove.name}" deleted from database`);
-      } catch (error) {
-        console.error('Failed to delete object from database:', error);
-        // Continue with local removal even if database deletion fails
-      }
-    }
-
-    // Remove object from any group
-    const updatedGroups = state.groups.map(group => ({
-      ...group,
-      objectIds: group.objectIds.filter(objId => objId !== id)
+    // Remove from local state, including any group membership and selection
+    set((current) => ({
+      objects: current.objects.filter(obj => !removedIds.includes(obj.id)),
+      groups: current.groups.map(group => ({
+        ...group,
+        objectIds: group.objectIds.filter(objId => !removedIds.includes(objId))
+      })),
+      ...deselectObjects(current, removedIds)
     }));
 
-    // Remove from local state
-    set({
-      objects: state.objects.filter((obj) => obj.id !== id),
-      groups: updatedGroups,
-      selectedObject: objectToRemove.object === state.selectedObject ? null : state.selectedObject,
-    });
-
-    // Save to history after removing
-    setTimeout(() => get().saveToHistory(), 0);
+    // The documents of objects that are gone get deleted on the next save
+    get().markUnsavedChanges({ objects: removedIds, groups: touchedGroups });
   },
 
   setSelectedObject: (object) => 
@@ -737,15 +1620,68 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       }
       
       return { 
-        selectedObject: object,
+        ...selectOnly(state, object),
         editMode: newEditMode,
         // Don't automatically set transform mode - only show when explicitly selected
         transformMode: object ? state.transformMode : null
       };
     }),
 
+  toggleObjectSelection: (object) => {
+    const state = get();
+    const entry = state.objects.find(obj => obj.object === object);
+    if (!entry) return;
+
+    // Shift-clicking with nothing selected behaves like a normal click
+    if (state.selectedObjects.size === 0) {
+      get().setSelectedObject(object);
+      return;
+    }
+
+    if (state.selectedObjects.has(entry.id)) {
+      const selection = deselectObjects(state, [entry.id]);
+      set({
+        ...selection,
+        editMode: selection.selectedObject ? state.editMode : null,
+        transformMode: selection.selectedObject ? state.transformMode : null
+      });
+      return;
+    }
+
+    if (!get().canSelectObject(object)) return;
+
+    set({
+      selectedObject: object,
+      selectedObjects: new Set(state.selectedObjects).add(entry.id),
+      // Mesh edit modes only work on a single object
+      editMode: null,
+      selectedElements: { vertices: [], edges: [], faces: [] }
+    });
+  },
+
+  setSelectedObjects: (ids) => {
+    const state = get();
+    const entries = state.objects.filter(obj =>
+      ids.includes(obj.id) && obj.visible && !state.isObjectLocked(obj.id)
+    );
+
+    if (entries.length <= 1) {
+      get().setSelectedObject(entries[0]?.object ?? null);
+      return;
+    }
+
+    set({
+      selectedObject: entries[entries.length - 1].object,
+      selectedObjects: new Set(entries.map(obj => obj.id)),
+      editMode: null,
+      selectedElements: { vertices: [], edges: [], faces: [] }
+    });
+  },
+
   setTransformMode: (mode) => 
     set((state) => {
+      if (state.isReadOnly && mode) return state;
+
       // Update both current and persistent transform mode
       return {
         transformMode: mode,
@@ -755,6 +1691,8 @@ export const useSceneStore = create<SceneState>((set, get) => ({
   
   setEditMode: (mode) => 
     set((state) => {
+      if (state.isReadOnly && mode) return state;
+
       // If trying to set edge mode on unsupported geometry, prevent it
       if (mode === 'edge' && state.selectedObject instanceof THREE.Mesh) {
         const geometry = state.selectedObject.geometry;
@@ -768,16 +1706,21 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       // Update both current and persistent edit mode
       return { 
         editMode: mode,
-        persistentEditMode: mode // Remember this choice for future selections
+        persistentEditMode: mode, // Remember this choice for future selections
+        // Face and edge picks only make sense in the mode they were made in
+        selectedElements: mode === state.editMode
+          ? state.selectedElements
+          : { ...state.selectedElements, edges: [], faces: [] }
       };
     }),
 
   setCameraPerspective: (perspective) => {
-    get().markUnsavedChanges();
     set({ cameraPerspective: perspective });
+    markSceneChanged(get);
   },
 
   toggleVisibility: async (id) => {
+    if (get().isReadOnly) return;
     const state = get();
     const objectToToggle = state.objects.find(obj => obj.id === id);
     if (!objectToToggle) return;
@@ -793,40 +1736,22 @@ export const useSceneStore = create<SceneState>((set, get) => ({
 
     const newVisibility = !objectToToggle.visible;
 
-    // Update in database immediately if we have Firestore ID and project context
-    if (objectToToggle.firestoreId && state.currentProjectId && state.currentUserId) {
-      try {
-        await updateObject(
-          objectToToggle.firestoreId, 
-          { visible: newVisibility }, 
-          state.currentUserId, 
-          state.currentProjectId
-        );
-        console.log(`Object "${objectToToggle.name}" visibility updated in database`);
-      } catch (error) {
-        console.error('Failed to update object visibility in database:', error);
-      }
-    }
-
     // Update local state
     const updatedObjects = state.objects.map((obj) =>
       obj.id === id ? { ...obj, visible: newVisibility } : obj
     );
     
-    const toggledObject = updatedObjects.find((obj) => obj.id === id);
-    const newSelectedObject = (toggledObject && !toggledObject.visible && toggledObject.object === state.selectedObject)
-      ? null
-      : state.selectedObject;
-
+    // Hidden objects drop out of the selection
     set({
       objects: updatedObjects,
-      selectedObject: newSelectedObject,
+      ...(newVisibility ? {} : deselectObjects(state, [id]))
     });
 
-    get().markUnsavedChanges();
+    get().markUnsavedChanges({ objects: [id] });
   },
 
   toggleLock: async (id) => {
+    if (get().isReadOnly) return;
     const state = get();
     const objectToToggle = state.objects.find(obj => obj.id === id);
     if (!objectToToggle) return;
@@ -839,40 +1764,22 @@ export const useSceneStore = create<SceneState>((set, get) => ({
 
     const newLockState = !objectToToggle.locked;
 
-    // Update in database immediately if we have Firestore ID and project context
-    if (objectToToggle.firestoreId && state.currentProjectId && state.currentUserId) {
-      try {
-        await updateObject(
-          objectToToggle.firestoreId, 
-          { locked: newLockState }, 
-          state.currentUserId, 
-          state.currentProjectId
-        );
-        console.log(`Object "${objectToToggle.name}" lock state updated in database`);
-      } catch (error) {
-        console.error('Failed to update object lock state in database:', error);
-      }
-    }
-
     // Update local state
     const updatedObjects = state.objects.map((obj) =>
       obj.id === id ? { ...obj, locked: newLockState } : obj
     );
     
-    const toggledObject = updatedObjects.find((obj) => obj.id === id);
-    const newSelectedObject = (toggledObject && toggledObject.locked && toggledObject.object === state.selectedObject)
-      ? null
-      : state.selectedObject;
-
+    // Locked objects drop out of the selection
     set({
       objects: updatedObjects,
-      selectedObject: newSelectedObject,
+      ...(newLockState ? deselectObjects(state, [id]) : {})
     });
 
-    get().markUnsavedChanges();
+    get().markUnsavedChanges({ objects: [id] });
   },
 
   updateObjectName: async (id, name) => {
+    if (get().isReadOnly) return;
     const state = get();
     const objectToUpdate = state.objects.find(obj => obj.id === id);
     if (!objectToUpdate) return;
@@ -886,21 +1793,6 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       if (group?.locked) return;
     }
 
-    // Update in database immediately if we have Firestore ID and project context
-    if (objectToUpdate.firestoreId && state.currentProjectId && state.currentUserId) {
-      try {
-        await updateObject(
-          objectToUpdate.firestoreId, 
-          { name }, 
-          state.currentUserId, 
-          state.currentProjectId
-        );
-        console.log(`Object name updated in database: "${name}"`);
-      } catch (error) {
-        console.error('Failed to update object name in database:', error);
-      }
-    }
-
     // Update local state
     set({
       objects: state.objects.map((obj) =>
@@ -908,71 +1800,51 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       ),
     });
 
-    get().markUnsavedChanges();
+    if (objectToUpdate.name !== name) {
+      get().pushHistory({ type: 'rename', id, before: objectToUpdate.name, after: name });
+      get().markUnsavedChanges({ objects: [id] });
+    }
   },
 
   updateObjectProperties: async () => {
-    const { selectedObject, objects, currentProjectId, currentUserId } = get();
+    if (get().isReadOnly) return;
+    const { selectedObject, selectedObjects, objects } = get();
     
     if (!selectedObject) return;
 
-    const selectedObj = objects.find(obj => obj.object === selectedObject);
-    if (!selectedObj || get().isObjectLocked(selectedObj.id)) return;
-
-    // Update in database immediately if we have Firestore ID and project context
-    if (selectedObj.firestoreId && currentProjectId && currentUserId) {
-      try {
-        const firestoreData = objectToFirestore(selectedObject, selectedObj.name, selectedObj.firestoreId, currentUserId, currentProjectId);
-        firestoreData.visible = selectedObj.visible;
-        firestoreData.locked = selectedObj.locked;
-        if (selectedObj.groupId !== undefined) {
-          firestoreData.groupId = selectedObj.groupId;
-        }
-
-        await updateObject(selectedObj.firestoreId, firestoreData, currentUserId, currentProjectId);
-        console.log(`Object "${selectedObj.name}" properties updated in database`);
-      } catch (error) {
-        console.error('Failed to update object properties in database:', error);
-      }
-    }
+    // A multi-selection is transformed as one, so every selected object may have changed
+    const selectedObjs = objects.filter(obj =>
+      (obj.object === selectedObject || selectedObjects.has(obj.id)) && !get().isObjectLocked(obj.id)
+    );
+    if (selectedObjs.length === 0) return;
 
-    get().markUnsavedChanges();
+    // Unchanged objects are skipped at save time by comparing against what was last written
+    get().markUnsavedChanges({ objects: selectedObjs.map(obj => obj.id) });
     set((state) => ({ ...state }));
   },
 
   updateObjectColor: async (color) => {
-    const { selectedObject, objects, currentProjectId, currentUserId } = get();
-    
-    if (selectedObject instanceof THREE.Mesh) {
-      // Check if selected object is locked
-      const selectedObj = objects.find(obj => obj.object === selectedObject);
-      if (get().isObjectLocked(selectedObj?.id || '')) return;
+    if (get().isReadOnly) return;
+    const { selectedObjects, objects } = get();
 
-      const material = selectedObject.material as THREE.MeshStandardMaterial;
+    // Recolor every selected mesh, skipping locked ones
+    const meshObjs = objects.filter(obj =>
+      selectedObjects.has(obj.id) && obj.object instanceof THREE.Mesh && !get().isObjectLocked(obj.id)
+    );
+    if (meshObjs.length === 0) return;
+
+    meshObjs.forEach(({ object }) => {
+      const material = (object as THREE.Mesh).material as THREE.MeshStandardMaterial;
       material.color.setStyle(color);
       material.needsUpdate = true;
+    });
 
-      // Update in database immediately if we have Firestore ID and project context
-      if (selectedObj?.firestoreId && currentProjectId && currentUserId) {
-        try {
-          await updateObject(
-            selectedObj.firestoreId, 
-            { color }, 
-            currentUserId, 
-            currentProjectId
-          );
-          console.log(`Object "${selectedObj.name}" color updated in database`);
-        } catch (error) {
-          console.error('Failed to update object color in database:', error);
-        }
-      }
-      
-      get().markUnsavedChanges();
-    }
+    get().markUnsavedChanges({ objects: meshObjs.map(obj => obj.id) });
   },
 
   updateObjectOpacity: async (opacity) => {
-    const { selectedObject, objects, currentProjectId, currentUserId } = get();
+    if (get().isReadOnly) return;
+    const { selectedObject, objects } = get();
     
     if (selectedObject instanceof THREE.Mesh) {
       // Check if selected object is locked
@@ -984,22 +1856,9 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       material.opacity = opacity;
       material.needsUpdate = true;
 
-      // Update in database immediately if we have Firestore ID and project context
-      if (selectedObj?.firestoreId && currentProjectId && currentUserId) {
-        try {
-          await updateObject(
-            selectedObj.firestoreId, 
-            { opacity }, 
-            currentUserId, 
-            currentProjectId
-          );
-          console.log(`Object "${selectedObj.name}" opacity updated in database`);
-        } catch (error) {
-          console.error('Failed to update object opacity in database:', error);
-        }
+      if (selectedObj) {
+        get().markUnsavedChanges({ objects: [selectedObj.id] });
       }
-      
-      get().markUnsavedChanges();
     }
   },
 
@@ -1040,6 +1899,7 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       }
 
       return {
+        vertexEditStart: selectedObj ? { id: selectedObj.id, positions: capturePositions(state.selectedObject)! } : null,
         draggedVertex: {
           indices: overlappingIndices,
           position: position.clone(),
@@ -1085,9 +1945,10 @@ export const useSceneStore = create<SceneState>((set, get) => ({
     }),
 
   endVertexDrag: () => {
-    get().saveToHistory();
+    const command = finishVertexEdit(get());
+    if (command) get().pushHistory(command);
     get().updateObjectProperties(); // This will save to database
-    set({ draggedVertex: null });
+    set({ draggedVertex: null, vertexEditStart: null });
   },
 
   startEdgeDrag: (vertexIndices, positions, midpoint) =>
@@ -1144,6 +2005,7 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       });
 
       return {
+        vertexEditStart: selectedObj ? { id: selectedObj.id, positions: capturePositions(state.selectedObject)! } : null,
         draggedEdge: {
           indices: edges,
           positions: positions,
@@ -1168,38 +2030,98 @@ export const useSceneStore = create<SceneState>((set, get) => ({
 
       const geometry = state.selectedObject.geometry;
       const positions = geometry.attributes.position;
-      const offset = position.clone().sub(state.draggedEdge.midpoint);
+      const offset = position.clone().sub(state.draggedEdge.midpoint);
+
+      // Move all connected vertices by the offset
+      state.draggedEdge.connectedVertices.forEach(vertexIndex => {
+        const currentPos = new THREE.Vector3(
+          positions.getX(vertexIndex),
+          positions.getY(vertexIndex),
+          positions.getZ(vertexIndex)
+        );
+        const newPos = currentPos.add(offset);
+        positions.setXYZ(vertexIndex, newPos.x, newPos.y, newPos.z);
+      });
+
+      positions.needsUpdate = true;
+      geometry.computeVertexNormals();
+      
+      return {
+        draggedEdge: {
+          ...state.draggedEdge,
+          midpoint: position.clone()
+        }
+      };
+    }),
+
+  endEdgeDrag: () => {
+    const command = finishVertexEdit(get());
+    if (command) get().pushHistory(command);
+    get().updateObjectProperties(); // This will save to database
+    set({ draggedEdge: null, vertexEditStart: null });
+  },
+
+  setIsDraggingEdge: (isDragging) => set({ isDraggingEdge: isDragging }),
+
+  startFaceDrag: () =>
+    set((state) => {
+      if (!(state.selectedObject instanceof THREE.Mesh) || state.selectedElements.faces.length === 0) return state;
+
+      // Check if selected object is locked
+      const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
+      if (get().isObjectLocked(selectedObj?.id || '')) return state;
+
+      const geometry = state.selectedObject.geometry;
+      const positions = geometry.attributes.position;
+      const { indices, normal, center } = getFaceVertices(geometry, state.selectedElements.faces);
+      if (indices.length === 0 || normal.lengthSq() === 0) return state;
+
+      return {
+        vertexEditStart: selectedObj ? { id: selectedObj.id, positions: capturePositions(state.selectedObject)! } : null,
+        draggedFaces: {
+          indices,
+          initialPositions: indices.map(index => new THREE.Vector3().fromBufferAttribute(positions, index)),
+          normal,
+          center,
+          offset: 0
+        }
+      };
+    }),
+
+  updateFaceDrag: (offset) =>
+    set((state) => {
+      if (!state.draggedFaces || !(state.selectedObject instanceof THREE.Mesh)) return state;
+
+      const geometry = state.selectedObject.geometry;
+      const positions = geometry.attributes.position;
+      const { indices, initialPositions, normal } = state.draggedFaces;
 
-      // Move all connected vertices by the offset
-      state.draggedEdge.connectedVertices.forEach(vertexIndex => {
-        const currentPos = new THREE.Vector3(
-          positions.getX(vertexIndex),
-          positions.getY(vertexIndex),
-          positions.getZ(vertexIndex)
-        );
-        const newPos = currentPos.add(offset);
-        positions.setXYZ(vertexIndex, newPos.x, newPos.y, newPos.z);
+      // Slide every vertex of the selected faces along their averaged normal
+      indices.forEach((index, i) => {
+        const moved = initialPositions[i].clone().addScaledVector(normal, offset);
+        positions.setXYZ(index, moved.x, moved.y, moved.z);
       });
 
       positions.needsUpdate = true;
       geometry.computeVertexNormals();
-      
+      geometry.computeBoundingSphere();
+
       return {
-        draggedEdge: {
-          ...state.draggedEdge,
-          midpoint: position.clone()
+        draggedFaces: {
+          ...state.draggedFaces,
+          offset
         }
       };
     }),
 
-  endEdgeDrag: () => {
-    get().saveToHistory();
+  endFaceDrag: () => {
+    if (!get().draggedFaces) return;
+    const command = finishVertexEdit(get());
+    if (command) get().pushHistory(command);
     get().updateObjectProperties(); // This will save to database
-    set({ draggedEdge: null });
+    set({ draggedFaces: null, vertexEditStart: null });
   },
 
-  setIsDraggingEdge: (isDragging) => set({ isDraggingEdge: isDragging }),
-
   updateCylinderVertices: (vertexCount) =>
     set((state) => {
       if (!(state.selectedObject instanceof THREE.Mesh) || 
@@ -1223,14 +2145,15 @@ export const useSceneStore = create<SceneState>((set, get) => ({
         oldGeometry.parameters.thetaLength
       );
 
-      state.selectedObject.geometry.dispose();
+      // The old geometry is kept (not disposed) so undo can put it back
       state.selectedObject.geometry = newGeometry;
 
-      get().saveToHistory();
+      if (selectedObj) {
+        get().pushHistory({ type: 'geometry', id: selectedObj.id, before: oldGeometry, after: newGeometry });
+      }
       get().updateObjectProperties(); // This will save to database
 
       return {
-        ...state,
         selectedElements: {
           vertices: [],
           edges: [],
@@ -1261,14 +2184,15 @@ export const useSceneStore = create<SceneState>((set, get) => ({
         oldGeometry.parameters.thetaLength
       );
 
-      state.selectedObject.geometry.dispose();
+      // The old geometry is kept (not disposed) so undo can put it back
       state.selectedObject.geometry = newGeometry;
 
-      get().saveToHistory();
+      if (selectedObj) {
+        get().pushHistory({ type: 'geometry', id: selectedObj.id, before: oldGeometry, after: newGeometry });
+      }
       get().updateObjectProperties(); // This will save to database
 
       return {
-        ...state,
         selectedElements: {
           vertices: [],
           edges: [],
@@ -1277,12 +2201,121 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       };
     }),
 
+  extrudeFace: (distance) => {
+    if (get().isReadOnly) return;
+    const state = get();
+    if (!(state.selectedObject instanceof THREE.Mesh) || distance === 0) return;
+
+    // Check if selected object is locked
+    const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
+    if (!selectedObj || get().isObjectLocked(selectedObj.id)) return;
+
+    const oldGeometry = state.selectedObject.geometry;
+    const result = extrudeFaces(oldGeometry, state.selectedElements.faces, distance);
+    if (!result) return;
+
+    // The old geometry is kept (not disposed) so undo can put it back
+    state.selectedObject.geometry = result.geometry;
+    get().pushHistory({ type: 'geometry', id: selectedObj.id, before: oldGeometry, after: result.geometry });
+
+    // Keep the extruded faces selected so they can be pushed out again
+    set({
+      selectedElements: {
+        vertices: [],
+        edges: [],
+        faces: result.faces
+      }
+    });
+
+    get().updateObjectProperties(); // This will save to database
+  },
+
+  bevelEdge: (segments, width) => {
+    if (get().isReadOnly) return;
+    const state = get();
+    if (!(state.selectedObject instanceof THREE.Mesh)) return;
+
+    const [vertexA, vertexB] = state.selectedElements.edges;
+    if (vertexA === undefined || vertexB === undefined) return;
+
+    // Check if selected object is locked
+    const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
+    if (!selectedObj || get().isObjectLocked(selectedObj.id)) return;
+
+    const oldGeometry = state.selectedObject.geometry;
+    const newGeometry = bevelGeometryEdge(oldGeometry, [vertexA, vertexB], segments, width);
+    if (!newGeometry) {
+      console.warn('Bevel needs an edge between two faces that meet at an angle');
+      return;
+    }
+
+    // The old geometry is kept (not disposed) so undo can put it back
+    state.selectedObject.geometry = newGeometry;
+    get().pushHistory({ type: 'geometry', id: selectedObj.id, before: oldGeometry, after: newGeometry });
+
+    // Vertex indices refer to the old geometry, so the edge pick is cleared
+    set({
+      selectedElements: {
+        vertices: [],
+        edges: [],
+        faces: []
+      }
+    });
+
+    get().updateObjectProperties(); // This will save to database
+  },
+
+  addControlPoint: (point) =>
+    set((state) => ({
+      controlPoints: [...state.controlPoints, point.clone()]
+    })),
+
+  clearControlPoints: () => set({ controlPoints: [] }),
+
+  createNURBSCurve: async () => {
+    const geometry = createNURBSCurveGeometry(get().controlPoints);
+    if (!geometry) return;
+
+    // Centre the geometry on the object's origin so transforms behave like other shapes
+    geometry.computeBoundingBox();
+    const center = geometry.boundingBox!.getCenter(new THREE.Vector3());
+    geometry.translate(-center.x, -center.y, -center.z);
+
+    const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color: '#4a90e2' }));
+    mesh.position.copy(center);
+
+    set({ controlPoints: [] });
+    await get().addObject(mesh, 'NURBS Curve');
+  },
+
+  createNURBSSurface: async (pointsPerRow) => {
+    const { controlPoints } = get();
+    const columns = pointsPerRow ?? Math.max(2, Math.round(Math.sqrt(controlPoints.length)));
+    const geometry = createNURBSSurfaceGeometry(controlPoints, columns);
+    if (!geometry) return;
+
+    geometry.computeBoundingBox();
+    const center = geometry.boundingBox!.getCenter(new THREE.Vector3());
+    geometry.translate(-center.x, -center.y, -center.z);
+
+    // Surfaces are open sheets, so render both sides
+    const mesh = new THREE.Mesh(
+      geometry,
+      new THREE.MeshStandardMaterial({ color: '#44aa88', side: THREE.DoubleSide })
+    );
+    mesh.position.copy(center);
+
+    set({ controlPoints: [] });
+    await get().addObject(mesh, 'NURBS Surface');
+  },
+
   // Group management functions
   createGroup: async (name, objectIds = []) => {
-    const { currentProjectId, currentUserId } = get();
+    if (get().isReadOnly) return;
+    const groupsBefore = captureGroups(get());
     
     const newGroup: Group = {
-      id: crypto.randomUUID(),
+      id: createEntityId(get(), 'groups'),
       name,
       expanded: true,
       visible: true,
@@ -1304,53 +2337,16 @@ export const useSceneStore = create<SceneState>((set, get) => ({
         objects: updatedObjects
       };
     });
-
-    // Save to database if we have project context
-    if (currentProjectId && currentUserId) {
-      try {
-        const firestoreGroup: FirestoreGroup = {
-          name: newGroup.name,
-          expanded: newGroup.expanded,
-          visible: newGroup.visible,
-          locked: newGroup.locked,
-          objectIds: newGroup.objectIds
-        };
-
-        const firestoreId = await saveGroup(firestoreGroup, currentUserId, currentProjectId);
-        
-        // Update local group with Firestore ID
-        set((state) => ({
-          groups: state.groups.map(group => 
-            group.id === newGroup.id 
-              ? { ...group, firestoreId }
-              : group
-          )
-        }));
-        
-        console.log(`Group "${name}" saved to database with ID: ${firestoreId}`);
-      } catch (error) {
-        console.error('Failed to save group to database:', error);
-      }
-    }
-
-    get().saveToHistory();
+    get().pushHistory({ type: 'groups', before: groupsBefore, after: captureGroups(get()) });
+    get().markUnsavedChanges({ groups: [newGroup.id], objects: objectIds });
   },
 
   removeGroup: async (groupId) => {
+    if (get().isReadOnly) return;
     const state = get();
     const groupToRemove = state.groups.find(g => g.id === groupId);
     if (!groupToRemove || groupToRemove.locked) return;
 
-    // Remove from database immediately if we have Firestore ID and project context
-    if (groupToRemove.firestoreId && state.currentProjectId) {
-      try {
-        await deleteGroup(groupToRemove.firestoreId, state.currentProjectId);
-        console.log(`Group "${groupToRemove.name}" deleted from database`);
-      } catch (error) {
-        console.error('Failed to delete group from database:', error);
-      }
-    }
-
     // Remove group reference from objects
     const updatedObjects = state.objects.map(obj => 
       obj.groupId === groupId 
@@ -1362,11 +2358,15 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       groups: state.groups.filter(group => group.id !== groupId),
       objects: updatedObjects
     });
-
-    get().saveToHistory();
+    get().pushHistory({ type: 'groups', before: captureGroups(state), after: captureGroups(get()) });
+    get().markUnsavedChanges({
+      groups: [groupId],
+      objects: state.objects.filter(obj => obj.groupId === groupId).map(obj => obj.id)
+    });
   },
 
   addObjectToGroup: async (objectId, groupId) => {
+    if (get().isReadOnly) return;
     const state = get();
     const objectToMove = state.objects.find(obj => obj.id === objectId);
     const targetGroup = state.groups.find(g => g.id === groupId);
@@ -1390,39 +2390,11 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       groups: updatedGroups
     });
 
-    // Update in database if we have project context
-    if (objectToMove?.firestoreId && state.currentProjectId && state.currentUserId) {
-      try {
-        await updateObject(
-          objectToMove.firestoreId, 
-          { groupId }, 
-          state.currentUserId, 
-          state.currentProjectId
-        );
-        console.log(`Object "${objectToMove.name}" moved to group in database`);
-      } catch (error) {
-        console.error('Failed to update object group in database:', error);
-      }
-    }
-
-    if (targetGroup?.firestoreId && state.currentProjectId && state.currentUserId) {
-      try {
-        await updateGroup(
-          targetGroup.firestoreId, 
-          { objectIds: [...targetGroup.objectIds, objectId] }, 
-          state.currentUserId, 
-          state.currentProjectId
-        );
-        console.log(`Group "${targetGroup.name}" updated in database`);
-      } catch (error) {
-        console.error('Failed to update group in database:', error);
-      }
-    }
-
-    get().markUnsavedChanges();
+    get().markUnsavedChanges({ objects: [objectId], groups: [groupId] });
   },
 
   removeObjectFromGroup: async (objectId) => {
+    if (get().isReadOnly) return;
     const state = get();
     const obj = state.objects.find(o => o.id === objectId);
     if (!obj?.groupId) return;
@@ -1448,36 +2420,7 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       groups: updatedGroups
     });
 
-    // Update in database if we have project context
-    if (obj.firestoreId && state.currentProjectId && state.currentUserId) {
-      try {
-        await updateObject(
-          obj.firestoreId, 
-          { groupId: null }, 
-          state.currentUserId, 
-          state.currentProjectId
-        );
-        console.log(`Object "${obj.name}" removed from group in database`);
-      } catch (error) {
-        console.error('Failed to update object group in database:', error);
-      }
-    }
-
-    if (group?.firestoreId && state.currentProjectId && state.currentUserId) {
-      try {
-        await updateGroup(
-          group.firestoreId, 
-          { objectIds: group.objectIds.filter(id => id !== objectId) }, 
-          state.currentUserId, 
-          state.currentProjectId
-        );
-        console.log(`Group "${group.name}" updated in database`);
-      } catch (error) {
-        console.error('Failed to update group in database:', error);
-      }
-    }
-
-    get().markUnsavedChanges();
+    get().markUnsavedChanges({ objects: [objectId], groups: [obj.groupId] });
   },
 
   toggleGroupExpanded: (groupId) =>
@@ -1488,6 +2431,7 @@ export const useSceneStore = create<SceneState>((set, get) => ({
     })),
 
   toggleGroupVisibility: async (groupId) => {
+    if (get().isReadOnly) return;
     const state = get();
     const group = state.groups.find(g => g.id === groupId);
     if (!group || group.locked) return;
@@ -1506,37 +2450,18 @@ export const useSceneStore = create<SceneState>((set, get) => ({
         : obj
     );
 
-    // Clear selection if selected object becomes invisible
-    const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
-    const newSelectedObject = (selectedObj && group.objectIds.includes(selectedObj.id) && !newVisibility)
-      ? null
-      : state.selectedObject;
-
+    // Deselect the group's objects if they become invisible
     set({
       groups: updatedGroups,
       objects: updatedObjects,
-      selectedObject: newSelectedObject
+      ...(newVisibility ? {} : deselectObjects(state, group.objectIds))
     });
 
-    // Update in database if we have project context
-    if (group.firestoreId && state.currentProjectId && state.currentUserId) {
-      try {
-        await updateGroup(
-          group.firestoreId, 
-          { visible: newVisibility }, 
-          state.currentUserId, 
-          state.currentProjectId
-        );
-        console.log(`Group "${group.name}" visibility updated in database`);
-      } catch (error) {
-        console.error('Failed to update group visibility in database:', error);
-      }
-    }
-
-    get().markUnsavedChanges();
+    get().markUnsavedChanges({ groups: [groupId], objects: group.objectIds });
   },
 
   toggleGroupLock: async (groupId) => {
+    if (get().isReadOnly) return;
     const state = get();
     const group = state.groups.find(g => g.id === groupId);
     if (!group) return;
@@ -1548,36 +2473,17 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       g.id === groupId ? { ...g, locked: newLockState } : g
     );
 
-    // Clear selection if selected object is in a group that becomes locked
-    const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
-    const newSelectedObject = (selectedObj && group.objectIds.includes(selectedObj.id) && newLockState)
-      ? null
-      : state.selectedObject;
-
+    // Deselect the group's objects if the group becomes locked
     set({
       groups: updatedGroups,
-      selectedObject: newSelectedObject
+      ...(newLockState ? deselectObjects(state, group.objectIds) : {})
     });
 
-    // Update in database if we have project context
-    if (group.firestoreId && state.currentProjectId && state.currentUserId) {
-      try {
-        await updateGroup(
-          group.firestoreId, 
-          { locked: newLockState }, 
-          state.currentUserId, 
-          state.currentProjectId
-        );
-        console.log(`Group "${group.name}" lock state updated in database`);
-      } catch (error) {
-        console.error('Failed to update group lock state in database:', error);
-      }
-    }
-
-    get().markUnsavedChanges();
+    get().markUnsavedChanges({ groups: [groupId] });
   },
 
   updateGroupName: async (groupId, name) => {
+    if (get().isReadOnly) return;
     const state = get();
     const group = state.groups.find(g => g.id === groupId);
     if (group?.locked) return;
@@ -1589,25 +2495,11 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       )
     });
 
-    // Update in database if we have project context
-    if (group?.firestoreId && state.currentProjectId && state.currentUserId) {
-      try {
-        await updateGroup(
-          group.firestoreId, 
-          { name }, 
-          state.currentUserId, 
-          state.currentProjectId
-        );
-        console.log(`Group name updated in database: "${name}"`);
-      } catch (error) {
-        console.error('Failed to update group name in database:', error);
-      }
-    }
-
-    get().markUnsavedChanges();
+    get().markUnsavedChanges({ groups: [groupId] });
   },
 
   moveObjectsToGroup: async (objectIds, groupId) => {
+    if (get().isReadOnly) return;
     const state = get();
     
     // Check if any objects are locked
@@ -1650,193 +2542,166 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       groups: finalGroups,
       objects: updatedObjects
     });
+    get().pushHistory({ type: 'groups', before: captureGroups(state), after: captureGroups(get()) });
 
-    // Update objects in database
-    if (state.currentProjectId && state.currentUserId) {
-      const updatePromises = objectIds.map(async (objectId) => {
-        const obj = state.objects.find(o => o.id === objectId);
-        if (obj?.firestoreId) {
-          try {
-            await updateObject(
-              obj.firestoreId, 
-              { groupId }, 
-              state.currentUserId, 
-              state.currentProjectId
-            );
-          } catch (error) {
-            console.error(`Failed to update object ${obj.name} group in database:`, error);
-          }
-        }
-      });
-
-      await Promise.all(updatePromises);
-      console.log(`Moved ${objectIds.length} objects to ${groupId ? 'group' : 'no group'} in database`);
-    }
-
-    get().markUnsavedChanges();
+    // Every group that lost or gained members has a new objectIds list
+    const changedGroups = finalGroups
+      .filter(group => state.groups.find(g => g.id === group.id)?.objectIds.join() !== group.objectIds.join())
+      .map(group => group.id);
+    get().markUnsavedChanges({ objects: objectIds, groups: changedGroups });
   },
 
   // New action functions
-  undo: () =>
-    set((state) => {
-      if (state.historyIndex <= 0) return state;
+  undo: () => {
+    if (get().isReadOnly) return;
+    const { history, historyIndex } = get();
+    if (historyIndex < 0) return;
 
-      const previousState = state.history[state.historyIndex - 1];
-      
-      return {
-        ...state,
-        objects: previousState.objects,
-        groups: previousState.groups,
-        lights: previousState.lights.map(light => ({
-          ...light,
-          object: createLight(light.type, light.position, light.target)
-        })),
-        historyIndex: state.historyIndex - 1,
-        canUndo: state.historyIndex - 1 > 0,
-        canRedo: true,
-        selectedObject: null, // Clear selection on undo
-        selectedLight: null
-      };
-    }),
+    set({
+      historyIndex: historyIndex - 1,
+      canUndo: historyIndex - 1 >= 0,
+      canRedo: true
+    });
 
-  redo: () =>
-    set((state) => {
-      if (state.historyIndex >= state.history.length - 1) return state;
+    applyHistoryCommand(invertCommand(history[historyIndex]), set, get);
+  },
 
-      const nextState = state.history[state.historyIndex + 1];
-      
-      return {
-        ...state,
-        objects: nextState.objects,
-        groups: nextState.groups,
-        lights: nextState.lights.map(light => ({
-          ...light,
-          object: createLight(light.type, light.position, light.target)
-        })),
-        historyIndex: state.historyIndex + 1,
-        canUndo: true,
-        canRedo: state.historyIndex + 1 < state.history.length - 1,
-        selectedObject: null, // Clear selection on redo
-        selectedLight: null
-      };
-    }),
+  redo: () => {
+    if (get().isReadOnly) return;
+    const { history, historyIndex } = get();
+    if (historyIndex >= history.length - 1) return;
+
+    set({
+      historyIndex: historyIndex + 1,
+      canUndo: true,
+      canRedo: historyIndex + 1 < history.length - 1
+    });
+
+    applyHistoryCommand(history[historyIndex + 1], set, get);
+  },
 
   duplicateObject: async () => {
     const state = get();
-    if (!state.selectedObject) return;
+    if (!state.selectedObject || state.isReadOnly) return;
 
-    // Check if selected object is locked
-    const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
-    if (!selectedObj || get().isObjectLocked(selectedObj.id)) return;
+    // Duplicate every selected object that isn't locked
+    const sourceObjs = state.objects.filter(obj =>
+      (obj.object === state.selectedObject || state.selectedObjects.has(obj.id)) && !get().isObjectLocked(obj.id)
+    );
+    if (sourceObjs.length === 0) return;
+
+    const limitMessage = objectLimitMessage(state, sourceObjs.length);
+    if (limitMessage) {
+      set({ studioNotice: limitMessage });
+      return;
+    }
 
-    const clonedObject = cloneObject(state.selectedObject);
-    clonedObject.position.x += 1; // Offset the duplicate
+    const newObjects = sourceObjs.map((sourceObj) => {
+      const clonedObject = cloneObject(sourceObj.object);
+      clonedObject.position.x += 1; // Offset the duplicate
 
-    const newObject = {
-      id: crypto.randomUUID(),
-      object: clonedObject,
-      name: `${selectedObj.name} Copy`,
-      visible: true,
-      locked: false,
-      groupId: selectedObj.groupId
-    };
+      return {
+        id: createEntityId(state, 'objects'),
+        object: clonedObject,
+        name: `${sourceObj.name} Copy`,
+        visible: true,
+        locked: false,
+        groupId: sourceObj.groupId
+      };
+    });
 
-    // Add to local state
+    // Add to local state and select the copies
     set((state) => {
-      // Update group if object belongs to one
-      let updatedGroups = state.groups;
-      if (selectedObj.groupId) {
-        updatedGroups = state.groups.map(group =>
-          group.id === selectedObj.groupId
-            ? { ...group, objectIds: [...group.objectIds, newObject.id] }
-            : group
-        );
-      }
+      // Update groups the copies belong to
+      const updatedGroups = state.groups.map(group => {
+        const copyIds = newObjects.filter(obj => obj.groupId === group.id).map(obj => obj.id);
+        return copyIds.length > 0
+          ? { ...group, objectIds: [...group.objectIds, ...copyIds] }
+          : group;
+      });
 
       return {
-        objects: [...state.objects, newObject],
+        objects: [...state.objects, ...newObjects],
         groups: updatedGroups,
-        selectedObject: clonedObject
+        selectedObject: newObjects[newObjects.length - 1].object,
+        selectedObjects: new Set(newObjects.map(obj => obj.id))
       };
     });
-
-    // Save to database if we have project context
-    if (state.currentProjectId && state.currentUserId) {
-      try {
-        const firestoreData = objectToFirestore(clonedObject, newObject.name, undefined, state.currentUserId, state.currentProjectId);
-        firestoreData.visible = true;
-        firestoreData.locked = false;
-        if (newObject.groupId) {
-          firestoreData.groupId = newObject.groupId;
-        }
-        
-        const firestoreId = await saveObject(firestoreData, state.currentUserId, state.currentProjectId);
-        
-        // Update local object with Firestore ID
-        set((state) => ({
-          objects: state.objects.map(obj => 
-            obj.id === newObject.id 
-              ? { ...obj, firestoreId }
-              : obj
-          )
-        }));
-        
-        console.log(`Duplicated object "${newObject.name}" saved to database with ID: ${firestoreId}`);
-      } catch (error) {
-        console.error('Failed to save duplicated object to database:', error);
-      }
-    }
-
-    get().saveToHistory();
+    get().pushHistory({ type: 'add', entries: newObjects });
+    get().markUnsavedChanges({
+      objects: newObjects.map(obj => obj.id),
+      groups: newObjects.flatMap(obj => obj.groupId ? [obj.groupId] : [])
+    });
   },
 
   mirrorObject: async () => {
+    if (get().isReadOnly) return;
     const state = get();
     if (!state.selectedObject) return;
 
-    // Check if selected object is locked
-    const selectedObj = state.objects.find(obj => obj.object === state.selectedObject);
-    if (!selectedObj || get().isObjectLocked(selectedObj.id)) return;
-
-    // Mirror along X-axis
-    state.selectedObject.scale.x *= -1;
-
-    // Update in database
-    await get().updateObjectProperties();
+    const selectedObjs = state.objects.filter(obj =>
+      (obj.object === state.selectedObject || state.selectedObjects.has(obj.id)) && !get().isObjectLocked(obj.id)
+    );
+    if (selectedObjs.length === 0) return;
+
+    // Mirror along X-axis, reflecting positions across the selection's centre
+    // so a multi-selection flips as a whole
+    get().startTransform();
+    const centerX = selectedObjs.reduce((sum, obj) => sum + obj.object.position.x, 0) / selectedObjs.length;
+    selectedObjs.forEach(({ object }) => {
+      object.scale.x *= -1;
+      object.position.x = 2 * centerX - object.position.x;
+    });
 
-    get().saveToHistory();
+    // Record the change and update in database
+    await get().endTransform();
   },
 
-  zoomIn: () =>
-    set((state) => {
-      get().markUnsavedChanges();
-      return {
-        cameraZoom: Math.min(state.cameraZoom * 1.2, 5)
-      };
-    }),
+  zoomIn: () => {
+    set((state) => ({
+      cameraZoom: Math.min(state.cameraZoom * 1.2, 5)
+    }));
+    markSceneChanged(get);
+  },
 
-  zoomOut: () =>
-    set((state) => {
-      get().markUnsavedChanges();
-      return {
-        cameraZoom: Math.max(state.cameraZoom / 1.2, 0.1)
-      };
-    }),
+  zoomOut: () => {
+    set((state) => ({
+      cameraZoom: Math.max(state.cameraZoom / 1.2, 0.1)
+    }));
+    markSceneChanged(get);
+  },
 
   // Enhanced placement functions
-  startObjectPlacement: (objectDef) =>
+  startObjectPlacement: (objectDef) => {
+    if (get().isReadOnly) return;
+
+    // Refuse up front rather than after the user has picked a spot
+    const limitMessage = objectLimitMessage(get(), 1);
+    if (limitMessage) {
+      set({ studioNotice: limitMessage });
+      return;
+    }
+
     set({
       placementMode: true,
       pendingObject: objectDef,
       selectedObject: null,
+      selectedObjects: new Set<string>(),
       transformMode: null,
       editMode: null
-    }),
+    });
+  },
 
   placeObjectAt: async (position, rotation = null) => {
     const state = get();
     if (!state.pendingObject) return;
 
+    const limitMessage = objectLimitMessage(state, 1);
+    if (limitMessage) {
+      set({ studioNotice: limitMessage, placementMode: false, pendingObject: null });
+      return;
+    }
+
     const geometryOrGroup = state.pendingObject.geometry();
     let object: THREE.Object3D;
 
@@ -1864,7 +2729,7 @@ export const useSceneStore = create<SceneState>((set, get) => ({
     set({
       placementMode: false,
       pendingObject: null,
-      selectedObject: object
+      ...selectOnly(get(), object)
     });
   },
 
@@ -1876,11 +2741,13 @@ export const useSceneStore = create<SceneState>((set, get) => ({
 
   // Light management functions
   addLight: async (type, position = [2, 2, 2]) => {
-    const { lights, currentProjectId, currentUserId } = get();
+    if (get().isReadOnly) return;
+    const { lights } = get();
+    const lightsBefore = captureLights(get());
     
     const lightCount = lights.filter(l => l.type === type).length;
     const newLight: Light = {
-      id: crypto.randomUUID(),
+      id: createEntityId(get(), 'lights'),
       name: `${type.charAt(0).toUpperCase() + type.slice(1)} Light ${lightCount + 1}`,
       type,
       position: [...position],
@@ -1901,61 +2768,17 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       lights: [...state.lights, newLight],
       selectedLight: newLight
     }));
-
-    // Save to database if we have project context
-    if (currentProjectId && currentUserId) {
-      try {
-        const firestoreLight: FirestoreLight = {
-          name: newLight.name,
-          type: newLight.type,
-          position: newLight.position,
-          target: newLight.target,
-          intensity: newLight.intensity,
-          color: newLight.color,
-          visible: newLight.visible,
-          castShadow: newLight.castShadow,
-          distance: newLight.distance,
-          decay: newLight.decay,
-          angle: newLight.angle,
-          penumbra: newLight.penumbra
-        };
-
-        const firestoreId = await saveLight(firestoreLight, currentUserId, currentProjectId);
-        
-        // Update local light with Firestore ID
-        set((state) => ({
-          lights: state.lights.map(light => 
-            light.id === newLight.id 
-              ? { ...light, firestoreId }
-              : light
-          )
-        }));
-        
-        console.log(`Light "${newLight.name}" saved to database with ID: ${firestoreId}`);
-      } catch (error) {
-        console.error('Failed to save light to database:', error);
-      }
-    }
-
-    get().saveToHistory();
+    get().pushHistory({ type: 'lights', before: lightsBefore, after: captureLights(get()) });
+    get().markUnsavedChanges({ lights: [newLight.id] });
   },
 
   removeLight: async (lightId) => {
+    if (get().isReadOnly) return;
     const state = get();
     const lightToRemove = state.lights.find(light => light.id === lightId);
     
     if (!lightToRemove) return;
 
-    // Remove from database immediately if we have Firestore ID and project context
-    if (lightToRemove.firestoreId && state.currentProjectId) {
-      try {
-        await deleteLight(lightToRemove.firestoreId, state.currentProjectId);
-        console.log(`Light "${lightToRemove.name}" deleted from database`);
-      } catch (error) {
-        console.error('Failed to delete light from database:', error);
-      }
-    }
-
     // Remove from local state
     const updatedLights = state.lights.filter(light => light.id !== lightId);
     
@@ -1963,12 +2786,13 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       lights: updatedLights,
       selectedLight: state.selectedLight?.id === lightId ? null : state.selectedLight
     });
-
-    get().saveToHistory();
+    get().pushHistory({ type: 'lights', before: captureLights(state), after: captureLights(get()) });
+    get().markUnsavedChanges({ lights: [lightId] });
   },
 
   updateLight: async (lightId, properties) => {
-    const { lights, currentProjectId, currentUserId } = get();
+    if (get().isReadOnly) return;
+    const { lights } = get();
     
     const updatedLights = lights.map(light => {
       if (light.id === lightId) {
@@ -2012,26 +2836,12 @@ export const useSceneStore = create<SceneState>((set, get) => ({
         : get().selectedLight
     });
 
-    // Update in database if we have project context
-    const lightToUpdate = lights.find(l => l.id === lightId);
-    if (lightToUpdate?.firestoreId && currentProjectId && currentUserId) {
-      try {
-        const firestoreLight: Partial<FirestoreLight> = {
-          ...properties
-        };
-
-        await updateLight(lightToUpdate.firestoreId, firestoreLight, currentUserId, currentProjectId);
-        console.log(`Light "${lightToUpdate.name}" updated in database`);
-      } catch (error) {
-        console.error('Failed to update light in database:', error);
-      }
-    }
-
-    get().markUnsavedChanges();
+    get().markUnsavedChanges({ lights: [lightId] });
   },
 
   toggleLightVisibility: async (lightId) => {
-    const { lights, currentProjectId, currentUserId } = get();
+    if (get().isReadOnly) return;
+    const { lights } = get();
     
     const lightToToggle = lights.find(l => l.id === lightId);
     if (!lightToToggle) return;
@@ -2049,23 +2859,7 @@ export const useSceneStore = create<SceneState>((set, get) => ({
     }
 
     set({ lights: updatedLights });
-
-    // Update in database if we have project context
-    if (lightToToggle.firestoreId && currentProjectId && currentUserId) {
-      try {
-        await updateLight(
-          lightToToggle.firestoreId, 
-          { visible: newVisibility }, 
-          currentUserId, 
-          currentProjectId
-        );
-        console.log(`Light "${lightToToggle.name}" visibility updated in database`);
-      } catch (error) {
-        console.error('Failed to update light visibility in database:', error);
-      }
-    }
-
-    get().markUnsavedChanges();
+    get().markUnsavedChanges({ lights: [lightId] });
   },
 
   setSelectedLight: (light) => set({ selectedLight: light }),
@@ -2076,8 +2870,8 @@ export const useSceneStore = create<SceneState>((set, get) => ({
     const obj = state.objects.find(o => o.id === objectId);
     if (!obj) return false;
 
-    // Check if object itself is locked
-    if (obj.locked) return true;
+    // Check if object itself is locked, or held by a collaborator
+    if (obj.locked || state.softLockedObjects.has(objectId)) return true;
 
     // Check if object is in a locked group
     if (obj.groupId) {
@@ -2101,8 +2895,26 @@ export const useSceneStore = create<SceneState>((set, get) => ({
       hasUnsavedChanges: false
     }),
 
-  markUnsavedChanges: () =>
-    set({
-      hasUnsavedChanges: true
-    }),
-}));
\ No newline at end of file
+  markUnsavedChanges: (changes) => {
+    set((state) => {
+      const pendingChanges = mergePendingChanges(state.pendingChanges, changes ?? {});
+      return { pendingChanges, hasUnsavedChanges: hasPendingChanges(pendingChanges) };
+    });
+    autosave.schedule();
+  },
+}));
+
+// One autosave engine for the studio; it always works on the store's current project
+const autosave = createAutosave({
+  flush: () => flushPendingChanges(useSceneStore.setState, useSceneStore.getState),
+  stash: () => stashPendingChanges(useSceneStore.getState),
+  hasWork: () => hasPendingChanges(useSceneStore.getState().pendingChanges),
+  isEnabled: () => {
+    const { currentProjectId, currentUserId, isReadOnly, projectSettings } = useSceneStore.getState();
+    return !!currentProjectId && !!currentUserId && !isReadOnly && projectSettings?.autoSave !== false;
+  },
+  onStatusChange: (saveStatus) => useSceneStore.setState({ saveStatus })
+});
+
+// Listens for connectivity changes and tab closes; returns a cleanup function
+export const attachAutosaveListeners = () => autosave.attachWindowListeners();
\ No newline at end of file
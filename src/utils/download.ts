@@ -0,0 +1,14 @@
+// Some browsers cancel a download whose object URL is revoked before it starts
+const REVOKE_DELAY = 1000;
+
+// Helper function to trigger a browser download for generated data
+export const downloadFile = (data: BlobPart, fileName: string, mimeType: string) => {
+  const blob = new Blob([data], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+};
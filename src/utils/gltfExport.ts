@@ -0,0 +1,126 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+
+// Minimal shapes of the scene store entries needed for export
+interface ExportableObject {
+  id: string;
+  object: THREE.Object3D;
+  name: string;
+  visible: boolean;
+  groupId?: string;
+}
+
+interface ExportableGroup {
+  id: string;
+  name: string;
+  visible: boolean;
+  objectIds: string[];
+}
+
+interface ExportableLight {
+  name: string;
+  type: 'directional' | 'point' | 'spot';
+  position: number[];
+  target: number[];
+  intensity: number;
+  color: string;
+  visible: boolean;
+  distance: number;
+  decay: number;
+  angle: number;
+  penumbra: number;
+}
+
+// Helper function to create a glTF-friendly light. glTF lights point down -Z,
+// so directional and spot lights are oriented towards their target instead of
+// relying on a detached target object.
+const createExportLight = (light: ExportableLight): THREE.Light => {
+  const color = new THREE.Color(light.color);
+  let exportLight: THREE.Light;
+
+  switch (light.type) {
+    case 'directional':
+      exportLight = new THREE.DirectionalLight(color, light.intensity);
+      break;
+    case 'spot':
+      exportLight = new THREE.SpotLight(color, light.intensity, light.distance, light.angle, light.penumbra, light.decay);
+      break;
+    case 'point':
+    default:
+      exportLight = new THREE.PointLight(color, light.intensity, light.distance, light.decay);
+      break;
+  }
+
+  exportLight.name = light.name;
+  exportLight.position.fromArray(light.position);
+
+  if (exportLight instanceof THREE.DirectionalLight || exportLight instanceof THREE.SpotLight) {
+    exportLight.lookAt(new THREE.Vector3().fromArray(light.target));
+    exportLight.add(exportLight.target);
+    exportLight.target.position.set(0, 0, -1);
+  }
+
+  return exportLight;
+};
+
+// Build a standalone THREE.Scene mirroring the studio: every group becomes a
+// node whose children are its member objects. Hidden objects and groups are skipped.
+export const buildExportScene = (
+  objects: ExportableObject[],
+  groups: ExportableGroup[],
+  lights: ExportableLight[]
+): THREE.Scene => {
+  const exportScene = new THREE.Scene();
+  exportScene.name = 'Classroom Scene';
+
+  const groupNodes = new Map<string, THREE.Group>();
+  groups.forEach(group => {
+    if (!group.visible) return;
+    const node = new THREE.Group();
+    node.name = group.name;
+    groupNodes.set(group.id, node);
+    exportScene.add(node);
+  });
+
+  objects.forEach(entry => {
+    if (!entry.visible) return;
+
+    const memberOf = entry.groupId ?? groups.find(group => group.objectIds.includes(entry.id))?.id;
+    if (memberOf && !groupNodes.has(memberOf) && groups.some(group => group.id === memberOf)) {
+      return; // Member of a hidden group
+    }
+
+    // Clones share geometry and materials, so the live scene is never modified
+    const node = entry.object.clone();
+    node.name = entry.name;
+    (memberOf && groupNodes.get(memberOf) || exportScene).add(node);
+  });
+
+  lights.forEach(light => {
+    if (light.visible) {
+      exportScene.add(createExportLight(light));
+    }
+  });
+
+  return exportScene;
+};
+
+export const exportSceneToGlb = async (
+  objects: ExportableObject[],
+  groups: ExportableGroup[],
+  lights: ExportableLight[]
+): Promise<ArrayBuffer> => {
+  const exportScene = buildExportScene(objects, groups, lights);
+  const exporter = new GLTFExporter();
+
+  const result = await exporter.parseAsync(exportScene, {
+    binary: true,
+    onlyVisible: true
+  });
+
+  if (!(result instanceof ArrayBuffer)) {
+    throw new Error('glTF exporter did not produce binary output');
+  }
+
+  return result;
+};
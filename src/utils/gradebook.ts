@@ -0,0 +1,73 @@
+import { Project, RubricCriterion, Student, isSubmissionLate } from '../store/classroomStore';
+
+// Helper function to quote a CSV field when it holds a separator, quote or line break. Text
+// starting like a formula gets a leading apostrophe so spreadsheets show it instead of running it
+const toCsvField = (value: string | number | null | undefined) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Helper function to write a date in local time, in a form spreadsheets read as a date
+const formatDateTime = (date: Date | string | null | undefined) => {
+  if (!date) return '';
+  const value = new Date(date);
+  return new Date(value.getTime() - value.getTimezoneOffset() * 60000).toISOString().slice(0, 16).replace('T', ' ');
+};
+
+// One row per student with their status, a column per rubric criterion, the total and the
+// written feedback. Students without a copy yet are listed too, so the whole class is there
+export const buildGradebookCsv = (rubric: RubricCriterion[], copies: Project[], studentsWithoutCopy: Student[]) => {
+  const header = [
+    'Student',
+    'Email',
+    'Status',
+    'Submitted',
+    'Due',
+    'Late',
+    ...rubric.map(criterion => `${criterion.title} (${criterion.maxPoints})`),
+    'Total',
+    'Out Of',
+    'Feedback'
+  ];
+
+  const copyRows = copies.flatMap(({ submission, grade }) => submission ? [{
+    name: submission.studentName || submission.studentEmail.split('@')[0],
+    cells: [
+      submission.studentName || '',
+      submission.studentEmail,
+      grade ? 'Graded' : submission.status === 'submitted' ? 'Submitted' : 'Not submitted',
+      formatDateTime(submission.submittedAt),
+      formatDateTime(submission.dueAt),
+      isSubmissionLate(submission) ? 'Yes' : 'No',
+      ...rubric.map(criterion => grade?.scores[criterion.id] ?? ''),
+      grade?.total ?? '',
+      grade?.maxTotal ?? '',
+      grade?.feedback ?? ''
+    ]
+  }] : []);
+
+  const missingRows = studentsWithoutCopy.map(student => ({
+    name: student.name || student.email.split('@')[0],
+    cells: [
+      student.name || '',
+      student.email,
+      'Not handed out',
+      '',
+      '',
+      '',
+      ...rubric.map(() => ''),
+      '',
+      '',
+      ''
+    ]
+  }));
+
+  const rows = [...copyRows, ...missingRows]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(row => row.cells);
+
+  return [header, ...rows]
+    .map(row => row.map(toCsvField).join(','))
+    .join('\r\n');
+};
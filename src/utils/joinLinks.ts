@@ -0,0 +1,62 @@
+// Where a join link points: an invite to one project, or a class code to look up
+export type JoinTarget =
+  | { kind: 'invite'; projectId: string; token: string }
+  | { kind: 'classCode'; classCode: string };
+
+// A link that opens one project in the viewer
+export interface ViewTarget {
+  projectId: string;
+  token: string;
+}
+
+const JOIN_PATH = '/join';
+const VIEW_PATH = '/project';
+
+// Class codes skip characters that are easy to mix up when read off a board
+const CLASS_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const CLASS_CODE_LENGTH = 6;
+
+export const generateClassCode = () => {
+  const values = crypto.getRandomValues(new Uint32Array(CLASS_CODE_LENGTH));
+  return Array.from(values, value => CLASS_CODE_ALPHABET[value % CLASS_CODE_ALPHABET.length]).join('');
+};
+
+export const generateInviteToken = () => crypto.randomUUID().replace(/-/g, '');
+
+// Helper function to tidy up a typed class code: case and separators don't matter
+export const normalizeClassCode = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const buildInviteLink = (projectId: string, token: string) =>
+  `${window.location.origin}${JOIN_PATH}/${encodeURIComponent(projectId)}?invite=${encodeURIComponent(token)}`;
+
+export const buildViewLink = (projectId: string, token: string) =>
+  `${window.location.origin}${VIEW_PATH}/${encodeURIComponent(projectId)}?view=${encodeURIComponent(token)}`;
+
+export const buildClassCodeLink = (classCode: string) =>
+  `${window.location.origin}${JOIN_PATH}?code=${encodeURIComponent(classCode)}`;
+
+// Read a join link from the address bar. A project link without an invite token is kept, so
+// whoever opens it is told the link no longer works
+export const parseJoinLink = (location: Pick<Location, 'pathname' | 'search'>): JoinTarget | null => {
+  const params = new URLSearchParams(location.search);
+  const path = location.pathname.replace(/\/+$/, '');
+
+  if (path === JOIN_PATH) {
+    const classCode = normalizeClassCode(params.get('code') ?? '');
+    return classCode ? { kind: 'classCode', classCode } : null;
+  }
+
+  const match = path.match(/^\/join\/([^/]+)$/);
+  return match
+    ? { kind: 'invite', projectId: decodeURIComponent(match[1]), token: params.get('invite') ?? '' }
+    : null;
+};
+
+// Read a view link from the address bar. Older links carried ?access=view instead of a token
+// and are kept the same way, so whoever opens one is told it no longer works
+export const parseViewLink = (location: Pick<Location, 'pathname' | 'search'>): ViewTarget | null => {
+  const match = location.pathname.replace(/\/+$/, '').match(/^\/project\/([^/]+)$/);
+  return match
+    ? { projectId: decodeURIComponent(match[1]), token: new URLSearchParams(location.search).get('view') ?? '' }
+    : null;
+};
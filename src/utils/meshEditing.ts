@@ -0,0 +1,460 @@
+import * as THREE from 'three';
+import { NURBSCurve } from 'three/examples/jsm/curves/NURBSCurve.js';
+import { NURBSSurface } from 'three/examples/jsm/curves/NURBSSurface.js';
+import { ParametricGeometry } from 'three/examples/jsm/geometries/ParametricGeometry.js';
+
+// Mesh editing works on triangles. Primitive geometries duplicate corners per face
+// (for normals and UVs), so connectivity is worked out from welded corner positions.
+
+// Corners closer than this are treated as the same vertex
+const WELD_PRECISION = 1e4;
+
+// Faces whose normals differ by less than this are treated as one flat face
+const PLANAR_TOLERANCE = 1e-3;
+
+interface MeshTopology {
+  triangleCount: number;
+  corners: THREE.Vector3[][];
+  cornerIndices: number[][];
+  keys: string[][];
+  normals: THREE.Vector3[];
+  edgeTriangles: Map<string, number[]>;
+}
+
+// Helper function to build a key that identifies a corner position
+const positionKey = (v: THREE.Vector3) =>
+  `${Math.round(v.x * WELD_PRECISION)},${Math.round(v.y * WELD_PRECISION)},${Math.round(v.z * WELD_PRECISION)}`;
+
+// Helper function to build an order-independent key for an edge between two corners
+const edgeKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+// Helper function to read triangles and their edge connectivity from a geometry
+const buildTopology = (geometry: THREE.BufferGeometry): MeshTopology => {
+  const position = geometry.attributes.position;
+  const index = geometry.index;
+  const triangleCount = Math.floor((index ? index.count : position.count) / 3);
+
+  const topology: MeshTopology = {
+    triangleCount,
+    corners: [],
+    cornerIndices: [],
+    keys: [],
+    normals: [],
+    edgeTriangles: new Map()
+  };
+
+  for (let t = 0; t < triangleCount; t++) {
+    const indices = [0, 1, 2].map(k => (index ? index.getX(t * 3 + k) : t * 3 + k));
+    const corners = indices.map(i => new THREE.Vector3().fromBufferAttribute(position, i));
+    const keys = corners.map(positionKey);
+
+    topology.cornerIndices.push(indices);
+    topology.corners.push(corners);
+    topology.keys.push(keys);
+    topology.normals.push(new THREE.Triangle(corners[0], corners[1], corners[2]).getNormal(new THREE.Vector3()));
+
+    for (let k = 0; k < 3; k++) {
+      const key = edgeKey(keys[k], keys[(k + 1) % 3]);
+      const triangles = topology.edgeTriangles.get(key) ?? [];
+      triangles.push(t);
+      topology.edgeTriangles.set(key, triangles);
+    }
+  }
+
+  return topology;
+};
+
+// Helper function to grow a triangle into the flat face it belongs to (e.g. both triangles of a cube side)
+const collectPlanarFace = (topology: MeshTopology, triangleIndex: number): number[] => {
+  const normal = topology.normals[triangleIndex];
+  const visited = new Set([triangleIndex]);
+  const queue = [triangleIndex];
+
+  while (queue.length > 0) {
+    const t = queue.shift()!;
+    const keys = topology.keys[t];
+
+    for (let k = 0; k < 3; k++) {
+      const neighbours = topology.edgeTriangles.get(edgeKey(keys[k], keys[(k + 1) % 3])) ?? [];
+      neighbours.forEach((neighbour) => {
+        if (visited.has(neighbour)) return;
+        if (topology.normals[neighbour].distanceTo(normal) > PLANAR_TOLERANCE) return;
+        visited.add(neighbour);
+        queue.push(neighbour);
+      });
+    }
+  }
+
+  return Array.from(visited).sort((a, b) => a - b);
+};
+
+// Helper function to turn a flat list of triangle corners into a flat-shaded geometry
+const toGeometry = (positions: number[]) => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.computeVertexNormals();
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
+  return geometry;
+};
+
+const pushTriangle = (positions: number[], a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3) => {
+  positions.push(a.x, a.y, a.z, b.x, b.y, b.z, c.x, c.y, c.z);
+};
+
+// Find the triangles making up the flat face under a picked triangle
+export const getPlanarFace = (geometry: THREE.BufferGeometry, triangleIndex: number): number[] =>
+  collectPlanarFace(buildTopology(geometry), triangleIndex);
+
+// Find the polygon under a picked triangle: the triangle itself, or the quad it forms
+// with the coplanar neighbour across its longest edge (how quads are triangulated)
+export const getFacePolygon = (geometry: THREE.BufferGeometry, triangleIndex: number): number[] => {
+  const topology = buildTopology(geometry);
+
+  const longestEdge = (t: number) => {
+    const corners = topology.corners[t];
+    let best = 0;
+    for (let k = 1; k < 3; k++) {
+      if (corners[k].distanceToSquared(corners[(k + 1) % 3]) > corners[best].distanceToSquared(corners[(best + 1) % 3])) {
+        best = k;
+      }
+    }
+    return edgeKey(topology.keys[t][best], topology.keys[t][(best + 1) % 3]);
+  };
+
+  const diagonal = longestEdge(triangleIndex);
+  const partner = (topology.edgeTriangles.get(diagonal) ?? []).find(t =>
+    t !== triangleIndex &&
+    topology.normals[t].distanceTo(topology.normals[triangleIndex]) < PLANAR_TOLERANCE &&
+    longestEdge(t) === diagonal
+  );
+
+  return partner === undefined ? [triangleIndex] : [triangleIndex, partner].sort((a, b) => a - b);
+};
+
+// Collect every vertex used by the given triangles, including the duplicates that
+// neighbouring faces keep at the same positions, so moving them keeps the mesh connected.
+// Also returns the selection's averaged normal and centre, in local space.
+export const getFaceVertices = (geometry: THREE.BufferGeometry, faces: number[]) => {
+  const topology = buildTopology(geometry);
+  const position = geometry.attributes.position;
+  const keys = new Set<string>();
+  const normal = new THREE.Vector3();
+  const center = new THREE.Vector3();
+  let cornerCount = 0;
+
+  faces.forEach((t) => {
+    if (t < 0 || t >= topology.triangleCount) return;
+    const [a, b, c] = topology.corners[t];
+    normal.add(new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a)));
+    topology.keys[t].forEach(key => keys.add(key));
+    topology.corners[t].forEach((corner) => {
+      center.add(corner);
+      cornerCount++;
+    });
+  });
+
+  const indices: number[] = [];
+  const vertex = new THREE.Vector3();
+  for (let i = 0; i < position.count; i++) {
+    if (keys.has(positionKey(vertex.fromBufferAttribute(position, i)))) {
+      indices.push(i);
+    }
+  }
+
+  return {
+    indices,
+    normal: normal.lengthSq() > 0 ? normal.normalize() : normal,
+    center: cornerCount > 0 ? center.divideScalar(cornerCount) : center
+  };
+};
+
+// Find the edge of a picked triangle closest to a point (in the geometry's local space).
+// Returns the two vertex indices of the edge.
+export const getNearestEdge = (
+  geometry: THREE.BufferGeometry,
+  triangleIndex: number,
+  point: THREE.Vector3
+): [number, number] => {
+  const topology = buildTopology(geometry);
+  const corners = topology.corners[triangleIndex];
+  const indices = topology.cornerIndices[triangleIndex];
+  const closest = new THREE.Vector3();
+
+  let best: [number, number] = [indices[0], indices[1]];
+  let bestDistance = Infinity;
+
+  for (let k = 0; k < 3; k++) {
+    new THREE.Line3(corners[k], corners[(k + 1) % 3]).closestPointToPoint(point, true, closest);
+    const distance = closest.distanceTo(point);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = [indices[k], indices[(k + 1) % 3]];
+    }
+  }
+
+  return best;
+};
+
+// Push the selected triangles out along their averaged normal and stitch side walls
+// onto the boundary. Triangle order is kept, so the returned selection still points
+// at the extruded (moved) faces.
+export const extrudeFaces = (
+  geometry: THREE.BufferGeometry,
+  faces: number[],
+  distance: number
+): { geometry: THREE.BufferGeometry; faces: number[] } | null => {
+  const topology = buildTopology(geometry);
+  const selected = new Set(faces.filter(t => t >= 0 && t < topology.triangleCount));
+  if (selected.size === 0) return null;
+
+  // Area-weighted average normal of the selection
+  const normal = new THREE.Vector3();
+  selected.forEach((t) => {
+    const [a, b, c] = topology.corners[t];
+    normal.add(new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a)));
+  });
+  if (normal.lengthSq() === 0) return null;
+  const offset = normal.normalize().multiplyScalar(distance);
+
+  // Edges used by exactly one selected triangle form the outline of the selection
+  const selectedEdgeUse = new Map<string, number>();
+  selected.forEach((t) => {
+    const keys = topology.keys[t];
+    for (let k = 0; k < 3; k++) {
+      const key = edgeKey(keys[k], keys[(k + 1) % 3]);
+      selectedEdgeUse.set(key, (selectedEdgeUse.get(key) ?? 0) + 1);
+    }
+  });
+
+  const positions: number[] = [];
+  for (let t = 0; t < topology.triangleCount; t++) {
+    const corners = topology.corners[t];
+    if (selected.has(t)) {
+      const [a, b, c] = corners.map(corner => corner.clone().add(offset));
+      pushTriangle(positions, a, b, c);
+    } else {
+      pushTriangle(positions, corners[0], corners[1], corners[2]);
+    }
+  }
+
+  // Side walls: the selection walks its outline a -> b, so the wall walks a -> b at the
+  // bottom and b' -> a' at the top, which keeps the winding consistent with both faces
+  selected.forEach((t) => {
+    const corners = topology.corners[t];
+    const keys = topology.keys[t];
+    for (let k = 0; k < 3; k++) {
+      if (selectedEdgeUse.get(edgeKey(keys[k], keys[(k + 1) % 3])) !== 1) continue;
+
+      const a = corners[k];
+      const b = corners[(k + 1) % 3];
+      const aTop = a.clone().add(offset);
+      const bTop = b.clone().add(offset);
+      pushTriangle(positions, a, b, bTop);
+      pushTriangle(positions, a, bTop, aTop);
+    }
+  });
+
+  return {
+    geometry: toGeometry(positions),
+    faces: Array.from(selected).sort((a, b) => a - b)
+  };
+};
+
+// Helper function to sample a quadratic Bézier arc from `start` to `end` bending towards `corner`
+const sampleArc = (start: THREE.Vector3, corner: THREE.Vector3, end: THREE.Vector3, segments: number) =>
+  Array.from({ length: segments + 1 }, (_, i) =>
+    new THREE.QuadraticBezierCurve3(start, corner, end).getPoint(i / segments)
+  );
+
+// Round off the edge between two faces. The faces on either side are pulled back by
+// `width`, a strip of `segments` rows bridges the gap, and the faces meeting the edge's
+// end points are re-triangulated around the new arc so the mesh stays closed.
+export const bevelEdge = (
+  geometry: THREE.BufferGeometry,
+  edge: [number, number],
+  segments: number,
+  width: number
+): THREE.BufferGeometry | null => {
+  const topology = buildTopology(geometry);
+  const position = geometry.attributes.position;
+  const pointA = new THREE.Vector3().fromBufferAttribute(position, edge[0]);
+  const pointB = new THREE.Vector3().fromBufferAttribute(position, edge[1]);
+  const keyA = positionKey(pointA);
+  const keyB = positionKey(pointB);
+
+  const shared = topology.edgeTriangles.get(edgeKey(keyA, keyB)) ?? [];
+  if (shared.length !== 2) return null;
+
+  // Name the two faces so that face 1 walks the edge A -> B and face 2 walks B -> A
+  const walksAtoB = (t: number) => {
+    const keys = topology.keys[t];
+    return [0, 1, 2].some(k => keys[k] === keyA && keys[(k + 1) % 3] === keyB);
+  };
+  const [triangle1, triangle2] = walksAtoB(shared[0]) ? shared : [shared[1], shared[0]];
+  if (!walksAtoB(triangle1) || walksAtoB(triangle2)) return null;
+
+  // Nothing to round off between coplanar faces
+  if (topology.normals[triangle1].distanceTo(topology.normals[triangle2]) < PLANAR_TOLERANCE) return null;
+
+  const face1 = new Set(collectPlanarFace(topology, triangle1));
+  const face2 = new Set(collectPlanarFace(topology, triangle2));
+
+  // Directions that pull each face back from the edge, within the face's own plane
+  const edgeDirection = new THREE.Vector3().subVectors(pointB, pointA).normalize();
+  const inwardDirection = (t: number) => {
+    const opposite = topology.corners[t].find((_, k) => topology.keys[t][k] !== keyA && topology.keys[t][k] !== keyB)!;
+    const toOpposite = new THREE.Vector3().subVectors(opposite, pointA);
+    const inward = toOpposite.sub(edgeDirection.clone().multiplyScalar(toOpposite.dot(edgeDirection)));
+    return { direction: inward.clone().normalize(), reach: inward.length() };
+  };
+  const inward1 = inwardDirection(triangle1);
+  const inward2 = inwardDirection(triangle2);
+  const clampedWidth = Math.min(width, 0.9 * inward1.reach, 0.9 * inward2.reach);
+  if (clampedWidth <= 0) return null;
+
+  const steps = Math.max(1, Math.round(segments));
+  const arcs = new Map<string, THREE.Vector3[]>([
+    [keyA, sampleArc(
+      pointA.clone().addScaledVector(inward1.direction, clampedWidth),
+      pointA,
+      pointA.clone().addScaledVector(inward2.direction, clampedWidth),
+      steps
+    )],
+    [keyB, sampleArc(
+      pointB.clone().addScaledVector(inward1.direction, clampedWidth),
+      pointB,
+      pointB.clone().addScaledVector(inward2.direction, clampedWidth),
+      steps
+    )]
+  ]);
+  const middle = Math.floor(steps / 2);
+
+  const faceEdges = (face: Set<number>) => {
+    const edges = new Set<string>();
+    face.forEach((t) => {
+      const keys = topology.keys[t];
+      for (let k = 0; k < 3; k++) edges.add(edgeKey(keys[k], keys[(k + 1) % 3]));
+    });
+    return edges;
+  };
+  const face1Edges = faceEdges(face1);
+  const face2Edges = faceEdges(face2);
+
+  const positions: number[] = [];
+
+  for (let t = 0; t < topology.triangleCount; t++) {
+    const corners = topology.corners[t];
+    const keys = topology.keys[t];
+
+    if (face1.has(t) || face2.has(t)) {
+      // Faces along the edge just slide their end points back onto the arc ends
+      const end = face1.has(t) ? 0 : steps;
+      const [a, b, c] = corners.map((corner, k) => arcs.get(keys[k])?.[end] ?? corner);
+      pushTriangle(positions, a, b, c);
+      continue;
+    }
+
+    const cornerIndex = keys.findIndex(key => arcs.has(key));
+    if (cornerIndex === -1) {
+      pushTriangle(positions, corners[0], corners[1], corners[2]);
+      continue;
+    }
+
+    // A neighbouring face touches one end of the edge: swap that corner for the part of
+    // the arc it borders. Walking Y -> corner -> X, the corner becomes a chain of arc points.
+    const arc = arcs.get(keys[cornerIndex])!;
+    const x = (cornerIndex + 1) % 3;
+    const y = (cornerIndex + 2) % 3;
+    const sideOf = (k: number) => {
+      const key = edgeKey(keys[cornerIndex], keys[k]);
+      if (face1Edges.has(key)) return 0;
+      if (face2Edges.has(key)) return steps;
+      return -1;
+    };
+    const fromSide = sideOf(y);
+    const toSide = sideOf(x);
+    const start = fromSide === -1 ? middle : fromSide;
+    const finish = toSide === -1 ? middle : toSide;
+
+    const chain: THREE.Vector3[] = [];
+    const stride = finish >= start ? 1 : -1;
+    for (let i = start; i !== finish + stride; i += stride) {
+      chain.push(arc[i]);
+    }
+
+    // Fan the polygon Y, chain..., X out from Y
+    const pointY = corners[y];
+    const pointX = corners[x];
+    for (let i = 0; i < chain.length - 1; i++) {
+      pushTriangle(positions, pointY, chain[i], chain[i + 1]);
+    }
+    pushTriangle(positions, pointY, chain[chain.length - 1], pointX);
+  }
+
+  // The rounded strip between the two pulled-back faces
+  const arcA = arcs.get(keyA)!;
+  const arcB = arcs.get(keyB)!;
+  for (let i = 0; i < steps; i++) {
+    pushTriangle(positions, arcB[i], arcA[i], arcA[i + 1]);
+    pushTriangle(positions, arcB[i], arcA[i + 1], arcB[i + 1]);
+  }
+
+  return toGeometry(positions);
+};
+
+// Helper function to build a clamped, uniform knot vector
+const clampedKnots = (controlPointCount: number, degree: number) => {
+  const knots: number[] = [];
+  const interior = controlPointCount - degree;
+  for (let i = 0; i <= degree; i++) knots.push(0);
+  for (let i = 1; i < interior; i++) knots.push(i / interior);
+  for (let i = 0; i <= degree; i++) knots.push(1);
+  return knots;
+};
+
+// Sweep a tube along a NURBS curve through the given control points (at least two).
+// The result is a plain BufferGeometry so it can be saved like any custom mesh.
+export const createNURBSCurveGeometry = (points: THREE.Vector3[], radius = 0.05): THREE.BufferGeometry | null => {
+  if (points.length < 2) return null;
+
+  const degree = Math.min(3, points.length - 1);
+  const curve = new NURBSCurve(
+    degree,
+    clampedKnots(points.length, degree),
+    points.map(point => new THREE.Vector4(point.x, point.y, point.z, 1))
+  );
+
+  const tube = new THREE.TubeGeometry(curve, Math.max(32, points.length * 16), radius, 8, false);
+  const geometry = new THREE.BufferGeometry().copy(tube);
+  tube.dispose();
+  return geometry;
+};
+
+// Build a NURBS surface from control points laid out row by row, `pointsPerRow` at a time.
+// Incomplete trailing rows are ignored.
+export const createNURBSSurfaceGeometry = (points: THREE.Vector3[], pointsPerRow: number): THREE.BufferGeometry | null => {
+  const columns = Math.max(2, Math.round(pointsPerRow));
+  const rows = Math.floor(points.length / columns);
+  if (rows < 2) return null;
+
+  const grid = Array.from({ length: rows }, (_, row) =>
+    points
+      .slice(row * columns, (row + 1) * columns)
+      .map(point => new THREE.Vector4(point.x, point.y, point.z, 1))
+  );
+  const rowDegree = Math.min(3, rows - 1);
+  const columnDegree = Math.min(3, columns - 1);
+  const surface = new NURBSSurface(
+    rowDegree,
+    columnDegree,
+    clampedKnots(rows, rowDegree),
+    clampedKnots(columns, columnDegree),
+    grid
+  );
+
+  const parametric = new ParametricGeometry((u, v, target) => surface.getPoint(u, v, target), 24, 24);
+  const geometry = new THREE.BufferGeometry().copy(parametric);
+  parametric.dispose();
+  return geometry;
+};
@@ -0,0 +1,191 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+
+// Imported meshes are stored as a single Firestore document (customGeometry),
+// which is capped at 1 MiB. Keep well below that once normals are included.
+export const MAX_IMPORT_VERTICES = 15000;
+export const MAX_IMPORT_BYTES = 900 * 1024;
+
+export const SUPPORTED_MESH_EXTENSIONS = ['glb', 'gltf', 'obj', 'stl'];
+
+// Imported models are rescaled to this size when their units are clearly off (e.g. millimetres)
+const TARGET_SIZE = 2;
+const MIN_REASONABLE_SIZE = 0.1;
+const MAX_REASONABLE_SIZE = 20;
+
+export interface ImportedMesh {
+  name: string;
+  geometry: THREE.BufferGeometry;
+  color: string;
+  vertexCount: number;
+  triangleCount: number;
+  estimatedBytes: number;
+  rescaled: boolean;
+}
+
+// Helper function to get the lower-case extension of a file name
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() ?? '';
+
+const unsupportedTypeMessage = (extension: string) =>
+  `Unsupported file type ".${extension}". Use ${SUPPORTED_MESH_EXTENSIONS.map(ext => `.${ext}`).join(', ')}`;
+
+// Helper function to parse a file into a THREE.js object tree
+const parseFile = async (file: File, extension: string): Promise<THREE.Object3D> => {
+  switch (extension) {
+    case 'glb':
+    case 'gltf': {
+      const data = extension === 'glb' ? await file.arrayBuffer() : await file.text();
+      const gltf = await new GLTFLoader().parseAsync(data, '');
+      return gltf.scene;
+    }
+    case 'obj':
+      return new OBJLoader().parse(await file.text());
+    case 'stl': {
+      const geometry = new STLLoader().parse(await file.arrayBuffer());
+      return new THREE.Mesh(geometry, new THREE.MeshStandardMaterial());
+    }
+    default:
+      throw new Error(unsupportedTypeMessage(extension));
+  }
+};
+
+// Helper function to pick a display color from the first mesh material that has one
+const findMaterialColor = (root: THREE.Object3D): string | null => {
+  let color: string | null = null;
+
+  root.traverse((child) => {
+    if (color || !(child instanceof THREE.Mesh)) return;
+    const material = Array.isArray(child.material) ? child.material[0] : child.material;
+    if (material && 'color' in material && material.color instanceof THREE.Color) {
+      color = '#' + material.color.getHexString();
+    }
+  });
+
+  return color;
+};
+
+// Helper function to bake every mesh in the tree into one welded, world-space geometry
+const bakeMeshes = (root: THREE.Object3D): THREE.BufferGeometry => {
+  root.updateMatrixWorld(true);
+
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const vertex = new THREE.Vector3();
+
+  root.traverse((child) => {
+    if (!(child instanceof THREE.Mesh) || !child.geometry.attributes.position) return;
+
+    const position = child.geometry.attributes.position;
+    const offset = positions.length / 3;
+
+    for (let i = 0; i < position.count; i++) {
+      vertex.fromBufferAttribute(position, i).applyMatrix4(child.matrixWorld);
+      positions.push(vertex.x, vertex.y, vertex.z);
+    }
+
+    const index = child.geometry.index;
+    const faceIndices: number[] = index ? Array.from(index.array as ArrayLike<number>) : Array.from({ length: position.count }, (_, i) => i);
+
+    // Mirrored transforms flip the triangle winding, so swap it back to keep normals outward
+    const mirrored = child.matrixWorld.determinant() < 0;
+    for (let i = 0; i + 2 < faceIndices.length; i += 3) {
+      if (mirrored) {
+        indices.push(offset + faceIndices[i], offset + faceIndices[i + 2], offset + faceIndices[i + 1]);
+      } else {
+        indices.push(offset + faceIndices[i], offset + faceIndices[i + 1], offset + faceIndices[i + 2]);
+      }
+    }
+  });
+
+  if (positions.length === 0) {
+    throw new Error('The file does not contain any mesh geometry');
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+
+  // STL and most exporters write triangle soup - weld shared corners to keep the document small
+  const welded = mergeVertices(geometry);
+  geometry.dispose();
+  welded.computeVertexNormals();
+
+  return welded;
+};
+
+// Helper function to estimate the Firestore size of the serialized geometry (numbers are 8-byte doubles)
+const estimateDocumentBytes = (geometry: THREE.BufferGeometry) => {
+  const { position, normal, uv } = geometry.attributes;
+  const numberCount =
+    (position?.array.length ?? 0) +
+    (normal?.array.length ?? 0) +
+    (uv?.array.length ?? 0) +
+    (geometry.index?.array.length ?? 0);
+  return numberCount * 8;
+};
+
+// Parse a glTF/GLB, OBJ or STL file into a single centred geometry ready for placement
+export const importMeshFile = async (file: File): Promise<ImportedMesh> => {
+  const extension = getExtension(file.name);
+  if (!SUPPORTED_MESH_EXTENSIONS.includes(extension)) {
+    throw new Error(unsupportedTypeMessage(extension));
+  }
+
+  let root: THREE.Object3D;
+  try {
+    root = await parseFile(file, extension);
+  } catch (error) {
+    console.error('Error parsing mesh file:', error);
+    throw new Error(`Could not read "${file.name}". The file may be damaged or reference external resources.`);
+  }
+
+  const geometry = bakeMeshes(root);
+  const vertexCount = geometry.attributes.position.count;
+  const triangleCount = (geometry.index?.count ?? vertexCount) / 3;
+  const estimatedBytes = estimateDocumentBytes(geometry);
+
+  if (vertexCount > MAX_IMPORT_VERTICES) {
+    geometry.dispose();
+    throw new Error(
+      `"${file.name}" has ${vertexCount.toLocaleString()} vertices, but imported models are limited to ` +
+      `${MAX_IMPORT_VERTICES.toLocaleString()}. Simplify the model in your modelling tool and try again.`
+    );
+  }
+
+  if (estimatedBytes > MAX_IMPORT_BYTES) {
+    geometry.dispose();
+    throw new Error(
+      `"${file.name}" would take about ${Math.ceil(estimatedBytes / 1024).toLocaleString()} KB to save, but imported ` +
+      `models are limited to ${Math.floor(MAX_IMPORT_BYTES / 1024).toLocaleString()} KB. Simplify the model in your ` +
+      'modelling tool and try again.'
+    );
+  }
+
+  // Centre on the origin like the built-in shapes so placement can sit it on surfaces
+  geometry.center();
+  geometry.computeBoundingBox();
+  const size = geometry.boundingBox!.getSize(new THREE.Vector3());
+  const largest = Math.max(size.x, size.y, size.z);
+
+  let rescaled = false;
+  if (largest > 0 && (largest < MIN_REASONABLE_SIZE || largest > MAX_REASONABLE_SIZE)) {
+    const factor = TARGET_SIZE / largest;
+    geometry.scale(factor, factor, factor);
+    geometry.computeBoundingBox();
+    rescaled = true;
+  }
+  geometry.computeBoundingSphere();
+
+  return {
+    name: file.name.replace(/\.[^.]+$/, '') || 'Imported Model',
+    geometry,
+    color: findMaterialColor(root) ?? '#b0b0b0',
+    vertexCount,
+    triangleCount,
+    estimatedBytes,
+    rescaled
+  };
+};
@@ -0,0 +1,59 @@
+import { encodeQr, qrToSvg } from './qrCode';
+
+export interface ShareCardDetails {
+  projectName: string;
+  teacherName?: string;
+  classCode?: string | null;
+  // What the QR code opens
+  link: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] as string);
+
+// Helper function to lay out a card for posting in the classroom: project name, class code and QR
+export const buildShareCardHtml = ({ projectName, teacherName, classCode, link }: ShareCardDetails) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(projectName)} - Share Card</title>
+<style>
+  @page { margin: 16mm; }
+  body { margin: 0; font-family: system-ui, -apple-system, sans-serif; color: #111; display: flex; justify-content: center; }
+  .card { width: 150mm; border: 2px dashed #999; border-radius: 12px; padding: 12mm; text-align: center; }
+  h1 { font-size: 26pt; margin: 0 0 4mm; }
+  .teacher { font-size: 13pt; color: #555; margin: 0 0 8mm; }
+  .qr svg { width: 90mm; height: 90mm; }
+  .label { font-size: 12pt; color: #555; margin: 8mm 0 2mm; }
+  .code { font-family: ui-monospace, monospace; font-size: 36pt; font-weight: 700; letter-spacing: 0.3em; }
+  .steps { font-size: 11pt; color: #555; margin-top: 6mm; }
+  .link { font-size: 9pt; color: #777; word-break: break-all; margin-top: 4mm; }
+</style>
+</head>
+<body>
+  <div class="card">
+    <h1>${escapeHtml(projectName)}</h1>
+    ${teacherName ? `<p class="teacher">${escapeHtml(teacherName)}</p>` : ''}
+    <div class="qr">${qrToSvg(encodeQr(link))}</div>
+    ${classCode ? `
+    <div class="label">Class code</div>
+    <div class="code">${escapeHtml(classCode)}</div>
+    <div class="steps">Scan the code with a camera, or sign in and enter the class code under "Join a Class"</div>` : `
+    <div class="steps">Scan the code with a camera to open the project</div>`}
+    <div class="link">${escapeHtml(link)}</div>
+  </div>
+</body>
+</html>`;
+
+// Open the card in its own window and bring up the print dialog
+export const printShareCard = (details: ShareCardDetails) => {
+  const printWindow = window.open('', '_blank', 'width=800,height=900');
+  if (!printWindow) {
+    throw new Error('The print window was blocked');
+  }
+
+  printWindow.document.write(buildShareCardHtml(details));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
@@ -0,0 +1,210 @@
+import * as THREE from 'three';
+
+export type StlFormat = 'binary' | 'ascii';
+
+// Triangles in world space, 9 floats per triangle (three corners, outward winding)
+export type TriangleSoup = Float32Array;
+
+export interface MeshReport {
+  triangleCount: number;
+  degenerateTriangles: number;
+  openBoundaryEdges: number;
+  nonManifoldEdges: number;
+  inconsistentEdges: number;
+  insideOut: boolean;
+  watertight: boolean;
+}
+
+// Millimetres per scene unit offered for printing
+export const STL_UNIT_SCALES = [
+  { label: '1 unit = 1 mm', value: 1 },
+  { label: '1 unit = 1 cm', value: 10 },
+  { label: '1 unit = 1 inch', value: 25.4 }
+];
+
+// Corners closer than this (in output units) are treated as the same vertex
+const WELD_TOLERANCE = 1e-4;
+
+// Helper function to bake the world transforms of every mesh under the given objects into one triangle list.
+// The scene is Y-up while slicers expect Z-up, so the result is rotated onto the print bed and scaled to mm.
+export const collectTriangles = (objects: THREE.Object3D[], unitScale = 1): TriangleSoup => {
+  const result: number[] = [];
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const exportMatrix = new THREE.Matrix4()
+    .makeScale(unitScale, unitScale, unitScale)
+    .multiply(new THREE.Matrix4().makeRotationX(Math.PI / 2));
+  const matrix = new THREE.Matrix4();
+
+  objects.forEach((root) => {
+    root.updateWorldMatrix(true, true);
+
+    root.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || !child.geometry.attributes.position) return;
+
+      const position = child.geometry.attributes.position;
+      const index = child.geometry.index;
+      const count = index ? index.count : position.count;
+
+      // A negative determinant (e.g. from mirrorObject's scale.x *= -1) turns the
+      // triangles inside out, so swap two corners to restore outward winding
+      matrix.multiplyMatrices(exportMatrix, child.matrixWorld);
+      const mirrored = matrix.determinant() < 0;
+
+      for (let i = 0; i + 2 < count; i += 3) {
+        const i0 = index ? index.getX(i) : i;
+        const i1 = index ? index.getX(i + 1) : i + 1;
+        const i2 = index ? index.getX(i + 2) : i + 2;
+
+        a.fromBufferAttribute(position, i0).applyMatrix4(matrix);
+        b.fromBufferAttribute(position, i1).applyMatrix4(matrix);
+        c.fromBufferAttribute(position, i2).applyMatrix4(matrix);
+
+        if (mirrored) {
+          result.push(a.x, a.y, a.z, c.x, c.y, c.z, b.x, b.y, b.z);
+        } else {
+          result.push(a.x, a.y, a.z, b.x, b.y, b.z, c.x, c.y, c.z);
+        }
+      }
+    });
+  });
+
+  return new Float32Array(result);
+};
+
+// Helper function to compute the unit normal of a triangle from its winding
+const triangleNormal = (triangles: TriangleSoup, offset: number, target: THREE.Vector3) => {
+  const a = new THREE.Vector3().fromArray(triangles, offset);
+  const b = new THREE.Vector3().fromArray(triangles, offset + 3);
+  const c = new THREE.Vector3().fromArray(triangles, offset + 6);
+  return target.subVectors(c, b).cross(a.sub(b)).normalize();
+};
+
+// Inspect a triangle list the way a slicer would before printing
+export const analyzeTriangles = (triangles: TriangleSoup): MeshReport => {
+  const vertexIds = new Map<string, number>();
+  const weldedId = (offset: number) => {
+    const key = [0, 1, 2]
+      .map(axis => Math.round(triangles[offset + axis] / WELD_TOLERANCE))
+      .join(',');
+    let id = vertexIds.get(key);
+    if (id === undefined) {
+      id = vertexIds.size;
+      vertexIds.set(key, id);
+    }
+    return id;
+  };
+
+  // Per undirected edge: how many faces use it, and the net direction they traverse it in
+  const edges = new Map<string, { faces: number; direction: number }>();
+  const triangleCount = triangles.length / 9;
+  let degenerateTriangles = 0;
+  let signedVolume = 0;
+
+  for (let t = 0; t < triangleCount; t++) {
+    const offset = t * 9;
+    const ids = [weldedId(offset), weldedId(offset + 3), weldedId(offset + 6)];
+
+    if (ids[0] === ids[1] || ids[1] === ids[2] || ids[0] === ids[2]) {
+      degenerateTriangles++;
+      continue;
+    }
+
+    for (let i = 0; i < 3; i++) {
+      const from = ids[i];
+      const to = ids[(i + 1) % 3];
+      const key = from < to ? `${from}_${to}` : `${to}_${from}`;
+      const edge = edges.get(key) ?? { faces: 0, direction: 0 };
+      edge.faces++;
+      edge.direction += from < to ? 1 : -1;
+      edges.set(key, edge);
+    }
+
+    // Divergence theorem: positive for a closed mesh whose normals point outwards
+    const [ax, ay, az, bx, by, bz, cx, cy, cz] = triangles.subarray(offset, offset + 9);
+    signedVolume += (ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx)) / 6;
+  }
+
+  let openBoundaryEdges = 0;
+  let nonManifoldEdges = 0;
+  let inconsistentEdges = 0;
+
+  edges.forEach(({ faces, direction }) => {
+    if (faces === 1) {
+      openBoundaryEdges++;
+    } else if (faces > 2) {
+      nonManifoldEdges++;
+    } else if (direction !== 0) {
+      // Two neighbouring faces walking the shared edge the same way have opposite normals
+      inconsistentEdges++;
+    }
+  });
+
+  const closed = openBoundaryEdges === 0 && nonManifoldEdges === 0 && triangleCount > 0;
+
+  return {
+    triangleCount,
+    degenerateTriangles,
+    openBoundaryEdges,
+    nonManifoldEdges,
+    inconsistentEdges,
+    insideOut: closed && inconsistentEdges === 0 && signedVolume < 0,
+    watertight: closed && inconsistentEdges === 0
+  };
+};
+
+// Helper function to write triangles as a binary STL file
+export const writeBinaryStl = (triangles: TriangleSoup): ArrayBuffer => {
+  const triangleCount = triangles.length / 9;
+  const buffer = new ArrayBuffer(84 + triangleCount * 50);
+  const view = new DataView(buffer);
+  const normal = new THREE.Vector3();
+
+  // 80-byte header is free-form text; keep it away from "solid" so readers don't mistake it for ASCII
+  const header = 'Exported from Classroom 3D';
+  for (let i = 0; i < header.length; i++) {
+    view.setUint8(i, header.charCodeAt(i));
+  }
+  view.setUint32(80, triangleCount, true);
+
+  let offset = 84;
+  for (let t = 0; t < triangleCount; t++) {
+    triangleNormal(triangles, t * 9, normal);
+    view.setFloat32(offset, normal.x, true);
+    view.setFloat32(offset + 4, normal.y, true);
+    view.setFloat32(offset + 8, normal.z, true);
+    offset += 12;
+
+    for (let i = 0; i < 9; i++) {
+      view.setFloat32(offset, triangles[t * 9 + i], true);
+      offset += 4;
+    }
+
+    view.setUint16(offset, 0, true);
+    offset += 2;
+  }
+
+  return buffer;
+};
+
+// Helper function to write triangles as an ASCII STL file
+export const writeAsciiStl = (triangles: TriangleSoup, name: string): string => {
+  const solidName = name.replace(/\s+/g, '_') || 'model';
+  const normal = new THREE.Vector3();
+  const lines = [`solid ${solidName}`];
+
+  for (let offset = 0; offset < triangles.length; offset += 9) {
+    triangleNormal(triangles, offset, normal);
+    lines.push(`  facet normal ${normal.x} ${normal.y} ${normal.z}`);
+    lines.push('    outer loop');
+    for (let i = 0; i < 9; i += 3) {
+      lines.push(`      vertex ${triangles[offset + i]} ${triangles[offset + i + 1]} ${triangles[offset + i + 2]}`);
+    }
+    lines.push('    endloop');
+    lines.push('  endfacet');
+  }
+
+  lines.push(`endsolid ${solidName}`);
+  return lines.join('\n');
+};
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'local' keeps all data in the browser instead of Firebase
+  readonly VITE_STORAGE_BACKEND?: 'firestore' | 'local';
+  // Where invitation emails are posted; without it they stay in a local outbox
+  readonly VITE_MAIL_ENDPOINT?: string;
+}